@@ -1,36 +1,20 @@
 /**
- * Groq AI Agent Setup
+ * AI Agent Setup
  * 
  * Main agent initialization and configuration
  */
 
-import { ChatGroq } from "@langchain/groq";
-import { HumanMessage, AIMessage, SystemMessage, ToolMessage } from "@langchain/core/messages";
-import dotenv from "dotenv";
-import { AgentConfig } from "./types";
+import { HumanMessage, AIMessage, AIMessageChunk, BaseMessage, SystemMessage, ToolCall, ToolMessage } from "@langchain/core/messages";
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import type { Runnable } from "@langchain/core/runnables";
+import type { StructuredToolInterface } from "@langchain/core/tools";
+import { AgentAction, AgentMessage, AgentResponse, AgentStreamEvent, AgentToolCall, ProcessMessageOptions } from "./types";
+import { createChatModel, getProviderConfigError, resolveAgentConfig } from "./providers";
+import { CATALOG_CURRENCY } from "../marketplace/catalog";
+import { createLogger, withLogContext } from "../logging/logger";
+import { agentTurnDuration, agentTurns, llmRequestDuration, llmTokens, secondsSince, toolInvocations } from "../metrics/metrics";
 
-dotenv.config();
-
-const GROQ_API_KEY = process.env.GROQ_API_KEY;
-
-if (!GROQ_API_KEY) {
-  console.warn("⚠️  GROQ_API_KEY not set in .env. Agent will not function properly.");
-}
-
-/**
- * Initialize Groq Chat Model
- */
-export function createGroqModel(temperature: number = 0) {
-  if (!GROQ_API_KEY) {
-    throw new Error("GROQ_API_KEY is required. Please set it in your .env file.");
-  }
-
-  return new ChatGroq({
-    model: "llama-3.3-70b-versatile",
-    temperature,
-    apiKey: GROQ_API_KEY,
-  });
-}
+const log = createLogger("agent");
 
 /**
  * System Prompt for the Smart Wallet Agent
@@ -45,15 +29,16 @@ const createSystemPrompt = (primaryWalletId?: string) => {
 CRITICAL: When users ask you to list, show, or display e-books, you MUST use the browse_ebooks tool immediately. Do NOT just tell them you can list e-books - actually call the tool and display the results.
 
 You have access to the following capabilities:
-- Check wallet balance (use check_wallet_balance tool)
+- Check wallet balances for every token: USDC, EURC, native gas tokens and others (use check_wallet_balance tool)
 - Get wallet information including address (use get_wallet_info tool)
 - List transactions with optional filters (use list_transactions tool)
 - Get specific transaction details by ID (use get_transaction tool)
-- Transfer tokens/USDC to other addresses (use transfer_tokens tool)
+- Estimate transfer fees and total cost per fee level (use estimate_transfer_fee tool)
+- Transfer any token the wallet holds (USDC, EURC, ETH, ...) to other addresses (use transfer_tokens tool)
 - Browse available e-books in the marketplace (use browse_ebooks tool) - USE THIS when asked to list/show e-books
 - Search for e-books by title/author (use search_ebooks tool)
 - Get e-book price and details (use get_ebook_price tool)
-- Purchase e-books using USDC (use purchase_ebook tool)
+- Purchase e-books, priced and paid in ${CATALOG_CURRENCY} (use purchase_ebook tool)
 
 Important rules:
 1. When asked about which wallet you're connected to, ALWAYS use the get_wallet_info tool to get the actual wallet address and return it to the user
@@ -66,164 +51,258 @@ Important rules:
    - Do NOT just say you can list them - actually call the tool and show the results
 6. When users search for specific e-books, use search_ebooks tool with their query
 7. When transferring tokens:
-   - FIRST check the wallet balance using check_wallet_balance to get the token ID and verify sufficient funds
-   - Use the token ID from the balance check in the transfer_tokens tool
+   - Pass the token symbol the user mentions (e.g. "send 5 EURC" → token "EURC") to transfer_tokens; it finds the token ID and checks the balance itself
+   - Never ask the user for token IDs. If they don't name a token, ask which one (e.g. USDC or EURC)
    - Verify the destination address is correct before transferring
-   - Always confirm the transfer was initiated and provide the transaction ID
+   - If the user asks what the transfer will cost or which fee level to use, call estimate_transfer_fee first
+   - transfer_tokens only PREPARES the transfer; nothing is sent until the user confirms it in the confirmation card
+   - Tell the user the transfer is awaiting their confirmation. Never say funds were sent
 8. When purchasing e-books:
    - FIRST browse or search e-books to find what the user wants
    - Get the e-book price using get_ebook_price tool
-   - Check wallet balance to get the token ID and verify sufficient funds
-   - Use purchase_ebook tool with wallet ID, e-book ID, and token ID
+   - Use purchase_ebook tool with wallet ID and e-book ID; it checks the ${CATALOG_CURRENCY} balance itself
+   - purchase_ebook only PREPARES the purchase; nothing is paid until the user confirms it in the confirmation card
 9. Always check the wallet balance before attempting to purchase anything
 10. Confirm the price of the e-book before purchasing
 11. Only proceed with purchases or transfers if the wallet has sufficient balance
 12. Provide clear, friendly responses to users with actual data from the tools
-13. Confirm purchases and transfers clearly with transaction details when completed
-14. Never hallucinate or make up wallet addresses, balances, transaction details, or e-book lists - always use the tools to get real data${walletInfo}
+13. Summarize prepared purchases and transfers clearly (amount, destination, e-book) so the user can confirm or reject them
+14. Never hallucinate or make up wallet addresses, balances, transaction details, or e-book lists - always use the tools to get real data
+15. If a transfer or purchase is rejected by the spending policy, explain the reasons to the user and do not try to work around them (e.g. by splitting the amount)${walletInfo}
 
 Be helpful, concise, and always prioritize user safety and wallet security.`;
 };
 
 
+/**
+ * Convert stored conversation history into LangChain messages
+ */
+function toLangChainMessages(history: AgentMessage[]) {
+  return history.map((m) => {
+    if (m.role === 'user') return new HumanMessage(m.content);
+    if (m.role === 'agent') return new AIMessage(m.content);
+    return new SystemMessage(m.content);
+  });
+}
+
+/**
+ * Invoke the model, streaming token deltas to onEvent when provided.
+ * Streamed chunks are concatenated so tool calls are available as with invoke().
+ * @param labels - Provider and model the call is counted under in the metrics
+ */
+async function invokeModel(
+  model: Runnable<BaseMessage[], AIMessageChunk>,
+  messages: BaseMessage[],
+  labels: { provider: string; model: string },
+  onEvent?: (event: AgentStreamEvent) => void
+) {
+  const startedAt = Date.now();
+  try {
+    let response: AIMessageChunk | undefined;
+    if (!onEvent) {
+      response = await model.invoke(messages);
+    } else {
+      let aggregate: AIMessageChunk | undefined;
+      for await (const chunk of await model.stream(messages)) {
+        if (typeof chunk.content === 'string' && chunk.content) {
+          onEvent({ type: 'token', content: chunk.content });
+        }
+        aggregate = aggregate ? aggregate.concat(chunk) : chunk;
+      }
+      response = aggregate;
+    }
+
+    llmRequestDuration.observe({ ...labels, outcome: 'success' }, secondsSince(startedAt));
+    // Token usage, when the provider reports it
+    const usage = response?.usage_metadata;
+    if (usage) {
+      llmTokens.inc({ ...labels, type: 'input' }, usage.input_tokens);
+      llmTokens.inc({ ...labels, type: 'output' }, usage.output_tokens);
+    }
+
+    const toolCalls = response?.tool_calls || [];
+    log.debug('Model responded', {
+      durationMs: Date.now() - startedAt,
+      toolCalls: toolCalls.map((toolCall) => ({ id: toolCall.id, name: toolCall.name, args: toolCall.args })),
+    });
+    return response;
+  } catch (error: any) {
+    llmRequestDuration.observe({ ...labels, outcome: 'error' }, secondsSince(startedAt));
+    log.error('Model call failed', {
+      durationMs: Date.now() - startedAt,
+      status: error.status,
+      details: error.error,
+      error,
+    });
+    throw error;
+  }
+}
+
+/**
+ * Short, single-line version of a tool result for progress events
+ */
+function summarizeToolResult(result: string, maxLength: number = 200): string {
+  const firstLine = result.split('\n').find((line) => line.trim() !== '') || '';
+  return firstLine.length > maxLength ? `${firstLine.slice(0, maxLength)}...` : firstLine;
+}
+
+/**
+ * Tool calls of a model response, each with an ID its result is sent back under
+ */
+function toolCallsOf(response?: AIMessageChunk): (ToolCall & { id: string })[] {
+  return (response?.tool_calls || []).map((toolCall, index) => ({ ...toolCall, id: toolCall.id || `call_${index}` }));
+}
+
+/**
+ * Wallet IDs a tool call acts on: every walletId-like argument (walletId, sourceWalletId, walletIds, ...)
+ */
+function walletIdsOf(toolCall: ToolCall): string[] {
+  return Object.entries(toolCall.args || {})
+    .filter(([name]) => /walletIds?$/i.test(name))
+    .flatMap(([, value]) => (Array.isArray(value) ? value : [value]))
+    .filter((value): value is string => typeof value === 'string');
+}
+
 /**
  * Process message with agent executor and tools
  */
 export async function processMessage(
   message: string, 
   walletId?: string,
-  tools: any[] = []
-): Promise<string> {
-  if (!GROQ_API_KEY) {
-    return "I'm sorry, but the AI agent is not properly configured. Please set GROQ_API_KEY in your .env file.";
+  tools: StructuredToolInterface[] = [],
+  options: ProcessMessageOptions = {}
+): Promise<AgentResponse> {
+  const turnStartedAt = Date.now();
+  // Every tool invocation of this turn, in execution order
+  const agentToolCalls: AgentToolCall[] = [];
+  const config = resolveAgentConfig({ walletId, ...options.config });
+  const modelLabels = { provider: config.provider, model: config.model || config.provider };
+  // Every turn ends here, so it's counted here
+  const buildResponse = (text: string, error?: string): AgentResponse => {
+    agentTurns.inc({ provider: config.provider, outcome: error ? 'error' : 'success' });
+    agentTurnDuration.observe({ provider: config.provider }, secondsSince(turnStartedAt));
+    return {
+      message: text,
+      toolCalls: agentToolCalls,
+      actions: agentToolCalls
+        .map((toolCall) => toolCall.result)
+        .filter((result): result is AgentAction => result !== undefined),
+      provider: config.provider,
+      model: modelLabels.model,
+      ...(error && { error }),
+    };
+  };
+
+  const configError = getProviderConfigError(config);
+  if (configError) {
+    return buildResponse(`I'm sorry, but the AI agent is not properly configured. ${configError}`, configError);
   }
 
   try {
-    const model = createGroqModel(0);
+    const model: BaseChatModel = createChatModel(config);
     const systemPrompt = createSystemPrompt(walletId);
 
     // Bind tools to the model
-    const modelWithTools = tools.length > 0 ? model.bindTools(tools) : model;
+    const modelWithTools = tools.length > 0 ? model.bindTools!(tools) : model;
 
     // Create messages using LangChain message types
-    const messages: any[] = [
+    const { history = [], summary, onEvent, allowedWalletIds } = options;
+    const messages: BaseMessage[] = [
       new SystemMessage(systemPrompt),
+      ...(summary ? [new SystemMessage(`Summary of earlier conversation:\n${summary}`)] : []),
+      ...toLangChainMessages(history),
       new HumanMessage(message),
     ];
 
     // Get initial response
-    let response;
-    try {
-      response = await modelWithTools.invoke(messages);
-    } catch (invokeError: any) {
-      if (invokeError.error) {
-        console.error('   Error details:', JSON.stringify(invokeError.error, null, 2));
-      }
-      if (invokeError.response) {
-        console.error('   Response:', JSON.stringify(invokeError.response, null, 2));
-      }
-      throw invokeError;
-    }
-    
-    let toolCalls = (response as any).tool_calls || [];
-    console.log('🔨 Tool calls detected:', toolCalls.length);
-    if (toolCalls.length > 0) {
-      console.log('🔨 Tool call details:', toolCalls.map((tc: any) => ({
-        name: tc.name,
-        id: tc.id,
-        args: tc.args,
-      })));
-    }
+    let response = await invokeModel(modelWithTools, messages, modelLabels, onEvent);
+    let toolCalls = toolCallsOf(response);
 
     // Execute tool calls if any (max 5 iterations to prevent infinite loops)
     let iterations = 0;
     while (toolCalls && toolCalls.length > 0 && iterations < 5) {
       iterations++;
-      console.log(`🔄 Tool execution iteration ${iterations}`);
       
-      const toolResults = await Promise.all(
-        toolCalls.map(async (toolCall: any) => {
-          console.log(`   🔍 Looking for tool: ${toolCall.name}`);
+      const toolResults: AgentToolCall[] = await Promise.all(
+        toolCalls.map((toolCall): Promise<AgentToolCall> => withLogContext({ tool: toolCall.name, toolCallId: toolCall.id }, async () => {
+          const startedAt = Date.now();
+          const record = () => ({
+            id: toolCall.id,
+            name: toolCall.name,
+            args: toolCall.args,
+            durationMs: Date.now() - startedAt,
+          });
           const tool = tools.find((t) => t.name === toolCall.name);
           if (!tool) {
-            console.error(`   ❌ Tool ${toolCall.name} not found in available tools`);
-            console.error(`   📋 Available tools:`, tools.map(t => t.name));
-            return {
-              tool_call_id: toolCall.id,
-              content: `Tool ${toolCall.name} not found`,
-            };
+            log.warn('Tool not found', { availableTools: tools.map((t) => t.name) });
+            // The name comes from the model, so it isn't used as a label
+            toolInvocations.inc({ tool: 'unknown', outcome: 'not_found' });
+            return { ...record(), output: `Tool ${toolCall.name} not found`, error: true };
+          }
+          const walletId = walletIdsOf(toolCall).find((id) => allowedWalletIds && !allowedWalletIds.includes(id));
+          if (walletId) {
+            log.warn('Tool refused: wallet is not the user\'s', { walletId });
+            toolInvocations.inc({ tool: toolCall.name, outcome: 'refused' });
+            return { ...record(), output: `Error: Wallet ${walletId} not found among the user's wallets`, error: true };
           }
-          console.log(`   ✅ Found tool: ${toolCall.name}`);
-          console.log(`   📝 Tool call args:`, JSON.stringify(toolCall.args, null, 2));
+          onEvent?.({ type: 'tool_start', id: toolCall.id, name: toolCall.name, args: toolCall.args });
           try {
-            const result = await tool.invoke(toolCall.args);
-            console.log(`   ✅ Tool ${toolCall.name} executed successfully`);
-            console.log(`   📄 Result length:`, typeof result === 'string' ? result.length : 'N/A');
-            return {
-              tool_call_id: toolCall.id,
-              content: typeof result === 'string' ? result : String(result),
-            };
+            // Invoking with the full tool call returns a ToolMessage carrying the structured artifact
+            const toolMessage: ToolMessage = await tool.invoke({ ...toolCall, type: 'tool_call' });
+            // Transactions looked up by ID must belong to one of the user's wallets too
+            const artifact = toolMessage.artifact as AgentAction | undefined;
+            if (
+              allowedWalletIds &&
+              artifact?.type === 'transaction_details' &&
+              !allowedWalletIds.includes(artifact.transaction.walletId)
+            ) {
+              throw new Error('Transaction not found');
+            }
+            const content = typeof toolMessage.content === 'string' ? toolMessage.content : JSON.stringify(toolMessage.content);
+            log.info('Tool completed', { durationMs: Date.now() - startedAt, outputLength: content.length });
+            toolInvocations.inc({ tool: toolCall.name, outcome: 'success' });
+            onEvent?.({ type: 'tool_end', id: toolCall.id, name: toolCall.name, result: summarizeToolResult(content) });
+            return { ...record(), output: content, result: toolMessage.artifact };
           } catch (error: any) {
-            console.error(`   ❌ Tool ${toolCall.name} execution failed:`, error.message);
-            return {
-              tool_call_id: toolCall.id,
-              content: `Error: ${error.message}`,
-            };
+            // Tools throw on failure (invalid input, policy rejection, provider error), so the call is recorded as failed
+            log.warn('Tool failed', { durationMs: Date.now() - startedAt, error });
+            toolInvocations.inc({ tool: toolCall.name, outcome: 'error' });
+            onEvent?.({ type: 'tool_end', id: toolCall.id, name: toolCall.name, result: `Error: ${error.message}`, error: true });
+            return { ...record(), output: `Error: ${error.message}`, error: true };
           }
-        })
+        }))
       );
+      agentToolCalls.push(...toolResults);
 
       // Add AI response and tool results
-      messages.push(response);
-      toolResults.forEach((toolResult: any) => {
+      if (response) messages.push(response);
+      toolResults.forEach((toolResult) => {
         messages.push(
           new ToolMessage({
-            content: toolResult.content,
-            tool_call_id: toolResult.tool_call_id,
+            content: toolResult.output,
+            tool_call_id: toolResult.id,
           })
         );
       });
 
       // Get next response
-      try {
-        response = await modelWithTools.invoke(messages);
-        toolCalls = (response as any).tool_calls || [];
-        console.log(`   🔄 Next response - tool calls: ${toolCalls?.length || 0}`);
-      } catch (nextError: any) {
-        console.error('❌ Error in next iteration invoke:');
-        console.error('   Error message:', nextError.message);
-        console.error('   Error status:', nextError.status);
-        if (nextError.error) {
-          console.error('   Error details:', JSON.stringify(nextError.error, null, 2));
-        }
-        throw nextError;
-      }
+      response = await invokeModel(modelWithTools, messages, modelLabels, onEvent);
+      toolCalls = toolCallsOf(response);
     }
 
     // Get final content
-    const finalContent = (response as AIMessage).content;
+    const finalContent = response?.content;
     const finalContentStr = typeof finalContent === 'string' ? finalContent : JSON.stringify(finalContent);
     
-    // If we have tool results, make sure they're included in the response
-    const toolMessages = messages.filter((m: any) => m instanceof ToolMessage);
-    const lastToolMessage = toolMessages[toolMessages.length - 1];
-    
-    // If the response doesn't include the tool results and we have tool results, append them
-    if (lastToolMessage && finalContentStr && !finalContentStr.includes('Available E-Books')) {
-      const toolResult = lastToolMessage.content as string;
-      if (toolResult.includes('Available E-Books') || toolResult.includes('ebook')) {
-        return `${finalContentStr}\n\n${toolResult}`;
-      }
-    }
-    
-    // If no content but we have tool results, return the tool results
-    if ((!finalContentStr || finalContentStr.trim() === '') && lastToolMessage) {
-      return lastToolMessage.content as string;
+    // If no content but we have tool results, return the last tool output
+    const lastToolCall = agentToolCalls[agentToolCalls.length - 1];
+    if ((!finalContentStr || finalContentStr.trim() === '') && lastToolCall) {
+      return buildResponse(lastToolCall.output);
     }
 
-    return finalContentStr || 'I processed your request but did not receive a response.';
+    return buildResponse(finalContentStr || 'I processed your request but did not receive a response.');
   } catch (error: any) {
-    console.error("Error processing message:", error);
-    return `I encountered an error: ${error.message || "Unknown error"}`;
+    log.error('Agent turn failed', { error });
+    return buildResponse(`I encountered an error: ${error.message || "Unknown error"}`, error.message || "Unknown error");
   }
 }
\ No newline at end of file
@@ -0,0 +1,166 @@
+/**
+ * Agent Audit Trail
+ *
+ * Persists every agent turn (request, model, tool invocations, final answer)
+ * so "what did the assistant do with my wallet?" can be answered after the fact.
+ */
+
+import { getDatabase } from '../db/database';
+import { AgentAuditEntry, AgentAuditFilter, AgentResponse, LLMProvider } from './types';
+import { createLogger } from '../logging/logger';
+
+const log = createLogger('agent');
+
+const DEFAULT_AUDIT_LIMIT = 50;
+const MAX_AUDIT_LIMIT = 500;
+
+/** A row of the agent_turns table */
+interface AgentTurnRow {
+  id: string;
+  session_id: string | null;
+  wallet_id: string | null;
+  request: string;
+  provider: LLMProvider;
+  model: string;
+  response: string;
+  error: string | null;
+  duration_ms: number;
+  created_at: string;
+}
+
+/** A row of the agent_tool_calls table */
+interface AgentToolCallRow {
+  id: number;
+  turn_id: string;
+  position: number;
+  tool_call_id: string;
+  name: string;
+  args: string;
+  output: string;
+  result: string | null;
+  error: number;
+  duration_ms: number;
+}
+
+/**
+ * Persist a completed agent turn with its tool calls
+ * Failures are logged, never thrown: auditing must not break the chat
+ */
+export function recordAgentTurn(
+  turn: { sessionId?: string; walletId?: string; request: string; startedAt: Date },
+  agentResponse: AgentResponse
+): AgentAuditEntry | undefined {
+  const entry: AgentAuditEntry = {
+    id: crypto.randomUUID(),
+    sessionId: turn.sessionId,
+    walletId: turn.walletId,
+    request: turn.request,
+    provider: agentResponse.provider,
+    model: agentResponse.model,
+    response: agentResponse.message,
+    error: agentResponse.error,
+    durationMs: Date.now() - turn.startedAt.getTime(),
+    toolCalls: agentResponse.toolCalls,
+    createdAt: turn.startedAt,
+  };
+
+  try {
+    const db = getDatabase();
+    const insertTurn = db.prepare(`
+      INSERT INTO agent_turns (id, session_id, wallet_id, request, provider, model, response, error, duration_ms, created_at)
+      VALUES (@id, @sessionId, @walletId, @request, @provider, @model, @response, @error, @durationMs, @createdAt)
+    `);
+    const insertToolCall = db.prepare(`
+      INSERT INTO agent_tool_calls (turn_id, position, tool_call_id, name, args, output, result, error, duration_ms)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    db.transaction(() => {
+      insertTurn.run({
+        ...entry,
+        sessionId: entry.sessionId ?? null,
+        walletId: entry.walletId ?? null,
+        error: entry.error ?? null,
+        createdAt: entry.createdAt.toISOString(),
+      });
+      entry.toolCalls.forEach((toolCall, position) => {
+        insertToolCall.run(
+          entry.id,
+          position,
+          toolCall.id,
+          toolCall.name,
+          JSON.stringify(toolCall.args ?? {}),
+          toolCall.output,
+          toolCall.result ? JSON.stringify(toolCall.result) : null,
+          toolCall.error ? 1 : 0,
+          toolCall.durationMs
+        );
+      });
+    })();
+
+    return entry;
+  } catch (error: any) {
+    log.error('Failed to record agent turn in audit trail', { error });
+    return undefined;
+  }
+}
+
+/**
+ * List audited turns, most recent first
+ */
+export function listAgentTurns(filter: AgentAuditFilter = {}): AgentAuditEntry[] {
+  const db = getDatabase();
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+
+  if (filter.walletId) {
+    conditions.push('t.wallet_id = ?');
+    params.push(filter.walletId);
+  }
+  if (filter.walletIds) {
+    conditions.push(`t.wallet_id IN (${filter.walletIds.map(() => '?').join(', ') || 'NULL'})`);
+    params.push(...filter.walletIds);
+  }
+  if (filter.tool) {
+    conditions.push('EXISTS (SELECT 1 FROM agent_tool_calls c WHERE c.turn_id = t.id AND c.name = ?)');
+    params.push(filter.tool);
+  }
+  if (filter.from) {
+    conditions.push('t.created_at >= ?');
+    params.push(filter.from.toISOString());
+  }
+  if (filter.to) {
+    conditions.push('t.created_at <= ?');
+    params.push(filter.to.toISOString());
+  }
+
+  const limit = Math.min(filter.limit || DEFAULT_AUDIT_LIMIT, MAX_AUDIT_LIMIT);
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const turns = db
+    .prepare(`SELECT * FROM agent_turns t ${where} ORDER BY t.created_at DESC LIMIT ?`)
+    .all(...params, limit) as AgentTurnRow[];
+
+  const selectToolCalls = db.prepare('SELECT * FROM agent_tool_calls WHERE turn_id = ? ORDER BY position');
+
+  return turns.map((row) => ({
+    id: row.id,
+    sessionId: row.session_id ?? undefined,
+    walletId: row.wallet_id ?? undefined,
+    request: row.request,
+    provider: row.provider,
+    model: row.model,
+    response: row.response,
+    error: row.error ?? undefined,
+    durationMs: row.duration_ms,
+    createdAt: new Date(row.created_at),
+    toolCalls: (selectToolCalls.all(row.id) as AgentToolCallRow[]).map((call) => ({
+      id: call.tool_call_id,
+      name: call.name,
+      args: JSON.parse(call.args),
+      output: call.output,
+      ...(call.result && { result: JSON.parse(call.result) }),
+      ...(call.error && { error: true }),
+      durationMs: call.duration_ms,
+    })),
+  }));
+}
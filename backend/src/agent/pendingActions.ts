@@ -0,0 +1,135 @@
+/**
+ * Pending Actions
+ *
+ * Money-moving agent tools (transfers, purchases) don't execute immediately.
+ * They create a pending action that the user must confirm or reject, so a
+ * hallucinated address or misread amount never sends funds on its own.
+ * In-memory storage for MVP (can be replaced with database later)
+ */
+
+import dotenv from 'dotenv';
+import { PendingAction } from './types';
+import * as walletManager from '../wallet/walletManager';
+import { processPurchase } from '../marketplace/marketplace';
+
+dotenv.config();
+
+// How long a pending action can be confirmed (default: 5 minutes)
+const PENDING_ACTION_TTL_SECONDS = parseInt(process.env.PENDING_ACTION_TTL_SECONDS || '300', 10);
+
+/**
+ * Pending Action Storage
+ * Format: Map<actionId, PendingAction>
+ */
+const pendingActions = new Map<string, PendingAction>();
+
+/**
+ * Create a pending action awaiting user confirmation
+ */
+export function createPendingAction(
+  type: PendingAction['type'],
+  walletId: string,
+  details: PendingAction['details']
+): PendingAction {
+  const now = new Date();
+  const action: PendingAction = {
+    id: crypto.randomUUID(),
+    type,
+    status: 'pending',
+    walletId,
+    details,
+    createdAt: now,
+    expiresAt: new Date(now.getTime() + PENDING_ACTION_TTL_SECONDS * 1000),
+  };
+  pendingActions.set(action.id, action);
+  return action;
+}
+
+/**
+ * Get a pending action by ID, marking it expired if its time is up
+ */
+export function getPendingAction(actionId: string): PendingAction | undefined {
+  const action = pendingActions.get(actionId);
+  if (action && action.status === 'pending' && action.expiresAt.getTime() <= Date.now()) {
+    action.status = 'expired';
+  }
+  return action;
+}
+
+/**
+ * Confirm a pending action and execute it
+ * @throws Error if the action doesn't exist or is no longer pending
+ */
+export async function confirmPendingAction(actionId: string): Promise<PendingAction> {
+  const action = requirePendingAction(actionId);
+  const { details } = action;
+
+  // Mark as confirmed up front so a double click can't execute it twice
+  action.status = 'confirmed';
+
+  try {
+    if (action.type === 'purchase') {
+      const purchase = await processPurchase(details.ebookId!, action.walletId, details.tokenId, details.feeLevel);
+      action.status = purchase.success ? 'confirmed' : 'failed';
+      action.result = {
+        transactionId: purchase.transactionId,
+        message: purchase.message,
+        ...(purchase.success && {
+          receipt: {
+            type: 'purchase_submitted' as const,
+            ebook: purchase.ebook,
+            orderId: purchase.orderId,
+            transactionId: purchase.transactionId,
+          },
+        }),
+      };
+    } else {
+      const transfer = await walletManager.transferTokens(
+        action.walletId,
+        details.tokenId,
+        details.destinationAddress,
+        details.amount,
+        details.feeLevel
+      );
+      action.result = {
+        transactionId: transfer?.id,
+        state: transfer?.state,
+        message: `Transfer of ${details.amount} ${details.tokenSymbol || ''} to ${details.destinationAddress} initiated. Transaction ID: ${transfer?.id || 'Unknown'}`,
+        receipt: {
+          type: 'transfer_submitted',
+          transactionId: transfer?.id,
+          state: transfer?.state,
+          amount: details.amount,
+          destinationAddress: details.destinationAddress,
+        },
+      };
+    }
+  } catch (error: any) {
+    action.status = 'failed';
+    action.result = { message: error.message || 'Unknown error' };
+  }
+
+  return action;
+}
+
+/**
+ * Reject a pending action without executing it
+ * @throws Error if the action doesn't exist or is no longer pending
+ */
+export function rejectPendingAction(actionId: string): PendingAction {
+  const action = requirePendingAction(actionId);
+  action.status = 'rejected';
+  action.result = { message: 'Rejected by user' };
+  return action;
+}
+
+function requirePendingAction(actionId: string): PendingAction {
+  const action = getPendingAction(actionId);
+  if (!action) {
+    throw new Error(`Action ${actionId} not found`);
+  }
+  if (action.status !== 'pending') {
+    throw new Error(`Action ${actionId} is ${action.status} and can no longer be changed`);
+  }
+  return action;
+}
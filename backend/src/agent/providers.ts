@@ -0,0 +1,115 @@
+/**
+ * LLM Providers
+ *
+ * Creates the chat model used by the agent based on configuration:
+ * - groq: Groq cloud (default)
+ * - openai: Any OpenAI-compatible endpoint (OpenAI, Ollama, llama.cpp server, ...)
+ * - scripted: Deterministic offline model that replays a JSON script
+ */
+
+import { ChatGroq } from "@langchain/groq";
+import { ChatOpenAI } from "@langchain/openai";
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import dotenv from "dotenv";
+import { AgentConfig, LLMProvider } from "./types";
+import { ScriptedChatModel, loadChatScript } from "./scriptedModel";
+import { createLogger } from "../logging/logger";
+import { getDependencies } from "../dependencies";
+
+dotenv.config();
+
+const log = createLogger("agent");
+
+const LLM_PROVIDERS: LLMProvider[] = ["groq", "openai", "scripted"];
+
+const DEFAULT_MODELS: Record<LLMProvider, string> = {
+  groq: "llama-3.3-70b-versatile",
+  openai: "llama3.1",
+  scripted: "scripted",
+};
+
+// Ollama's OpenAI-compatible endpoint
+const DEFAULT_OPENAI_BASE_URL = "http://localhost:11434/v1";
+
+if ((process.env.LLM_PROVIDER || "groq") === "groq" && !process.env.GROQ_API_KEY) {
+  log.warn("GROQ_API_KEY not set in .env. Agent will not function properly.");
+}
+
+/**
+ * Builds the chat model of each turn in place of the configured provider (createApp's chatModel, e.g. in tests)
+ */
+export type ChatModelFactory = (config: AgentConfig & { provider: LLMProvider }) => BaseChatModel;
+
+/**
+ * Merge explicit agent config with environment defaults
+ */
+export function resolveAgentConfig(config: AgentConfig = {}): AgentConfig & { provider: LLMProvider } {
+  const provider = config.provider || (process.env.LLM_PROVIDER as LLMProvider) || "groq";
+  const temperature = config.temperature ?? (process.env.LLM_TEMPERATURE ? parseFloat(process.env.LLM_TEMPERATURE) : 0);
+
+  return {
+    ...config,
+    provider,
+    model: config.model || process.env.LLM_MODEL || DEFAULT_MODELS[provider],
+    temperature,
+    baseUrl: config.baseUrl || process.env.LLM_BASE_URL,
+  };
+}
+
+/**
+ * Check that the selected provider has what it needs
+ * @returns An error message, or null if the provider is usable
+ */
+export function getProviderConfigError(config: AgentConfig & { provider: LLMProvider }): string | null {
+  if (getDependencies().chatModel) {
+    return null;
+  }
+  if (!LLM_PROVIDERS.includes(config.provider)) {
+    return `Unknown LLM_PROVIDER "${config.provider}". Use one of: ${LLM_PROVIDERS.join(", ")}.`;
+  }
+  if (config.provider === "groq" && !process.env.GROQ_API_KEY) {
+    return "Please set GROQ_API_KEY in your .env file.";
+  }
+  if (config.provider === "scripted" && !process.env.SCRIPTED_LLM_FILE) {
+    return "Please set SCRIPTED_LLM_FILE in your .env file to use the scripted provider.";
+  }
+  return null;
+}
+
+/**
+ * Initialize the chat model for the configured provider
+ */
+export function createChatModel(config: AgentConfig = {}): BaseChatModel {
+  const resolved = resolveAgentConfig(config);
+  const chatModelFactory = getDependencies().chatModel;
+  if (chatModelFactory) {
+    return chatModelFactory(resolved);
+  }
+
+  const configError = getProviderConfigError(resolved);
+  if (configError) {
+    throw new Error(configError);
+  }
+
+  switch (resolved.provider) {
+    case "openai":
+      return new ChatOpenAI({
+        model: resolved.model,
+        temperature: resolved.temperature,
+        // Local servers usually ignore the key, but the client requires one
+        apiKey: process.env.LLM_API_KEY || "not-needed",
+        configuration: {
+          baseURL: resolved.baseUrl || DEFAULT_OPENAI_BASE_URL,
+        },
+      });
+    case "scripted":
+      return new ScriptedChatModel(loadChatScript(process.env.SCRIPTED_LLM_FILE!), resolved.walletId);
+    case "groq":
+    default:
+      return new ChatGroq({
+        model: resolved.model!,
+        temperature: resolved.temperature,
+        apiKey: process.env.GROQ_API_KEY,
+      });
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Scripted Chat Model
+ *
+ * Deterministic, offline chat model that replays canned responses and tool calls
+ * from a JSON script. Lets the agent and its tool loop run in CI and on laptops
+ * without network access.
+ *
+ * Script format:
+ * {
+ *   "turns": [
+ *     {
+ *       "match": "balance",                // Regex tested against the latest user message (optional)
+ *       "steps": [
+ *         { "toolCalls": [{ "name": "check_wallet_balance", "args": { "walletId": "{{walletId}}" } }] },
+ *         { "content": "Here is your balance." }
+ *       ]
+ *     }
+ *   ]
+ * }
+ *
+ * The first turn whose "match" matches the latest user message is replayed (a turn without
+ * "match" matches anything). Each model call within the turn returns the next step.
+ * "{{walletId}}" in tool arguments is replaced with the active wallet ID.
+ */
+
+import fs from "fs";
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { AIMessage, BaseMessage, HumanMessage } from "@langchain/core/messages";
+import { ChatResult } from "@langchain/core/outputs";
+
+export interface ScriptedStep {
+  content?: string;
+  toolCalls?: { name: string; args?: Record<string, any> }[];
+}
+
+export interface ScriptedTurn {
+  match?: string;
+  steps: ScriptedStep[];
+}
+
+export interface ChatScript {
+  turns: ScriptedTurn[];
+}
+
+/**
+ * Load and validate a chat script from a JSON file
+ */
+export function loadChatScript(filePath: string): ChatScript {
+  const script = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  if (!Array.isArray(script?.turns)) {
+    throw new Error(`Invalid chat script ${filePath}: expected a "turns" array`);
+  }
+  return script as ChatScript;
+}
+
+export class ScriptedChatModel extends BaseChatModel {
+  private script: ChatScript;
+  private walletId?: string;
+
+  constructor(script: ChatScript, walletId?: string) {
+    super({});
+    this.script = script;
+    this.walletId = walletId;
+  }
+
+  _llmType() {
+    return "scripted";
+  }
+
+  // Tool calls come from the script, so bound tools are not needed
+  bindTools() {
+    return this as any;
+  }
+
+  async _generate(messages: BaseMessage[]): Promise<ChatResult> {
+    // Find the latest user message and count model replies since then
+    let lastHumanIndex = -1;
+    messages.forEach((m, index) => {
+      if (HumanMessage.isInstance(m)) lastHumanIndex = index;
+    });
+    const userText = lastHumanIndex >= 0 ? String(messages[lastHumanIndex].content) : "";
+    const stepIndex = messages
+      .slice(lastHumanIndex + 1)
+      .filter((m) => AIMessage.isInstance(m)).length;
+
+    const turn = this.script.turns.find(
+      (t) => !t.match || new RegExp(t.match, "i").test(userText)
+    );
+    const step: ScriptedStep = turn?.steps[stepIndex]
+      || { content: turn ? "" : "No scripted response matches this message." };
+
+    const message = new AIMessage({
+      content: step.content || "",
+      tool_calls: (step.toolCalls || []).map((toolCall, index) => ({
+        id: `scripted_${stepIndex}_${index}`,
+        name: toolCall.name,
+        args: this.fillPlaceholders(toolCall.args || {}),
+        type: "tool_call" as const,
+      })),
+    });
+
+    return { generations: [{ text: step.content || "", message }] };
+  }
+
+  private fillPlaceholders(args: Record<string, any>): Record<string, any> {
+    return JSON.parse(
+      JSON.stringify(args).replace(/\{\{walletId\}\}/g, this.walletId || "")
+    );
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Conversation Sessions
+ *
+ * Server-side chat history so the agent can follow multi-turn conversations
+ * (e.g. browse e-books, then "buy the second one").
+ * In-memory storage for MVP (can be replaced with database later)
+ */
+
+import dotenv from 'dotenv';
+import { AgentMessage, ConversationSession } from './types';
+
+dotenv.config();
+
+// Number of recent messages sent to the model verbatim
+const HISTORY_WINDOW = parseInt(process.env.CHAT_HISTORY_WINDOW || '20', 10);
+
+// Upper bound for the rolling summary of older messages
+const MAX_SUMMARY_LENGTH = 4000;
+const MAX_SUMMARY_LINE_LENGTH = 300;
+
+/**
+ * Session Storage
+ * Format: Map<sessionId, ConversationSession>
+ */
+const sessions = new Map<string, ConversationSession>();
+
+/**
+ * Create a new conversation session for a wallet
+ */
+export function createSession(walletId: string): ConversationSession {
+  const now = new Date();
+  const session: ConversationSession = {
+    id: crypto.randomUUID(),
+    walletId,
+    messages: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+  sessions.set(session.id, session);
+  return session;
+}
+
+/**
+ * Get a session by ID
+ */
+export function getSession(sessionId: string): ConversationSession | undefined {
+  return sessions.get(sessionId);
+}
+
+/**
+ * List sessions, most recently updated first
+ */
+export function listSessions(walletId?: string): ConversationSession[] {
+  return Array.from(sessions.values())
+    .filter((session) => !walletId || session.walletId === walletId)
+    .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+}
+
+/**
+ * Delete a session
+ * @returns true if the session existed
+ */
+export function deleteSession(sessionId: string): boolean {
+  return sessions.delete(sessionId);
+}
+
+/**
+ * Append messages to a session, folding the oldest ones into the summary
+ * once the history grows past the window
+ */
+export function appendMessages(session: ConversationSession, ...messages: AgentMessage[]) {
+  session.messages.push(...messages.map((m) => ({ ...m, timestamp: m.timestamp || new Date() })));
+  session.updatedAt = new Date();
+
+  if (session.messages.length > HISTORY_WINDOW) {
+    const overflow = session.messages.splice(0, session.messages.length - HISTORY_WINDOW);
+    session.summary = summarize(session.summary, overflow);
+  }
+}
+
+/**
+ * Build a condensed summary from the previous summary and the messages
+ * leaving the window. Keeps the most recent part when it gets too long.
+ */
+function summarize(previousSummary: string | undefined, messages: AgentMessage[]): string {
+  const lines = messages.map((m) => {
+    const speaker = m.role === 'user' ? 'User' : m.role === 'agent' ? 'Assistant' : 'System';
+    const content = m.content.replace(/\s+/g, ' ').trim();
+    const truncated = content.length > MAX_SUMMARY_LINE_LENGTH
+      ? `${content.slice(0, MAX_SUMMARY_LINE_LENGTH)}...`
+      : content;
+    return `- ${speaker}: ${truncated}`;
+  });
+
+  const summary = [previousSummary, ...lines].filter(Boolean).join('\n');
+  return summary.length > MAX_SUMMARY_LENGTH
+    ? summary.slice(summary.length - MAX_SUMMARY_LENGTH)
+    : summary;
+}
@@ -6,9 +6,12 @@
 
 import { DynamicStructuredTool } from "@langchain/core/tools";
 import { z } from "zod";
-import { getAllEbooks, searchEbooks, findEbookById, getEbookPrice } from "../../marketplace/catalog";
-import { processPurchase } from "../../marketplace/marketplace";
+import { getAllEbooks, searchEbooks, findEbookById, getEbookPrice, CATALOG_CURRENCY } from "../../marketplace/catalog";
+import { getMarketplaceConfig } from "../../marketplace/marketplace";
 import * as walletManager from "../../wallet/walletManager";
+import { balanceAmount, compareAmounts, formatAmount, parseAmount } from "../../wallet/amount";
+import { findTokenDefinition, matchesToken } from "../../wallet/tokens";
+import { createPendingAction } from "../pendingActions";
 
 /**
  * Tool to browse available e-books
@@ -17,26 +20,23 @@ export const browseEbooksTool = new DynamicStructuredTool({
   name: "browse_ebooks",
   description: "Use this tool when users ask to list, show, or see all available e-books. This tool returns the complete list of all e-books in the marketplace with their titles, authors, prices, categories, descriptions, and IDs. ALWAYS use this tool when asked to list e-books - do not just describe what you can do.",
   schema: z.object({}),
+  responseFormat: "content_and_artifact",
   func: async () => {
-    try {
-      const ebooks = getAllEbooks();
-      
-      if (ebooks.length === 0) {
-        return "No e-books available in the marketplace.";
-      }
-
-      const ebookList = ebooks.map((ebook, index) => {
-        return `${index + 1}. "${ebook.title}" by ${ebook.author}
-   Price: ${ebook.price} USDC
+    const ebooks = getAllEbooks();
+    
+    if (ebooks.length === 0) {
+      return ["No e-books available in the marketplace.", undefined];
+    }
+
+    const ebookList = ebooks.map((ebook, index) => {
+      return `${index + 1}. "${ebook.title}" by ${ebook.author}
+   Price: ${ebook.price} ${CATALOG_CURRENCY}
    Category: ${ebook.category || 'General'}
    Description: ${ebook.description}
    ID: ${ebook.id}`;
-      }).join("\n\n");
+    }).join("\n\n");
 
-      return `Available E-Books (${ebooks.length}):\n\n${ebookList}`;
-    } catch (error: any) {
-      return `Error browsing e-books: ${error.message || "Unknown error"}`;
-    }
+    return [`Available E-Books (${ebooks.length}):\n\n${ebookList}`, { type: "ebook_list", ebooks }];
   },
 });
 
@@ -49,26 +49,23 @@ export const searchEbooksTool = new DynamicStructuredTool({
   schema: z.object({
     query: z.string().describe("Search query (title, author name, category, or keywords)"),
   }),
+  responseFormat: "content_and_artifact",
   func: async ({ query }) => {
-    try {
-      const results = searchEbooks(query);
-      
-      if (results.length === 0) {
-        return `No e-books found matching "${query}". Try browsing all e-books or use different search terms.`;
-      }
-
-      const resultList = results.map((ebook, index) => {
-        return `${index + 1}. "${ebook.title}" by ${ebook.author}
-   Price: ${ebook.price} USDC
+    const results = searchEbooks(query);
+    
+    if (results.length === 0) {
+      return [`No e-books found matching "${query}". Try browsing all e-books or use different search terms.`, { type: "ebook_list", query, ebooks: [] }];
+    }
+
+    const resultList = results.map((ebook, index) => {
+      return `${index + 1}. "${ebook.title}" by ${ebook.author}
+   Price: ${ebook.price} ${CATALOG_CURRENCY}
    Category: ${ebook.category || 'General'}
    Description: ${ebook.description}
    ID: ${ebook.id}`;
-      }).join("\n\n");
+    }).join("\n\n");
 
-      return `Search Results (${results.length} found):\n\n${resultList}`;
-    } catch (error: any) {
-      return `Error searching e-books: ${error.message || "Unknown error"}`;
-    }
+    return [`Search Results (${results.length} found):\n\n${resultList}`, { type: "ebook_list", query, ebooks: results }];
   },
 });
 
@@ -81,63 +78,93 @@ export const getEbookPriceTool = new DynamicStructuredTool({
   schema: z.object({
     ebookId: z.union([z.string(), z.number()]).describe("The e-book ID (can be a string like '18' or number like 18)"),
   }),
+  responseFormat: "content_and_artifact",
   func: async ({ ebookId }) => {
-    try {
-      // Convert to string if it's a number
-      const ebookIdStr = String(ebookId);
-      const ebook = findEbookById(ebookIdStr);
-      
-      if (!ebook) {
-        return `E-book with ID "${ebookIdStr}" not found. Use browse_ebooks or search_ebooks to find available e-books.`;
-      }
-
-      return `E-Book Details:
+    // Convert to string if it's a number
+    const ebookIdStr = String(ebookId);
+    const ebook = findEbookById(ebookIdStr);
+    
+    if (!ebook) {
+      throw new Error(`E-book with ID "${ebookIdStr}" not found. Use browse_ebooks or search_ebooks to find available e-books.`);
+    }
+
+    return [`E-Book Details:
 Title: "${ebook.title}"
 Author: ${ebook.author}
-Price: ${ebook.price} USDC
+Price: ${ebook.price} ${CATALOG_CURRENCY}
 Category: ${ebook.category || 'General'}
 Description: ${ebook.description}
-ID: ${ebook.id}`;
-    } catch (error: any) {
-      return `Error getting e-book price: ${error.message || "Unknown error"}`;
-    }
+ID: ${ebook.id}`, { type: "ebook_details", ebook }];
   },
 });
 
 /**
  * Tool to purchase an e-book
+ * Creates a pending action that the user must confirm before payment is sent
  */
 export const purchaseEbookTool = new DynamicStructuredTool({
   name: "purchase_ebook",
-  description: "Purchase an e-book by transferring USDC to the marketplace. Requires wallet ID, e-book ID, and token ID (from balance check). Always check balance first to get the token ID.",
+  description: `Prepare the purchase of an e-book paid in ${CATALOG_CURRENCY} to the marketplace. The payment is NOT sent until the user confirms it. Requires wallet ID and e-book ID; the ${CATALOG_CURRENCY} balance is found and checked automatically.`,
   schema: z.object({
     walletId: z.string().describe("The wallet ID to use for payment"),
     ebookId: z.union([z.string(), z.number()]).describe("The e-book ID to purchase (can be a string like '18' or number like 18)"),
-    tokenId: z.string().describe("The token ID for USDC (get this from check_wallet_balance tool)"),
+    tokenId: z.string().optional().describe(`The ${CATALOG_CURRENCY} token ID (optional, found from the wallet balance when omitted)`),
+    feeLevel: z.enum(["LOW", "MEDIUM", "HIGH"]).optional().describe("Transaction fee level (default: MEDIUM)"),
   }),
-  func: async ({ walletId, ebookId, tokenId }) => {
+  responseFormat: "content_and_artifact",
+  func: async ({ walletId, ebookId, tokenId, feeLevel = "MEDIUM" }) => {
+    // Convert to string if it's a number
+    const ebookIdStr = String(ebookId);
+    const ebook = findEbookById(ebookIdStr);
+
+    if (!ebook) {
+      throw new Error(`E-book with ID "${ebookIdStr}" not found. Use browse_ebooks or search_ebooks to find available e-books.`);
+    }
+
+    let paymentBalance;
     try {
-      // Convert to string if it's a number
-      const ebookIdStr = String(ebookId);
-      
-      // Process the purchase
-      const result = await processPurchase(ebookIdStr, walletId, tokenId);
-      
-      if (!result.success) {
-        return result.message;
-      }
-
-      // Return success message with transaction details
-      const explorerLink = result.transactionHash && result.transactionHash !== 'Pending'
-        ? `\nView on Explorer: https://testnet.arcscan.app/tx/${result.transactionHash}`
-        : '';
-
-      return `${result.message}${explorerLink}
-
-You now own "${result.ebook.title}" by ${result.ebook.author}!`;
+      paymentBalance = await walletManager.resolveToken(walletId, tokenId || CATALOG_CURRENCY);
     } catch (error: any) {
-      return `Error purchasing e-book: ${error.message || "Unknown error"}`;
+      throw new Error(`${error.message}. E-books are paid in ${CATALOG_CURRENCY}.`);
     }
+
+    const currency = findTokenDefinition(CATALOG_CURRENCY);
+    if (currency && !matchesToken(paymentBalance.token, currency)) {
+      throw new Error(`E-books are paid in ${CATALOG_CURRENCY}; token ${paymentBalance.token.symbol} can't be used.`);
+    }
+
+    const available = balanceAmount(paymentBalance);
+    const price = parseAmount(ebook.price, available.decimals);
+    if (compareAmounts(available, price) < 0) {
+      throw new Error(`Insufficient balance. Required: ${formatAmount(price)} ${CATALOG_CURRENCY}, Available: ${formatAmount(available)} ${CATALOG_CURRENCY}`);
+    }
+
+    const marketplaceAddress = getMarketplaceConfig().walletAddress;
+    const decision = await walletManager.evaluateTransferPolicy(walletId, paymentBalance.token.id, marketplaceAddress, formatAmount(price));
+    if (!decision.allowed) {
+      throw new Error(`Purchase rejected by spending policy: ${decision.reasons.join("; ")}`);
+    }
+
+    // Wait for the user to confirm before paying
+    const action = createPendingAction("purchase", walletId, {
+      tokenId: paymentBalance.token.id,
+      tokenSymbol: CATALOG_CURRENCY,
+      amount: formatAmount(price),
+      destinationAddress: marketplaceAddress,
+      feeLevel,
+      ebookId: ebook.id,
+      ebookTitle: ebook.title,
+      ebookAuthor: ebook.author,
+    });
+
+    return [`Purchase prepared and awaiting user confirmation.
+Action ID: ${action.id}
+E-Book: "${ebook.title}" by ${ebook.author}
+Price: ${ebook.price} ${CATALOG_CURRENCY}
+Fee Level: ${feeLevel}
+Expires: ${action.expiresAt.toISOString()}
+
+Note: No payment has been sent yet. Ask the user to review the details and confirm or reject the purchase.`, { type: "purchase_pending", pendingAction: action, ebook }];
   },
 });
 
@@ -7,33 +7,42 @@
 import { DynamicStructuredTool } from "@langchain/core/tools";
 import { z } from "zod";
 import * as walletManager from "../../wallet/walletManager";
+import { Amount, balanceAmount, compareAmounts, formatAmount, parseAmount } from "../../wallet/amount";
+import { validateAddress } from "../../wallet/address";
+import { describeToken } from "../../wallet/tokens";
+import { createPendingAction } from "../pendingActions";
+import { AgentAction } from "../types";
 
 /**
  * Tool to check wallet balance
  */
 export const checkWalletBalanceTool = new DynamicStructuredTool({
   name: "check_wallet_balance",
-  description: "Check the current USDC balance in the wallet. Returns the balance amount and token information.",
+  description: "Check all token balances in the wallet (USDC, EURC, native gas tokens and other tokens). Returns each token's symbol, amount and token ID.",
   schema: z.object({
     walletId: z.string().describe("The wallet ID to check balance for"),
   }),
+  responseFormat: "content_and_artifact",
   func: async ({ walletId }) => {
-    try {
-      const balances = await walletManager.getWalletBalance(walletId);
-      
-      // Find USDC balance
-      const usdcBalance = balances?.find(
-        (b: any) => b.token.symbol === "USDC" || b.token.symbol === "USDC-TESTNET"
-      );
-
-      if (!usdcBalance) {
-        return `No USDC balance found. Available tokens: ${balances?.map((b: any) => b.token.symbol).join(", ") || "none"}`;
-      }
+    const balances = (await walletManager.getWalletBalance(walletId)) || [];
+    const balanceAction: AgentAction = {
+      type: "balance",
+      balances: balances.map((b) => ({
+        tokenId: b.token.id,
+        symbol: describeToken(b.token).symbol,
+        amount: b.amount,
+      })),
+    };
 
-      return `Wallet balance: ${usdcBalance.amount} ${usdcBalance.token.symbol}. Token ID: ${usdcBalance.token.id}`;
-    } catch (error: any) {
-      return `Error checking balance: ${error.message || "Unknown error"}`;
+    if (balances.length === 0) {
+      return ["No tokens found in this wallet.", balanceAction];
     }
+
+    const lines = balances.map((b) => {
+      const { symbol, name } = describeToken(b.token);
+      return `- ${b.amount} ${symbol} (${name}${b.token.isNative ? ", native gas token" : ""}). Token ID: ${b.token.id}`;
+    });
+    return [`Wallet balances:\n${lines.join("\n")}`, balanceAction];
   },
 });
 
@@ -46,24 +55,21 @@ export const getWalletInfoTool = new DynamicStructuredTool({
   schema: z.object({
     walletId: z.string().describe("The wallet ID to get information for"),
   }),
+  responseFormat: "content_and_artifact",
   func: async ({ walletId }) => {
-    try {
-      const wallet = await walletManager.getWallet(walletId);
-      
-      if (!wallet) {
-        return "Wallet not found.";
-      }
+    const wallet = await walletManager.getWallet(walletId);
+    
+    if (!wallet) {
+      throw new Error("Wallet not found");
+    }
 
-      const walletData = wallet as any;
-      return `Wallet Info:
+    const walletData = wallet as any;
+    return [`Wallet Info:
 - Address: ${walletData.address}
 - Blockchain: ${walletData.blockchain}
 - Type: ${walletData.accountType || 'N/A'}
 - State: ${walletData.state}
-- Wallet Set ID: ${walletData.walletSetId}`;
-    } catch (error: any) {
-      return `Error getting wallet info: ${error.message || "Unknown error"}`;
-    }
+- Wallet Set ID: ${walletData.walletSetId}`, { type: "wallet_info", wallet }];
   },
 });
 
@@ -72,39 +78,53 @@ export const getWalletInfoTool = new DynamicStructuredTool({
  */
 export const listTransactionsTool = new DynamicStructuredTool({
   name: "list_transactions",
-  description: "Get transaction history for a wallet. Can filter by transaction type (INBOUND/OUTBOUND) and state. Returns detailed transaction information.",
+  description: "Get transaction history for a wallet, newest first. Can filter by transaction type (INBOUND/OUTBOUND), state, date range, token and destination address. Results are paged: to see older transactions, call again with pageAfter set to the ID of the last transaction returned.",
   schema: z.object({
     walletId: z.string().describe("The wallet ID to get transactions for"),
     transactionType: z.enum(["INBOUND", "OUTBOUND"]).optional().describe("Filter by transaction type: INBOUND (received) or OUTBOUND (sent)"),
     state: z.string().optional().describe("Filter by transaction state (e.g., COMPLETE, CONFIRMED, PENDING)"),
+    from: z.string().optional().describe("Only transactions created on or after this ISO 8601 date (e.g., 2025-01-31)"),
+    to: z.string().optional().describe("Only transactions created on or before this ISO 8601 date"),
+    tokenId: z.string().optional().describe("Only transfers of this token ID"),
+    destinationAddress: z.string().optional().describe("Only transfers sent to this address"),
+    pageSize: z.number().int().min(1).max(50).optional().describe("Number of transactions to return (default: 10, max: 50)"),
+    pageAfter: z.string().optional().describe("ID of the last transaction of the previous page, to get older transactions"),
+    pageBefore: z.string().optional().describe("ID of the first transaction of the current page, to get newer transactions"),
   }),
-  func: async ({ walletId, transactionType, state }) => {
-    try {
-      const transactions = await walletManager.listTransactions(
-        [walletId],
-        transactionType,
-        state
-      );
-      
-      if (!transactions || transactions.length === 0) {
-        return "No transactions found for this wallet.";
+  responseFormat: "content_and_artifact",
+  func: async ({ walletId, from, to, ...filters }) => {
+    for (const date of [from, to]) {
+      if (date && isNaN(Date.parse(date))) {
+        throw new Error(`Invalid date: ${date}. Use an ISO 8601 date such as 2025-01-31.`);
       }
+    }
+    const pageSize = filters.pageSize || 10;
+    const transactions = await walletManager.listTransactions([walletId], {
+      ...filters,
+      pageSize,
+      from: from && new Date(from).toISOString(),
+      to: to && new Date(to).toISOString(),
+    });
+    
+    if (!transactions || transactions.length === 0) {
+      return ["No transactions found for this wallet.", undefined];
+    }
 
-      const transactionList = transactions.map((tx: any, index: number) => {
-        const txHash = tx.txHash ? `\n   Hash: ${tx.txHash}` : '';
-        const explorerLink = tx.txHash ? `\n   Explorer: https://testnet.arcscan.app/tx/${tx.txHash}` : '';
-        return `${index + 1}. ${tx.transactionType} - ${tx.amounts.join(", ")} ${tx.blockchain}
+    const transactionList = transactions.map((tx: any, index: number) => {
+      const txHash = tx.txHash ? `\n   Hash: ${tx.txHash}` : '';
+      const explorerLink = tx.txHash ? `\n   Explorer: https://testnet.arcscan.app/tx/${tx.txHash}` : '';
+      return `${index + 1}. ${tx.transactionType} - ${tx.amounts.join(", ")} ${tx.blockchain}
    State: ${tx.state}
    From: ${tx.sourceAddress || "N/A"}
    To: ${tx.destinationAddress || "N/A"}${txHash}${explorerLink}
    Date: ${new Date(tx.createDate).toLocaleString()}
    Transaction ID: ${tx.id}`;
-      }).join("\n\n");
+    }).join("\n\n");
 
-      return `Transactions (${transactions.length}):\n\n${transactionList}`;
-    } catch (error: any) {
-      return `Error listing transactions: ${error.message || "Unknown error"}`;
-    }
+    const more = transactions.length === pageSize
+      ? `\n\nMore transactions may be available: call again with pageAfter "${transactions[transactions.length - 1].id}" for older ones.`
+      : "";
+    return [`Transactions (${transactions.length}):\n\n${transactionList}${more}`, { type: "transaction_list", transactions }];
   },
 });
 
@@ -117,18 +137,18 @@ export const getTransactionTool = new DynamicStructuredTool({
   schema: z.object({
     transactionId: z.string().describe("The transaction ID to get details for"),
   }),
+  responseFormat: "content_and_artifact",
   func: async ({ transactionId }) => {
-    try {
-      const transaction = await walletManager.getTransaction(transactionId);
-      
-      if (!transaction) {
-        return "Transaction not found.";
-      }
+    const transaction = await walletManager.getTransaction(transactionId);
+    
+    if (!transaction) {
+      throw new Error("Transaction not found");
+    }
 
-      const tx = transaction as any;
-      const txHash = tx.txHash ? `\nTransaction Hash: ${tx.txHash}\nExplorer: https://testnet.arcscan.app/tx/${tx.txHash}` : '';
+    const tx = transaction as any;
+    const txHash = tx.txHash ? `\nTransaction Hash: ${tx.txHash}\nExplorer: https://testnet.arcscan.app/tx/${tx.txHash}` : '';
 
-      return `Transaction Details:
+    return [`Transaction Details:
 ID: ${tx.id}
 Type: ${tx.transactionType}
 State: ${tx.state}
@@ -138,69 +158,114 @@ From: ${tx.sourceAddress || "N/A"}
 To: ${tx.destinationAddress || "N/A"}
 Created: ${new Date(tx.createDate).toLocaleString()}
 Updated: ${new Date(tx.updateDate).toLocaleString()}${txHash}
-Wallet ID: ${tx.walletId}`;
-    } catch (error: any) {
-      return `Error getting transaction: ${error.message || "Unknown error"}`;
+Wallet ID: ${tx.walletId}`, { type: "transaction_details", transaction }];
+  },
+});
+
+/**
+ * Tool to estimate the network fee of a transfer at each fee level
+ */
+export const estimateTransferFeeTool = new DynamicStructuredTool({
+  name: "estimate_transfer_fee",
+  description: "Estimate the network fee and total cost of a transfer at each fee level (LOW, MEDIUM, HIGH) without sending anything. Use it when the user asks how much a transfer or purchase will cost, or to help them pick a fee level.",
+  schema: z.object({
+    walletId: z.string().describe("The source wallet ID"),
+    token: z.string().describe("The token to transfer: a symbol such as USDC, EURC or ETH, or a token ID"),
+    destinationAddress: z.string().describe("The destination wallet address"),
+    amount: z.string().describe("The amount to transfer as a string (e.g., '0.1')"),
+  }),
+  responseFormat: "content_and_artifact",
+  func: async ({ walletId, token, destinationAddress, amount }) => {
+    const balance = await walletManager.resolveToken(walletId, token);
+    const estimate = await walletManager.estimateTransferFee(walletId, balance.token.id, destinationAddress, amount);
+    if (estimate.levels.length === 0) {
+      return ["No fee estimate is available for this transfer.", undefined];
     }
+
+    const levels = estimate.levels.map((level) => {
+      const total = level.totalCost ? ` (total: ${level.totalCost} ${estimate.tokenSymbol})` : "";
+      return `- ${level.feeLevel}: ${level.networkFee} ${estimate.feeTokenSymbol}${total}`;
+    }).join("\n");
+
+    return [`Estimated network fees to send ${estimate.amount} ${estimate.tokenSymbol}:
+${levels}
+
+Fees are estimates and may change by the time the transfer is sent.`, { type: "fee_estimate", estimate }];
   },
 });
 
 /**
- * Tool to transfer tokens (send USDC)
+ * Tool to transfer tokens (USDC, EURC, native gas tokens, ...)
+ * Creates a pending action that the user must confirm before any funds move
  */
 export const transferTokensTool = new DynamicStructuredTool({
   name: "transfer_tokens",
-  description: "Transfer USDC tokens from the wallet to another address. Requires wallet ID, token ID (from balance), destination address, and amount. Always check balance first to ensure sufficient funds and get the correct token ID.",
+  description: "Prepare a transfer of tokens (USDC, EURC, native gas tokens or any token held by the wallet) to another address. The transfer is NOT sent until the user confirms it. Requires wallet ID, the token symbol (e.g. 'EURC') or token ID, destination address, and amount. The balance is checked automatically; never ask the user for token IDs.",
   schema: z.object({
     walletId: z.string().describe("The source wallet ID to transfer from"),
-    tokenId: z.string().describe("The token ID to transfer (get this from check_wallet_balance tool - it's the Token ID for USDC)"),
+    token: z.string().describe("The token to transfer: a symbol such as USDC, EURC or ETH, or a token ID"),
     destinationAddress: z.string().describe("The destination wallet address (0x format) to send tokens to"),
-    amount: z.string().describe("The amount to transfer as a string (e.g., '0.1' for 0.1 USDC)"),
+    amount: z.string().describe("The amount to transfer as a string (e.g., '5' for 5 EURC)"),
     feeLevel: z.enum(["LOW", "MEDIUM", "HIGH"]).optional().describe("Transaction fee level (default: MEDIUM)"),
   }),
-  func: async ({ walletId, tokenId, destinationAddress, amount, feeLevel = "MEDIUM" }) => {
-    try {
-      // First, check balance to ensure sufficient funds
-      const balances = await walletManager.getWalletBalance(walletId);
-      const usdcBalance = balances?.find(
-        (b: any) => b.token.id === tokenId
-      );
-
-      if (!usdcBalance) {
-        return `Error: Token ID ${tokenId} not found in wallet balance. Please use check_wallet_balance to get the correct token ID.`;
+  responseFormat: "content_and_artifact",
+  func: async ({ walletId, token, destinationAddress, amount, feeLevel = "MEDIUM" }) => {
+    // Find the token in the wallet to check the balance against
+    const tokenBalance = await walletManager.resolveToken(walletId, token);
+    const tokenId = tokenBalance.token.id;
+    const { symbol } = describeToken(tokenBalance.token);
+
+    // Catch mistyped or unsafe destinations before the user is asked to confirm
+    const wallet = await walletManager.getWallet(walletId);
+    if (wallet) {
+      const destination = validateAddress(destinationAddress, wallet.blockchain, wallet.address);
+      if (!destination.valid) {
+        const issues = destination.issues.map((issue) => `- ${issue.code}: ${issue.message}`).join("\n");
+        throw new Error(`Invalid destination address. Ask the user to double-check it.\n${issues}`);
       }
+      destinationAddress = destination.address;
+    }
 
-      const balanceAmount = parseFloat(usdcBalance.amount);
-      const transferAmount = parseFloat(amount);
+    const available = balanceAmount(tokenBalance);
+    let transferAmount: Amount;
+    try {
+      transferAmount = parseAmount(amount, available.decimals);
+    } catch (error: any) {
+      throw new Error(`${error.message}. ${symbol} supports up to ${available.decimals} decimal places.`);
+    }
+    if (transferAmount.units <= BigInt(0)) {
+      throw new Error("The transfer amount must be greater than zero.");
+    }
 
-      if (balanceAmount < transferAmount) {
-        return `Error: Insufficient balance. Current balance: ${usdcBalance.amount} ${usdcBalance.token.symbol}. Attempted transfer: ${amount} ${usdcBalance.token.symbol}`;
-      }
+    if (compareAmounts(available, transferAmount) < 0) {
+      throw new Error(`Insufficient balance. Current balance: ${formatAmount(available)} ${symbol}. Attempted transfer: ${formatAmount(transferAmount)} ${symbol}`);
+    }
+    amount = formatAmount(transferAmount);
 
-      // Execute the transfer
-      const result = await walletManager.transferTokens(
-        walletId,
-        tokenId,
-        destinationAddress,
-        amount,
-        feeLevel
-      );
-
-      const transactionId = result?.id || "Unknown";
-      const state = result?.state || "INITIATED";
-
-      return `Transfer initiated successfully!
-Transaction ID: ${transactionId}
-State: ${state}
-Amount: ${amount} ${usdcBalance.token.symbol}
+    // Check the spending policy now so the user isn't asked to confirm a transfer that will be rejected
+    const decision = await walletManager.evaluateTransferPolicy(walletId, tokenId, destinationAddress, amount);
+    if (!decision.allowed) {
+      throw new Error(`Transfer rejected by spending policy: ${decision.reasons.join("; ")}`);
+    }
+
+    // Wait for the user to confirm before sending anything
+    const action = createPendingAction("transfer", walletId, {
+      tokenId,
+      tokenSymbol: symbol,
+      amount,
+      destinationAddress,
+      feeLevel,
+    });
+
+    return [`Transfer prepared and awaiting user confirmation.
+Action ID: ${action.id}
+Amount: ${amount} ${symbol}
 From: ${walletId}
 To: ${destinationAddress}
 Fee Level: ${feeLevel}
+Expires: ${action.expiresAt.toISOString()}
 
-Note: The transaction is ${state}. It may take a few moments to complete. Use get_transaction with ID ${transactionId} to check the status.`;
-    } catch (error: any) {
-      return `Error transferring tokens: ${error.message || "Unknown error"}`;
-    }
+Note: No funds have been sent yet. Ask the user to review the details and confirm or reject the transfer.`, { type: "transfer_pending", pendingAction: action }];
   },
 });
 
@@ -210,5 +275,6 @@ export const walletTools = [
   getWalletInfoTool,
   listTransactionsTool,
   getTransactionTool,
+  estimateTransferFeeTool,
   transferTokensTool,
 ];
\ No newline at end of file
@@ -0,0 +1,38 @@
+/**
+ * In-Flight Agent Turns
+ *
+ * Keeps track of the chat turns being processed so the server can let them finish
+ * (a turn may be submitting a transfer) before it shuts down.
+ */
+
+const inFlight = new Set<Promise<void>>();
+
+/**
+ * Track a turn until it settles
+ * @returns The turn itself
+ */
+export function trackTurn<T>(turn: Promise<T>): Promise<T> {
+  const settled = turn.then(
+    () => undefined,
+    () => undefined
+  );
+  inFlight.add(settled);
+  settled.then(() => inFlight.delete(settled));
+  return turn;
+}
+
+/**
+ * Number of turns being processed
+ */
+export function countTurnsInFlight(): number {
+  return inFlight.size;
+}
+
+/**
+ * Wait until every turn in flight has settled
+ */
+export async function waitForTurns(): Promise<void> {
+  while (inFlight.size > 0) {
+    await Promise.all(inFlight);
+  }
+}
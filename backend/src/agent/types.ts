@@ -2,20 +2,143 @@
  * Agent Type Definitions
  */
 
+import { EBook } from '../marketplace/types';
+import { TransferFeeEstimate } from '../wallet/types';
+
 export interface AgentMessage {
   role: 'user' | 'agent' | 'system';
   content: string;
   timestamp?: Date;
 }
 
+/**
+ * A tool invocation made while answering a message, in execution order
+ */
+export interface AgentToolCall {
+  id: string;
+  name: string;
+  args: Record<string, any>;
+  output: string; // Text returned to the model
+  result?: AgentAction; // Structured result, when the tool produced one
+  error?: boolean;
+  durationMs: number;
+}
+
+/**
+ * Typed payloads produced by tools so clients can render them without parsing text
+ */
+export type AgentAction =
+  | { type: 'balance'; balances: { tokenId: string; symbol: string; amount: string }[] }
+  | { type: 'wallet_info'; wallet: any }
+  | { type: 'transaction_list'; transactions: any[] }
+  | { type: 'transaction_details'; transaction: any }
+  | { type: 'ebook_list'; query?: string; ebooks: EBook[] }
+  | { type: 'ebook_details'; ebook: EBook }
+  | { type: 'transfer_pending'; pendingAction: PendingAction }
+  | { type: 'purchase_pending'; pendingAction: PendingAction; ebook: EBook }
+  | { type: 'transfer_submitted'; transactionId?: string; state?: string; amount: string; destinationAddress: string }
+  | { type: 'purchase_submitted'; ebook: EBook; orderId?: string; transactionId?: string }
+  | { type: 'fee_estimate'; estimate: TransferFeeEstimate };
+
 export interface AgentResponse {
-  message: string;
-  action?: string;
-  data?: any;
+  message: string; // Final text answer
+  toolCalls: AgentToolCall[];
+  actions: AgentAction[]; // Structured results of the tool calls, in order
+  provider: LLMProvider;
+  model: string;
+  error?: string; // Set when the turn failed and message is an error explanation
+}
+
+/**
+ * A persisted agent turn, used to investigate what the assistant did and why
+ */
+export interface AgentAuditEntry {
+  id: string;
+  sessionId?: string;
+  walletId?: string;
+  request: string;
+  provider: LLMProvider;
+  model: string;
+  response: string;
+  error?: string;
+  durationMs: number;
+  toolCalls: AgentToolCall[];
+  createdAt: Date;
+}
+
+export interface AgentAuditFilter {
+  walletId?: string;
+  walletIds?: string[]; // Only turns of these wallets
+  tool?: string; // Only turns that invoked this tool
+  from?: Date;
+  to?: Date;
+  limit?: number;
 }
 
+export type LLMProvider = 'groq' | 'openai' | 'scripted';
+
 export interface AgentConfig {
   walletId?: string;
   temperature?: number;
   model?: string;
-}
\ No newline at end of file
+  provider?: LLMProvider;
+  baseUrl?: string; // Endpoint for OpenAI-compatible providers
+}
+
+export interface ConversationSession {
+  id: string;
+  walletId: string;
+  messages: AgentMessage[];
+  summary?: string; // Condensed form of messages that fell out of the history window
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ProcessMessageOptions {
+  history?: AgentMessage[]; // Previous turns of the conversation, oldest first
+  summary?: string; // Summary of turns older than the history window
+  onEvent?: (event: AgentStreamEvent) => void; // Stream tokens and tool progress as they happen
+  config?: AgentConfig; // Overrides for the LLM provider, model and temperature
+  allowedWalletIds?: string[]; // Wallets the tools may act on (the user's own); any wallet when omitted
+}
+
+/**
+ * Events emitted while a message is being processed (streamed to clients over SSE)
+ */
+export type AgentStreamEvent =
+  | { type: 'token'; content: string }
+  | { type: 'tool_start'; id: string; name: string; args: Record<string, any> }
+  | { type: 'tool_end'; id: string; name: string; result: string; error?: boolean };
+
+export type PendingActionType = 'transfer' | 'purchase';
+
+export type PendingActionStatus = 'pending' | 'confirmed' | 'rejected' | 'expired' | 'failed';
+
+/**
+ * A money-moving operation proposed by the agent that waits for user confirmation
+ */
+export interface PendingAction {
+  id: string;
+  type: PendingActionType;
+  status: PendingActionStatus;
+  walletId: string;
+  sessionId?: string;
+  details: {
+    tokenId: string;
+    tokenSymbol?: string;
+    amount: string;
+    destinationAddress: string;
+    feeLevel: 'LOW' | 'MEDIUM' | 'HIGH';
+    ebookId?: string;
+    ebookTitle?: string;
+    ebookAuthor?: string;
+  };
+  result?: {
+    transactionId?: string;
+    state?: string;
+    message: string;
+    receipt?: AgentAction; // transfer_submitted or purchase_submitted once executed
+  };
+  createdAt: Date;
+  expiresAt: Date;
+}
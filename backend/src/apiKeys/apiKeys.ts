@@ -0,0 +1,171 @@
+/**
+ * API Key Store
+ *
+ * Multiple named API keys with scopes, optional wallet restrictions and expiry.
+ * Keys look like "wk_<id>_<secret>": the ID finds the key and only a SHA-256 hash
+ * of the secret is stored, compared in constant time.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import dotenv from "dotenv";
+import { getDatabase } from "../db/database";
+import { ApiKey, ApiKeyInput, ApiKeyScope, IssuedApiKey } from "./types";
+
+dotenv.config();
+
+const KEY_PREFIX = "wk_";
+const KEY_PATTERN = /^wk_([0-9a-f]{16})_([A-Za-z0-9_-]{43})$/;
+
+// Last-used timestamps are written at most this often per key
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+// Bootstrap admin key from the environment, for existing setups and issuing the first keys
+const API_KEY_SECRET = process.env.API_KEY_SECRET;
+
+const ENV_API_KEY: ApiKey = {
+  id: "env",
+  name: "API_KEY_SECRET",
+  scopes: ["admin"],
+  createdAt: new Date(0),
+};
+
+function toApiKey(row: any): ApiKey {
+  return {
+    id: row.id,
+    name: row.name,
+    userId: row.user_id ?? undefined,
+    scopes: JSON.parse(row.scopes),
+    walletIds: row.wallet_ids ? JSON.parse(row.wallet_ids) : undefined,
+    expiresAt: row.expires_at ? new Date(row.expires_at) : undefined,
+    lastUsedAt: row.last_used_at ? new Date(row.last_used_at) : undefined,
+    revokedAt: row.revoked_at ? new Date(row.revoked_at) : undefined,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+function hashSecret(secret: string): Buffer {
+  return createHash("sha256").update(secret).digest();
+}
+
+/**
+ * Whether a bearer token is an API key rather than a login session token
+ */
+export function isApiKey(token: string): boolean {
+  return token.startsWith(KEY_PREFIX) || (!!API_KEY_SECRET && token === API_KEY_SECRET);
+}
+
+/**
+ * Whether a key grants a scope (admin grants every scope)
+ */
+export function hasScope(apiKey: ApiKey, scope: ApiKeyScope): boolean {
+  return apiKey.scopes.includes("admin") || apiKey.scopes.includes(scope);
+}
+
+/**
+ * Issue a new key
+ */
+export function issueApiKey(input: ApiKeyInput): IssuedApiKey {
+  const id = randomBytes(8).toString("hex");
+  const secret = randomBytes(32).toString("base64url");
+  const apiKey: ApiKey = { ...input, id, createdAt: new Date() };
+
+  getDatabase()
+    .prepare(`
+      INSERT INTO api_keys (id, name, key_hash, user_id, scopes, wallet_ids, expires_at, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `)
+    .run(
+      id,
+      apiKey.name,
+      hashSecret(secret).toString("hex"),
+      apiKey.userId ?? null,
+      JSON.stringify(apiKey.scopes),
+      apiKey.walletIds ? JSON.stringify(apiKey.walletIds) : null,
+      apiKey.expiresAt?.toISOString() ?? null,
+      apiKey.createdAt.toISOString()
+    );
+
+  return { apiKey, key: `${KEY_PREFIX}${id}_${secret}` };
+}
+
+/**
+ * Resolve the key a client presented
+ * @returns the key, or undefined if it's unknown, revoked or expired
+ */
+export function verifyApiKey(key: string): ApiKey | undefined {
+  if (API_KEY_SECRET) {
+    const expected = hashSecret(API_KEY_SECRET);
+    if (timingSafeEqual(hashSecret(key), expected)) {
+      return ENV_API_KEY;
+    }
+  }
+
+  const match = KEY_PATTERN.exec(key);
+  if (!match) {
+    return undefined;
+  }
+
+  const db = getDatabase();
+  const row = db.prepare("SELECT * FROM api_keys WHERE id = ?").get(match[1]) as any;
+  if (!row || !timingSafeEqual(hashSecret(match[2]), Buffer.from(row.key_hash, "hex"))) {
+    return undefined;
+  }
+
+  const apiKey = toApiKey(row);
+  const now = new Date();
+  if (apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt <= now)) {
+    return undefined;
+  }
+
+  if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() >= LAST_USED_RESOLUTION_MS) {
+    db.prepare("UPDATE api_keys SET last_used_at = ? WHERE id = ?").run(now.toISOString(), apiKey.id);
+    apiKey.lastUsedAt = now;
+  }
+  return apiKey;
+}
+
+/**
+ * Get a key by ID
+ */
+export function getApiKey(id: string): ApiKey | undefined {
+  const row = getDatabase().prepare("SELECT * FROM api_keys WHERE id = ?").get(id);
+  return row ? toApiKey(row) : undefined;
+}
+
+/**
+ * List keys, newest first
+ * @param userId - Only the keys of this user
+ */
+export function listApiKeys(userId?: string): ApiKey[] {
+  const rows = userId
+    ? getDatabase().prepare("SELECT * FROM api_keys WHERE user_id = ? ORDER BY created_at DESC").all(userId)
+    : getDatabase().prepare("SELECT * FROM api_keys ORDER BY created_at DESC").all();
+  return rows.map(toApiKey);
+}
+
+/**
+ * Revoke a key; it stops working immediately
+ * @returns the revoked key, or undefined if it doesn't exist
+ */
+export function revokeApiKey(id: string): ApiKey | undefined {
+  getDatabase()
+    .prepare("UPDATE api_keys SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL")
+    .run(new Date().toISOString(), id);
+  return getApiKey(id);
+}
+
+/**
+ * Replace a key with a new one with the same name, owner, scopes, wallets and expiry, revoking the old one
+ */
+export function rotateApiKey(id: string): IssuedApiKey | undefined {
+  const current = getApiKey(id);
+  if (!current || current.revokedAt) {
+    return undefined;
+  }
+
+  return getDatabase().transaction(() => {
+    revokeApiKey(id);
+    const { name, userId, scopes, walletIds, expiresAt } = current;
+    return issueApiKey({ name, userId, scopes, walletIds, expiresAt });
+  })();
+}
@@ -0,0 +1,43 @@
+/**
+ * API Key Type Definitions
+ */
+
+/**
+ * What a key may do:
+ * - read: list wallets, balances, transactions, policies, orders and chat history
+ * - transfer: send funds and manage wallets and their spending policies
+ * - marketplace: browse the catalog and buy e-books
+ * - chat: talk to the AI agent (confirming a proposed transfer also needs transfer)
+ * - admin: everything, including issuing and revoking keys
+ */
+export type ApiKeyScope = "read" | "transfer" | "marketplace" | "chat" | "admin";
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ["read", "transfer", "marketplace", "chat", "admin"];
+
+export interface ApiKey {
+  id: string;
+  name: string; // What the key is for, e.g. "reporting service"
+  userId?: string; // Keys of a user act as that user; keys without one only authenticate the client app
+  scopes: ApiKeyScope[];
+  walletIds?: string[]; // Only these wallets are accessible with the key
+  expiresAt?: Date;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+}
+
+export interface ApiKeyInput {
+  name: string;
+  userId?: string;
+  scopes: ApiKeyScope[];
+  walletIds?: string[];
+  expiresAt?: Date;
+}
+
+/**
+ * A newly issued key; the secret is only returned here, the database keeps its hash
+ */
+export interface IssuedApiKey {
+  apiKey: ApiKey;
+  key: string;
+}
@@ -0,0 +1,102 @@
+/**
+ * Express App
+ *
+ * Builds the API without starting a server, so it can be served by index.ts or exercised in tests.
+ * Dependencies passed to createApp replace the configured services for the requests of that app only.
+ */
+
+import express, { Express, Request, Response } from 'express';
+import cors from 'cors';
+import dotenv from 'dotenv';
+import authRoutes from './routes/auth.routes';
+import apiKeyRoutes from './routes/apiKeys.routes';
+import adminRoutes from './routes/admin.routes';
+import walletRoutes from './routes/wallet.routes';
+import chatRoutes from './routes/chat.routes';
+import marketplaceRoutes from './routes/marketplace.routes';
+import policyRoutes from './routes/policy.routes';
+import webhookRoutes from './routes/webhooks.routes';
+import docsRoutes from './routes/docs.routes';
+import metricsRoutes from './routes/metrics.routes';
+import { errorHandler, notFoundHandler } from './middleware/errors';
+import { requestLogger } from './middleware/requestLogger';
+import { AppDependencies, withDependencies } from './dependencies';
+
+export type { AppDependencies };
+
+dotenv.config();
+
+/**
+ * Create the Express app with every route and middleware
+ */
+export function createApp(dependencies: AppDependencies = {}): Express {
+  const app = express();
+
+  // Everything below, including the agent and its tools, uses this app's services
+  app.use((req, res, next) => withDependencies(dependencies, next));
+
+  // Behind a reverse proxy, trust it to report the client IP used for rate limiting (e.g. TRUST_PROXY=1 for one hop)
+  const TRUST_PROXY = process.env.TRUST_PROXY;
+  if (TRUST_PROXY) {
+    app.set('trust proxy', /^\d+$/.test(TRUST_PROXY) ? parseInt(TRUST_PROXY, 10) : TRUST_PROXY === 'true' || TRUST_PROXY);
+  }
+
+  // Middleware
+  app.use(cors());
+  // Request ID, access log and log correlation for everything below
+  app.use(requestLogger);
+  app.use(express.json({
+    // Webhook signatures are computed over the exact bytes received
+    verify: (req: Request, res, buf) => {
+      if (req.url?.startsWith('/api/webhooks')) {
+        req.rawBody = buf;
+      }
+    },
+  }));
+  app.use(express.urlencoded({ extended: true }));
+
+  // Routes
+  app.get('/health', (req: Request, res: Response) => {
+    res.json({ status: 'ok', message: 'Server is running' });
+  });
+
+  app.get('/api/hello', (req: Request, res: Response) => {
+    res.json({ message: 'Hello from backend!' });
+  });
+
+  // Prometheus metrics (admin keys)
+  app.use('/metrics', metricsRoutes);
+
+  // User registration and login
+  app.use('/api/auth', authRoutes);
+
+  // API key management (admin keys)
+  app.use('/api/keys', apiKeyRoutes);
+
+  // Operational views (admin keys)
+  app.use('/api/admin', adminRoutes);
+
+  // Wallet routes
+  app.use('/api/wallets', walletRoutes);
+
+  // Chat routes
+  app.use('/api/chat', chatRoutes);
+
+  // Marketplace routes
+  app.use('/api/marketplace', marketplaceRoutes);
+
+  // Spending policy routes
+  app.use('/api/policies', policyRoutes);
+
+  // Webhook routes (signature-authenticated)
+  app.use('/api/webhooks', webhookRoutes);
+
+  // OpenAPI document (/api/openapi.json) and docs UI (/api/docs)
+  app.use('/api', docsRoutes);
+
+  // Unknown API routes and every error answer with { success: false, error, code, details? }
+  app.use('/api', notFoundHandler);
+  app.use(errorHandler);
+
+  return app;
+}
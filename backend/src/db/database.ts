@@ -0,0 +1,75 @@
+/**
+ * Database
+ *
+ * Local SQLite database for data that must survive restarts (agent audit trail, purchases, ...).
+ * The file is created and migrated on first use.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import dotenv from 'dotenv';
+import { migrations } from './migrations';
+import { createLogger } from '../logging/logger';
+
+dotenv.config();
+
+const log = createLogger('db');
+
+// Database file location (default: backend/data/wallet.db)
+const DATABASE_PATH = process.env.DATABASE_PATH || path.join(__dirname, '../../data/wallet.db');
+
+let db: Database.Database | undefined;
+
+/**
+ * Get the shared database connection, opening and migrating it on first use
+ */
+export function getDatabase(): Database.Database {
+  if (!db) {
+    if (DATABASE_PATH !== ':memory:') {
+      fs.mkdirSync(path.dirname(DATABASE_PATH), { recursive: true });
+    }
+    db = new Database(DATABASE_PATH);
+    db.pragma('journal_mode = WAL');
+    db.pragma('foreign_keys = ON');
+    runMigrations(db);
+  }
+  return db;
+}
+
+/**
+ * Close the shared connection, if open (e.g. on shutdown); the next getDatabase() reopens it
+ */
+export function closeDatabase() {
+  db?.close();
+  db = undefined;
+}
+
+/**
+ * Apply migrations that haven't been applied yet, each in its own transaction
+ */
+function runMigrations(database: Database.Database) {
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      id INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `);
+
+  const applied = new Set(
+    database.prepare('SELECT id FROM schema_migrations').all().map((row: any) => row.id as number)
+  );
+
+  for (const migration of migrations) {
+    if (applied.has(migration.id)) continue;
+
+    database.transaction(() => {
+      database.exec(migration.sql);
+      database
+        .prepare('INSERT INTO schema_migrations (id, name, applied_at) VALUES (?, ?, ?)')
+        .run(migration.id, migration.name, new Date().toISOString());
+    })();
+    log.info('Applied migration', { migrationId: migration.id, name: migration.name });
+  }
+}
@@ -0,0 +1,188 @@
+/**
+ * Database Migrations
+ *
+ * Ordered schema changes applied at startup. Never edit a released migration,
+ * add a new one at the end instead.
+ */
+
+export interface Migration {
+  id: number;
+  name: string;
+  sql: string;
+}
+
+export const migrations: Migration[] = [
+  {
+    id: 1,
+    name: 'create_agent_audit',
+    sql: `
+      CREATE TABLE agent_turns (
+        id TEXT PRIMARY KEY,
+        session_id TEXT,
+        wallet_id TEXT,
+        request TEXT NOT NULL,
+        provider TEXT NOT NULL,
+        model TEXT NOT NULL,
+        response TEXT NOT NULL,
+        error TEXT,
+        duration_ms INTEGER NOT NULL,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX idx_agent_turns_wallet_created ON agent_turns (wallet_id, created_at);
+      CREATE INDEX idx_agent_turns_created ON agent_turns (created_at);
+
+      CREATE TABLE agent_tool_calls (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        turn_id TEXT NOT NULL REFERENCES agent_turns (id) ON DELETE CASCADE,
+        position INTEGER NOT NULL,
+        tool_call_id TEXT,
+        name TEXT NOT NULL,
+        args TEXT NOT NULL,
+        output TEXT NOT NULL,
+        result TEXT,
+        error INTEGER NOT NULL DEFAULT 0,
+        duration_ms INTEGER NOT NULL
+      );
+      CREATE INDEX idx_agent_tool_calls_turn ON agent_tool_calls (turn_id);
+      CREATE INDEX idx_agent_tool_calls_name ON agent_tool_calls (name);
+    `,
+  },
+  {
+    id: 2,
+    name: 'create_purchases',
+    sql: `
+      CREATE TABLE purchases (
+        id TEXT PRIMARY KEY,
+        ebook_id TEXT NOT NULL,
+        wallet_id TEXT NOT NULL,
+        price TEXT NOT NULL,
+        token_id TEXT NOT NULL,
+        token_symbol TEXT,
+        transaction_id TEXT,
+        transaction_hash TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX idx_purchases_wallet_ebook ON purchases (wallet_id, ebook_id);
+      CREATE INDEX idx_purchases_transaction ON purchases (transaction_id);
+    `,
+  },
+  {
+    id: 3,
+    name: 'create_purchase_orders',
+    sql: `
+      CREATE TABLE purchase_orders (
+        id TEXT PRIMARY KEY,
+        ebook_id TEXT NOT NULL,
+        wallet_id TEXT NOT NULL,
+        price TEXT NOT NULL,
+        token_id TEXT NOT NULL,
+        token_symbol TEXT,
+        status TEXT NOT NULL,
+        transaction_id TEXT,
+        transaction_hash TEXT,
+        failure_reason TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX idx_purchase_orders_status ON purchase_orders (status);
+      CREATE INDEX idx_purchase_orders_wallet ON purchase_orders (wallet_id);
+      CREATE INDEX idx_purchase_orders_transaction ON purchase_orders (transaction_id);
+
+      ALTER TABLE purchases ADD COLUMN order_id TEXT;
+      ALTER TABLE purchases ADD COLUMN refunded_at TEXT;
+    `,
+  },
+  {
+    id: 4,
+    name: 'create_webhook_notifications',
+    sql: `
+      CREATE TABLE webhook_notifications (
+        notification_id TEXT PRIMARY KEY,
+        subscription_id TEXT,
+        notification_type TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        received_at TEXT NOT NULL
+      );
+
+      CREATE TABLE transaction_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        notification_id TEXT NOT NULL REFERENCES webhook_notifications (notification_id),
+        transaction_id TEXT NOT NULL,
+        wallet_id TEXT,
+        transaction_type TEXT,
+        state TEXT NOT NULL,
+        token_id TEXT,
+        amounts TEXT,
+        tx_hash TEXT,
+        occurred_at TEXT NOT NULL
+      );
+      CREATE INDEX idx_transaction_events_transaction ON transaction_events (transaction_id);
+      CREATE INDEX idx_transaction_events_wallet ON transaction_events (wallet_id, occurred_at);
+    `,
+  },
+  {
+    id: 5,
+    name: 'create_users',
+    sql: `
+      CREATE TABLE users (
+        id TEXT PRIMARY KEY,
+        email TEXT NOT NULL UNIQUE,
+        password_hash TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE TABLE user_sessions (
+        token_hash TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+        expires_at TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX idx_user_sessions_user ON user_sessions (user_id);
+
+      CREATE TABLE wallet_owners (
+        wallet_id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX idx_wallet_owners_user ON wallet_owners (user_id);
+
+      CREATE TABLE wallet_set_owners (
+        wallet_set_id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+        created_at TEXT NOT NULL
+      );
+    `,
+  },
+  {
+    id: 6,
+    name: 'create_api_keys',
+    sql: `
+      CREATE TABLE api_keys (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        key_hash TEXT NOT NULL,
+        user_id TEXT REFERENCES users (id) ON DELETE CASCADE,
+        scopes TEXT NOT NULL,
+        wallet_ids TEXT,
+        expires_at TEXT,
+        last_used_at TEXT,
+        revoked_at TEXT,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX idx_api_keys_user ON api_keys (user_id);
+    `,
+  },
+  {
+    id: 7,
+    name: 'create_spending_policies',
+    sql: `
+      CREATE TABLE spending_policies (
+        wallet_id TEXT PRIMARY KEY,
+        rules TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+    `,
+  },
+];
@@ -0,0 +1,36 @@
+/**
+ * App Dependencies
+ *
+ * Services an app was created with (see createApp) instead of the ones configured in .env.
+ * Each request is handled within its app's dependencies, so several apps in one process
+ * (e.g. in tests) don't replace each other's services. Outside a request the configured ones are used.
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import type { ChatModelFactory } from "./agent/providers";
+import type { EBook } from "./marketplace/types";
+import type { RateLimitStore } from "./rateLimit/types";
+import type { WalletProvider } from "./wallet/types";
+
+export interface AppDependencies {
+  walletProvider?: WalletProvider; // Instead of WALLET_PROVIDER (e.g. a seeded in-memory provider)
+  ebookCatalog?: EBook[]; // E-books for sale instead of the built-in catalog
+  chatModel?: ChatModelFactory; // Instead of LLM_PROVIDER (e.g. a ScriptedChatModel)
+  rateLimitStore?: RateLimitStore; // Instead of the in-memory store
+}
+
+const dependencyStorage = new AsyncLocalStorage<AppDependencies>();
+
+/**
+ * Run a function, and everything it starts, with an app's dependencies
+ */
+export function withDependencies<T>(dependencies: AppDependencies, fn: () => T): T {
+  return dependencyStorage.run(dependencies, fn);
+}
+
+/**
+ * Dependencies of the app handling the current request (empty outside a request)
+ */
+export function getDependencies(): AppDependencies {
+  return dependencyStorage.getStore() || {};
+}
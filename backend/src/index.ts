@@ -1,42 +1,77 @@
-import express, { Request, Response } from 'express';
-import cors from 'cors';
+/**
+ * Server Entrypoint
+ *
+ * Serves the app (see app.ts) and runs the background work: settling purchase orders.
+ * On SIGTERM or SIGINT it stops accepting connections, lets in-flight requests, chat turns
+ * and the order polling tick finish, then exits (forcefully after SHUTDOWN_TIMEOUT_MS).
+ */
+
 import dotenv from 'dotenv';
-import walletRoutes from './routes/wallet.routes';
-import chatRoutes from './routes/chat.routes';
-import marketplaceRoutes from './routes/marketplace.routes';
+import { createApp } from './app';
+import { startOrderPolling, subscribeToPaymentNotifications } from './marketplace/orders';
+import { countTurnsInFlight, waitForTurns } from './agent/turns';
+import { closeDatabase } from './db/database';
+import { createLogger } from './logging/logger';
 
 dotenv.config();
 
-const app = express();
+const log = createLogger('server');
 const PORT = process.env.PORT || 3001;
 
-// Middleware
-app.use(cors());
-app.use(express.json());
-app.use(express.urlencoded({ extended: true }));
+// Longest wait for in-flight work on shutdown (default: 30 seconds)
+const SHUTDOWN_TIMEOUT_MS = parseInt(process.env.SHUTDOWN_TIMEOUT_MS || '30000', 10);
 
-// Routes
-app.get('/health', (req: Request, res: Response) => {
-  res.json({ status: 'ok', message: 'Server is running' });
-});
+const app = createApp();
 
-app.get('/api/hello', (req: Request, res: Response) => {
-  res.json({ message: 'Hello from backend!' });
+// Advance purchase orders as their payments settle (webhooks first, polling as a fallback)
+subscribeToPaymentNotifications();
+const stopOrderPolling = startOrderPolling();
+
+// Start server
+const server = app.listen(PORT, () => {
+  log.info(`Server is running on http://localhost:${PORT}`, {
+    auth: '/api/auth',
+    wallets: '/api/wallets',
+    chat: '/api/chat',
+    marketplace: '/api/marketplace',
+    policies: '/api/policies',
+    rateLimits: '/api/admin/rate-limits',
+    circleWebhooks: '/api/webhooks/circle',
+    docs: '/api/docs',
+    metrics: '/metrics',
+  });
 });
 
-// Wallet routes
-app.use('/api/wallets', walletRoutes);
+let shuttingDown = false;
 
-// Chat routes
-app.use('/api/chat', chatRoutes);
+async function shutdown(signal: NodeJS.Signals) {
+  if (shuttingDown) return;
+  shuttingDown = true;
+  log.info('Shutting down', { signal, chatTurnsInFlight: countTurnsInFlight() });
 
-// Marketplace routes
-app.use('/api/marketplace', marketplaceRoutes);
+  const forceExit = setTimeout(() => {
+    log.error('Shutdown timed out, exiting with work in flight', { timeoutMs: SHUTDOWN_TIMEOUT_MS });
+    process.exit(1);
+  }, SHUTDOWN_TIMEOUT_MS);
+  forceExit.unref();
 
-// Start server
-app.listen(PORT, () => {
-  console.log(`🚀 Server is running on http://localhost:${PORT}`);
-  console.log(`📡 Wallet API available at http://localhost:${PORT}/api/wallets`);
-  console.log(`💬 Chat API available at http://localhost:${PORT}/api/chat`);
-  console.log(`🛒 Marketplace API available at http://localhost:${PORT}/api/marketplace`);
-});
\ No newline at end of file
+  // Stop accepting connections; open requests (including chat streams) run to completion
+  const serverClosed = new Promise<void>((resolve) => server.close(() => resolve()));
+
+  try {
+    // A chat turn keeps running when its client disconnected, so wait for it separately
+    await Promise.all([waitForTurns(), stopOrderPolling()]);
+    // Keep-alive connections would otherwise hold the server open
+    server.closeIdleConnections();
+    await serverClosed;
+    closeDatabase();
+    log.info('Shutdown complete');
+    process.exit(0);
+  } catch (error) {
+    log.error('Shutdown failed', { error });
+    process.exit(1);
+  }
+}
+
+process.on('SIGTERM', shutdown);
+process.on('SIGINT', shutdown);
@@ -0,0 +1,113 @@
+/**
+ * Structured Logger
+ *
+ * Writes one JSON object per line: { time, level, module, msg, ...context, ...fields }.
+ * The context (request ID, session, tool call) follows the async flow of a request, so every
+ * entry of a request - route, agent, tool and Circle call - carries the same requestId.
+ *
+ * Configuration:
+ * - LOG_LEVEL: debug, info, warn or error (default: info)
+ * - LOG_LEVELS: per-module overrides, e.g. "agent=debug,circle=warn"
+ * - LOG_FORMAT: json (default) or pretty for one readable line per entry
+ * - LOG_REDACT: see logging/redaction.ts
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import dotenv from "dotenv";
+import { redact, redactString } from "./redaction";
+
+dotenv.config();
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Fields added to every entry logged within withLogContext
+ */
+export interface LogContext {
+  requestId?: string;
+  userId?: string;
+  sessionId?: string;
+  walletId?: string;
+  tool?: string;
+  toolCallId?: string;
+}
+
+export interface Logger {
+  debug(msg: string, fields?: LogFields): void;
+  info(msg: string, fields?: LogFields): void;
+  warn(msg: string, fields?: LogFields): void;
+  error(msg: string, fields?: LogFields): void;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+function parseLevel(value: string | undefined, fallback: LogLevel): LogLevel {
+  const level = value?.trim().toLowerCase();
+  return level && level in LEVELS ? (level as LogLevel) : fallback;
+}
+
+const DEFAULT_LEVEL = parseLevel(process.env.LOG_LEVEL, "info");
+
+const MODULE_LEVELS = new Map(
+  (process.env.LOG_LEVELS || "")
+    .split(",")
+    .map((entry) => entry.split("=").map((part) => part.trim()))
+    .filter(([module, level]) => module && level)
+    .map(([module, level]) => [module, parseLevel(level, DEFAULT_LEVEL)])
+);
+
+const PRETTY = process.env.LOG_FORMAT === "pretty";
+
+const contextStorage = new AsyncLocalStorage<LogContext>();
+
+/**
+ * Run a function with fields added to every entry it logs, on top of the current context
+ */
+export function withLogContext<T>(context: LogContext, fn: () => T): T {
+  return contextStorage.run({ ...contextStorage.getStore(), ...context }, fn);
+}
+
+/**
+ * Context of the current request, if any
+ */
+export function getLogContext(): LogContext {
+  return contextStorage.getStore() || {};
+}
+
+function write(level: LogLevel, module: string, msg: string, fields?: LogFields) {
+  const entry = {
+    time: new Date().toISOString(),
+    level,
+    module,
+    msg: redactString(msg),
+    ...getLogContext(),
+    ...(fields && (redact(fields) as LogFields)),
+  };
+
+  let line: string;
+  if (PRETTY) {
+    const { time, level: _level, module: _module, msg: text, ...rest } = entry;
+    const details = Object.keys(rest).length > 0 ? ` ${JSON.stringify(rest)}` : "";
+    line = `${time} ${level.toUpperCase().padEnd(5)} [${module}] ${text}${details}`;
+  } else {
+    line = JSON.stringify(entry);
+  }
+
+  (LEVELS[level] >= LEVELS.warn ? process.stderr : process.stdout).write(`${line}\n`);
+}
+
+/**
+ * Create the logger of a module (e.g. "agent", "circle")
+ */
+export function createLogger(module: string): Logger {
+  const minimum = LEVELS[MODULE_LEVELS.get(module) || DEFAULT_LEVEL];
+  const log = (level: LogLevel) => (msg: string, fields?: LogFields) => {
+    if (LEVELS[level] >= minimum) {
+      write(level, module, msg, fields);
+    }
+  };
+
+  return { debug: log("debug"), info: log("info"), warn: log("warn"), error: log("error") };
+}
@@ -0,0 +1,110 @@
+/**
+ * Log Redaction
+ *
+ * Secrets are always removed from log entries: API keys, session tokens, passwords and the
+ * Circle credentials, whether they appear as fields or inside strings.
+ * With LOG_REDACT (comma-separated) more is removed:
+ * - addresses: blockchain addresses are shortened to their first and last characters
+ * - messages: chat messages, agent responses and tool outputs are replaced by their length
+ */
+
+import dotenv from "dotenv";
+
+dotenv.config();
+
+export type RedactionOption = "addresses" | "messages";
+
+const REDACT = new Set(
+  (process.env.LOG_REDACT || "")
+    .split(",")
+    .map((option) => option.trim())
+    .filter(Boolean) as RedactionOption[]
+);
+
+const REDACTED = "[REDACTED]";
+
+// Fields holding credentials (key IDs such as apiKeyId are not secret)
+const SECRET_FIELD = /(secret|password|authorization|cookie|api[-_]?key(?!_?id)|ciphertext)|^(token|key)$/i;
+
+// Fields holding blockchain addresses
+const ADDRESS_FIELD = /address$/i;
+
+// Fields holding chat or tool content
+const CONTENT_FIELD = /^(message|content|response|output|request|prompt|summary)$/i;
+
+// Issued API keys (see apiKeys/apiKeys.ts) and bearer tokens
+const SECRET_PATTERNS = [/wk_[0-9a-f]{16}_[\w-]+/g, /Bearer\s+[\w.~+/=-]+/gi];
+
+const EVM_ADDRESS = /0x[0-9a-fA-F]{40}/g;
+
+// Configured secrets that must never appear in a log line, even inside an error message
+const SECRET_VALUES = ["API_KEY_SECRET", "CIRCLE_API_KEY", "CIRCLE_ENTITY_SECRET", "GROQ_API_KEY", "LLM_API_KEY"]
+  .map((name) => process.env[name])
+  .filter((value): value is string => !!value && value.length >= 8);
+
+export function isRedacting(option: RedactionOption): boolean {
+  return REDACT.has(option);
+}
+
+function shortenAddress(address: string): string {
+  return address.length > 12 ? `${address.slice(0, 6)}…${address.slice(-4)}` : REDACTED;
+}
+
+/**
+ * Remove secrets (and addresses when configured) from free text
+ */
+export function redactString(text: string): string {
+  let redacted = text;
+  for (const secret of SECRET_VALUES) {
+    redacted = redacted.split(secret).join(REDACTED);
+  }
+  for (const pattern of SECRET_PATTERNS) {
+    redacted = redacted.replace(pattern, REDACTED);
+  }
+  if (REDACT.has("addresses")) {
+    redacted = redacted.replace(EVM_ADDRESS, shortenAddress);
+  }
+  return redacted;
+}
+
+/**
+ * Copy of a value with secrets removed, following nested objects and arrays
+ * @param field - Name of the field holding the value, which decides how it is redacted
+ */
+export function redact(value: unknown, field?: string, depth: number = 0): unknown {
+  if (value === null || value === undefined) {
+    return value;
+  }
+  if (field && SECRET_FIELD.test(field)) {
+    return REDACTED;
+  }
+  if (field && REDACT.has("messages") && CONTENT_FIELD.test(field)) {
+    return typeof value === "string" ? `[REDACTED ${value.length} chars]` : REDACTED;
+  }
+  if (typeof value === "string") {
+    return field && REDACT.has("addresses") && ADDRESS_FIELD.test(field) ? shortenAddress(value) : redactString(value);
+  }
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: redactString(value.message),
+      ...(value.stack && { stack: redactString(value.stack) }),
+    };
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value !== "object") {
+    return value;
+  }
+  // Deeply nested payloads (e.g. raw SDK responses) are cut off rather than walked
+  if (depth >= 6) {
+    return "[Truncated]";
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, field, depth + 1));
+  }
+  return Object.fromEntries(
+    Object.entries(value as Record<string, unknown>).map(([key, item]) => [key, redact(item, key, depth + 1)])
+  );
+}
@@ -3,16 +3,21 @@
  * 
  * Hardcoded list of e-books available in the marketplace
  * Prices range from 0.1 to 0.2 USDC
+ * An app can sell another catalog (createApp's ebookCatalog, e.g. in tests)
  */
 
 import { EBook } from './types';
+import { getDependencies } from '../dependencies';
+
+// Token every price is quoted and paid in (a symbol from the token registry)
+export const CATALOG_CURRENCY = 'USDC';
 
 export const EBOOK_CATALOG: EBook[] = [
   {
     id: '1',
     title: 'The Art of Programming',
     author: 'John Doe',
-    price: 0.15,
+    price: '0.15',
     description: 'A comprehensive guide to programming fundamentals and best practices.',
     category: 'Programming',
   },
@@ -20,7 +25,7 @@ export const EBOOK_CATALOG: EBook[] = [
     id: '2',
     title: 'Web3 Fundamentals',
     author: 'Jane Smith',
-    price: 0.12,
+    price: '0.12',
     description: 'Learn the basics of Web3, blockchain, and decentralized applications.',
     category: 'Web3',
   },
@@ -28,7 +33,7 @@ export const EBOOK_CATALOG: EBook[] = [
     id: '3',
     title: 'AI and Machine Learning',
     author: 'Bob Wilson',
-    price: 0.18,
+    price: '0.18',
     description: 'An introduction to artificial intelligence and machine learning concepts.',
     category: 'AI/ML',
   },
@@ -36,7 +41,7 @@ export const EBOOK_CATALOG: EBook[] = [
     id: '4',
     title: 'Blockchain Basics',
     author: 'Alice Johnson',
-    price: 0.10,
+    price: '0.10',
     description: 'Understanding blockchain technology from the ground up.',
     category: 'Blockchain',
   },
@@ -44,7 +49,7 @@ export const EBOOK_CATALOG: EBook[] = [
     id: '5',
     title: 'Smart Contracts Guide',
     author: 'Charlie Brown',
-    price: 0.16,
+    price: '0.16',
     description: 'Learn how to write and deploy smart contracts on various blockchains.',
     category: 'Blockchain',
   },
@@ -52,7 +57,7 @@ export const EBOOK_CATALOG: EBook[] = [
     id: '6',
     title: 'Cryptocurrency Explained',
     author: 'Diana Prince',
-    price: 0.14,
+    price: '0.14',
     description: 'A beginner-friendly guide to cryptocurrencies and digital assets.',
     category: 'Finance',
   },
@@ -60,7 +65,7 @@ export const EBOOK_CATALOG: EBook[] = [
     id: '7',
     title: 'DeFi Fundamentals',
     author: 'Edward Norton',
-    price: 0.17,
+    price: '0.17',
     description: 'Explore decentralized finance protocols and applications.',
     category: 'DeFi',
   },
@@ -68,7 +73,7 @@ export const EBOOK_CATALOG: EBook[] = [
     id: '8',
     title: 'NFTs and Digital Art',
     author: 'Fiona Apple',
-    price: 0.13,
+    price: '0.13',
     description: 'Understanding NFTs, digital ownership, and the creator economy.',
     category: 'NFTs',
   },
@@ -76,7 +81,7 @@ export const EBOOK_CATALOG: EBook[] = [
     id: '9',
     title: 'Ethereum Development',
     author: 'George Lucas',
-    price: 0.19,
+    price: '0.19',
     description: 'Complete guide to building on the Ethereum blockchain.',
     category: 'Development',
   },
@@ -84,7 +89,7 @@ export const EBOOK_CATALOG: EBook[] = [
     id: '10',
     title: 'Solidity Programming',
     author: 'Helen Mirren',
-    price: 0.15,
+    price: '0.15',
     description: 'Master Solidity for Ethereum smart contract development.',
     category: 'Programming',
   },
@@ -92,7 +97,7 @@ export const EBOOK_CATALOG: EBook[] = [
     id: '11',
     title: 'Cryptography Essentials',
     author: 'Ian McKellen',
-    price: 0.11,
+    price: '0.11',
     description: 'Learn the cryptographic principles behind blockchain security.',
     category: 'Security',
   },
@@ -100,7 +105,7 @@ export const EBOOK_CATALOG: EBook[] = [
     id: '12',
     title: 'Tokenomics Design',
     author: 'Julia Roberts',
-    price: 0.20,
+    price: '0.20',
     description: 'Design effective token economics for your blockchain project.',
     category: 'Economics',
   },
@@ -108,7 +113,7 @@ export const EBOOK_CATALOG: EBook[] = [
     id: '13',
     title: 'Layer 2 Solutions',
     author: 'Kevin Spacey',
-    price: 0.16,
+    price: '0.16',
     description: 'Understanding scaling solutions like rollups and sidechains.',
     category: 'Blockchain',
   },
@@ -116,7 +121,7 @@ export const EBOOK_CATALOG: EBook[] = [
     id: '14',
     title: 'DAO Governance',
     author: 'Laura Linney',
-    price: 0.14,
+    price: '0.14',
     description: 'How decentralized autonomous organizations work and operate.',
     category: 'Governance',
   },
@@ -124,7 +129,7 @@ export const EBOOK_CATALOG: EBook[] = [
     id: '15',
     title: 'Web3 Security Best Practices',
     author: 'Michael Caine',
-    price: 0.18,
+    price: '0.18',
     description: 'Essential security practices for Web3 developers and users.',
     category: 'Security',
   },
@@ -132,7 +137,7 @@ export const EBOOK_CATALOG: EBook[] = [
     id: '16',
     title: 'Decentralized Storage',
     author: 'Natalie Portman',
-    price: 0.12,
+    price: '0.12',
     description: 'Exploring IPFS, Arweave, and other decentralized storage solutions.',
     category: 'Infrastructure',
   },
@@ -140,7 +145,7 @@ export const EBOOK_CATALOG: EBook[] = [
     id: '17',
     title: 'Cross-Chain Bridges',
     author: 'Oscar Isaac',
-    price: 0.17,
+    price: '0.17',
     description: 'Understanding how assets move between different blockchains.',
     category: 'Blockchain',
   },
@@ -148,7 +153,7 @@ export const EBOOK_CATALOG: EBook[] = [
     id: '18',
     title: 'Crypto Trading Strategies',
     author: 'Penelope Cruz',
-    price: 0.19,
+    price: '0.19',
     description: 'Advanced trading strategies for cryptocurrency markets.',
     category: 'Trading',
   },
@@ -156,7 +161,7 @@ export const EBOOK_CATALOG: EBook[] = [
     id: '19',
     title: 'Staking and Yield Farming',
     author: 'Quentin Tarantino',
-    price: 0.15,
+    price: '0.15',
     description: 'Maximize returns through staking and yield farming protocols.',
     category: 'DeFi',
   },
@@ -164,24 +169,24 @@ export const EBOOK_CATALOG: EBook[] = [
     id: '20',
     title: 'Metaverse Development',
     author: 'Rachel Weisz',
-    price: 0.13,
+    price: '0.13',
     description: 'Building virtual worlds and experiences in the metaverse.',
     category: 'Development',
   },
 ];
 
 /**
- * Get all e-books
+ * Get all e-books (of the app handling the request)
  */
 export function getAllEbooks(): EBook[] {
-  return EBOOK_CATALOG;
+  return getDependencies().ebookCatalog || EBOOK_CATALOG;
 }
 
 /**
  * Find e-book by ID
  */
 export function findEbookById(id: string): EBook | undefined {
-  return EBOOK_CATALOG.find((ebook) => ebook.id === id);
+  return getAllEbooks().find((ebook) => ebook.id === id);
 }
 
 /**
@@ -189,7 +194,7 @@ export function findEbookById(id: string): EBook | undefined {
  */
 export function searchEbooks(query: string): EBook[] {
   const lowerQuery = query.toLowerCase();
-  return EBOOK_CATALOG.filter(
+  return getAllEbooks().filter(
     (ebook) =>
       ebook.title.toLowerCase().includes(lowerQuery) ||
       ebook.author.toLowerCase().includes(lowerQuery) ||
@@ -201,7 +206,7 @@ export function searchEbooks(query: string): EBook[] {
 /**
  * Get e-book price by ID
  */
-export function getEbookPrice(id: string): number | null {
+export function getEbookPrice(id: string): string | null {
   const ebook = findEbookById(id);
   return ebook ? ebook.price : null;
 }
\ No newline at end of file
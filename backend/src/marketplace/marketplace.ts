@@ -6,8 +6,14 @@
 
 import dotenv from 'dotenv';
 import { EBook, PurchaseResult } from './types';
-import { findEbookById, getEbookPrice, EBOOK_CATALOG } from './catalog';
+import { findEbookById, getEbookPrice, getAllEbooks, CATALOG_CURRENCY } from './catalog';
+import { listPurchases, hasPurchased } from './purchases';
+import { createOrder, transitionOrder } from './orders';
 import * as walletManager from '../wallet/walletManager';
+import { balanceAmount, compareAmounts, formatAmount, parseAmount } from '../wallet/amount';
+import { FeeLevel } from '../wallet/types';
+import { marketplacePurchases } from '../metrics/metrics';
+import { describeToken, findBalance, findTokenDefinition, matchesToken } from '../wallet/tokens';
 
 dotenv.config();
 
@@ -15,36 +21,21 @@ dotenv.config();
 // This should be set in .env or use a default testnet address
 const MARKETPLACE_WALLET_ADDRESS = process.env.MARKETPLACE_WALLET_ADDRESS || '0x0000000000000000000000000000000000000000';
 
-/**
- * Purchase History Storage
- * In-memory storage for MVP (can be replaced with database later)
- * Format: Map<walletId, Set<ebookId>>
- */
-const purchaseHistory = new Map<string, Set<string>>();
-
-/**
- * Record a purchase
- */
-function recordPurchase(walletId: string, ebookId: string) {
-  if (!purchaseHistory.has(walletId)) {
-    purchaseHistory.set(walletId, new Set());
-  }
-  purchaseHistory.get(walletId)!.add(ebookId);
-}
-
 /**
  * Check if an e-book has been purchased by a wallet
  */
 export function isEbookPurchased(walletId: string, ebookId: string): boolean {
-  return purchaseHistory.get(walletId)?.has(ebookId) || false;
+  return hasPurchased(walletId, ebookId);
 }
 
 /**
  * Get all purchased e-books for a wallet
  */
 export function getPurchasedEbooks(walletId: string): EBook[] {
-  const purchasedIds = Array.from(purchaseHistory.get(walletId) || []);
-  return purchasedIds.map(id => findEbookById(id)).filter((ebook): ebook is EBook => ebook !== undefined);
+  const purchasedIds = new Set(listPurchases(walletId).map((purchase) => purchase.ebookId));
+  return Array.from(purchasedIds)
+    .map(id => findEbookById(id))
+    .filter((ebook): ebook is EBook => ebook !== undefined);
 }
 
 /**
@@ -53,13 +44,30 @@ export function getPurchasedEbooks(walletId: string): EBook[] {
  * This function:
  * 1. Validates the e-book exists
  * 2. Checks the buyer's balance
- * 3. Transfers USDC to marketplace wallet
- * 4. Returns purchase confirmation
+ * 3. Creates a purchase order and pays the marketplace wallet in the catalog currency
+ * 4. Returns the order, which is fulfilled once the payment settles
+ *
+ * tokenId is the Circle token ID of the payment token, or its registry symbol (e.g. "USDC")
  */
 export async function processPurchase(
   ebookId: string,
   buyerWalletId: string,
-  tokenId: string
+  tokenId: string,
+  feeLevel: FeeLevel = 'MEDIUM'
+): Promise<PurchaseResult> {
+  const result = await payForEbook(ebookId, buyerWalletId, tokenId, feeLevel);
+  marketplacePurchases.inc({ result: result.success ? 'submitted' : 'failed' });
+  return result;
+}
+
+/**
+ * Steps of processPurchase
+ */
+async function payForEbook(
+  ebookId: string,
+  buyerWalletId: string,
+  tokenId: string,
+  feeLevel: FeeLevel
 ): Promise<PurchaseResult> {
   try {
     // 1. Validate e-book exists
@@ -82,30 +90,38 @@ export async function processPurchase(
       };
     }
 
-    // 3. Check buyer's balance
-    const balances = await walletManager.getWalletBalance(buyerWalletId);
-    const usdcBalance = balances?.find(
-      (b: any) => b.token.id === tokenId
-    );
+    // 3. Check buyer's balance in the catalog currency
+    const balances = (await walletManager.getWalletBalance(buyerWalletId)) || [];
+    const paymentBalance = findBalance(balances, tokenId);
 
-    if (!usdcBalance) {
+    if (!paymentBalance) {
       return {
         success: false,
         ebook,
-        message: `Token ID ${tokenId} not found in wallet balance. Please check your balance first.`,
+        message: `Token ${tokenId} not found in wallet balance. Please check your balance first.`,
       };
     }
 
-    const balanceAmount = parseFloat(usdcBalance.amount);
-    if (balanceAmount < price) {
+    const currency = findTokenDefinition(CATALOG_CURRENCY);
+    if (currency && !matchesToken(paymentBalance.token, currency)) {
       return {
         success: false,
         ebook,
-        message: `Insufficient balance. Required: ${price} USDC, Available: ${balanceAmount} ${usdcBalance.token.symbol}`,
+        message: `E-books are paid in ${CATALOG_CURRENCY}, not ${describeToken(paymentBalance.token).symbol}.`,
       };
     }
 
-    // 4. Transfer USDC to marketplace wallet
+    const available = balanceAmount(paymentBalance);
+    const amount = parseAmount(price, available.decimals);
+    if (compareAmounts(available, amount) < 0) {
+      return {
+        success: false,
+        ebook,
+        message: `Insufficient balance. Required: ${formatAmount(amount)} ${CATALOG_CURRENCY}, Available: ${formatAmount(available)} ${CATALOG_CURRENCY}`,
+      };
+    }
+
+    // 4. Check the marketplace wallet is configured
     if (!MARKETPLACE_WALLET_ADDRESS || MARKETPLACE_WALLET_ADDRESS === '0x0000000000000000000000000000000000000000') {
       return {
         success: false,
@@ -114,27 +130,44 @@ export async function processPurchase(
       };
     }
 
-    const transferResult = await walletManager.transferTokens(
-      buyerWalletId,
-      tokenId,
-      MARKETPLACE_WALLET_ADDRESS,
-      price.toString(),
-      'MEDIUM' // Use medium fee level for purchases
-    );
-
-    const transactionId = transferResult?.id || 'Unknown';
-    const transactionHash = (transferResult as any)?.transactionHash || 'Pending';
+    // 5. Open an order, then pay it. Ownership is granted once the payment settles (see orders.ts)
+    const order = createOrder({
+      ebookId,
+      walletId: buyerWalletId,
+      price: formatAmount(amount),
+      tokenId: paymentBalance.token.id,
+      tokenSymbol: CATALOG_CURRENCY,
+    });
+
+    let transactionId: string;
+    try {
+      const transferResult = await walletManager.transferTokens(
+        buyerWalletId,
+        paymentBalance.token.id,
+        MARKETPLACE_WALLET_ADDRESS,
+        formatAmount(amount),
+        feeLevel
+      );
+      // Without a transaction ID the payment can never be matched to a settlement
+      if (!transferResult?.id) {
+        throw new Error('The wallet provider returned no transaction ID for the payment');
+      }
+      transactionId = transferResult.id;
+    } catch (transferError: any) {
+      transitionOrder(order, 'failed', { failureReason: transferError.message });
+      throw transferError;
+    }
 
-    // 5. Record the purchase
-    recordPurchase(buyerWalletId, ebookId);
+    transitionOrder(order, 'payment_submitted', { transactionId });
 
-    // 6. Return purchase confirmation
+    // 6. Return the order; the e-book is delivered when the payment completes
     return {
       success: true,
       ebook,
+      orderId: order.id,
+      orderStatus: order.status,
       transactionId,
-      transactionHash,
-      message: `Successfully purchased "${ebook.title}" by ${ebook.author} for ${price} USDC. Transaction ID: ${transactionId}`,
+      message: `Payment of ${formatAmount(amount)} ${CATALOG_CURRENCY} for "${ebook.title}" by ${ebook.author} submitted. Order ID: ${order.id}, Transaction ID: ${transactionId}. The e-book will be available once the payment is confirmed on-chain.`,
     };
   } catch (error: any) {
     return {
@@ -151,6 +184,7 @@ export async function processPurchase(
 export function getMarketplaceConfig() {
   return {
     walletAddress: MARKETPLACE_WALLET_ADDRESS,
-    totalEbooks: EBOOK_CATALOG.length,
+    currency: CATALOG_CURRENCY,
+    totalEbooks: getAllEbooks().length,
   };
 }
\ No newline at end of file
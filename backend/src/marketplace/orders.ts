@@ -0,0 +1,273 @@
+/**
+ * Purchase Orders
+ *
+ * A purchase is an order that follows its payment on-chain: ownership is only
+ * granted once the payment transaction reaches COMPLETE. Orders waiting for
+ * settlement advance on Circle webhooks, and are polled with getTransaction
+ * as a fallback until they are paid or failed.
+ */
+
+import dotenv from 'dotenv';
+import { getDatabase } from '../db/database';
+import * as walletManager from '../wallet/walletManager';
+import { walletEvents } from '../webhooks/events';
+import { recordPurchase } from './purchases';
+import { OrderStatus, PurchaseOrder } from './types';
+import { createLogger } from '../logging/logger';
+import { marketplaceOrders } from '../metrics/metrics';
+
+dotenv.config();
+
+const log = createLogger('marketplace');
+
+// How often orders awaiting settlement are checked (default: 5 seconds)
+const ORDER_POLL_INTERVAL_MS = parseInt(process.env.ORDER_POLL_INTERVAL_MS || '5000', 10);
+
+// Circle transaction states that mean the payment will never settle
+const FAILED_TRANSACTION_STATES = ['FAILED', 'CANCELLED', 'DENIED'];
+
+/**
+ * Allowed status transitions
+ */
+const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  created: ['payment_submitted', 'failed'],
+  payment_submitted: ['paid', 'failed'],
+  paid: ['fulfilled', 'refunded'],
+  fulfilled: ['refunded'],
+  failed: [],
+  refunded: [],
+};
+
+function toOrder(row: any): PurchaseOrder {
+  return {
+    id: row.id,
+    ebookId: row.ebook_id,
+    walletId: row.wallet_id,
+    price: row.price,
+    tokenId: row.token_id,
+    tokenSymbol: row.token_symbol ?? undefined,
+    status: row.status,
+    transactionId: row.transaction_id ?? undefined,
+    transactionHash: row.transaction_hash ?? undefined,
+    failureReason: row.failure_reason ?? undefined,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+/**
+ * Create an order before its payment is sent
+ */
+export function createOrder(
+  input: Pick<PurchaseOrder, 'ebookId' | 'walletId' | 'price' | 'tokenId' | 'tokenSymbol'>
+): PurchaseOrder {
+  const now = new Date();
+  const order: PurchaseOrder = { ...input, id: crypto.randomUUID(), status: 'created', createdAt: now, updatedAt: now };
+
+  getDatabase()
+    .prepare(`
+      INSERT INTO purchase_orders (id, ebook_id, wallet_id, price, token_id, token_symbol, status, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `)
+    .run(
+      order.id,
+      order.ebookId,
+      order.walletId,
+      order.price,
+      order.tokenId,
+      order.tokenSymbol ?? null,
+      order.status,
+      now.toISOString(),
+      now.toISOString()
+    );
+
+  marketplaceOrders.inc({ status: order.status });
+  return order;
+}
+
+/**
+ * Get an order by ID
+ */
+export function getOrder(orderId: string): PurchaseOrder | undefined {
+  const row = getDatabase().prepare('SELECT * FROM purchase_orders WHERE id = ?').get(orderId);
+  return row ? toOrder(row) : undefined;
+}
+
+/**
+ * Get the order paid by a transaction
+ */
+export function getOrderByTransactionId(transactionId: string): PurchaseOrder | undefined {
+  const row = getDatabase().prepare('SELECT * FROM purchase_orders WHERE transaction_id = ?').get(transactionId);
+  return row ? toOrder(row) : undefined;
+}
+
+/**
+ * List the orders of a wallet, most recent first
+ */
+export function listOrders(walletId: string): PurchaseOrder[] {
+  return getDatabase()
+    .prepare('SELECT * FROM purchase_orders WHERE wallet_id = ? ORDER BY created_at DESC')
+    .all(walletId)
+    .map(toOrder);
+}
+
+/**
+ * Move an order to a new status
+ * The status is compared and set in one statement, so of two concurrent updates
+ * of the same order (e.g. a webhook and the poller) only the first one applies.
+ * @throws Error if the transition isn't allowed from the order's stored status
+ */
+export function transitionOrder(
+  order: PurchaseOrder,
+  status: OrderStatus,
+  changes: Partial<Pick<PurchaseOrder, 'transactionId' | 'transactionHash' | 'failureReason'>> = {}
+): PurchaseOrder {
+  const database = getDatabase();
+  database.transaction(() => {
+    const current = getOrder(order.id);
+    if (!current || !ORDER_TRANSITIONS[current.status].includes(status)) {
+      throw new Error(`Order ${order.id} cannot move from ${current?.status ?? 'unknown'} to ${status}`);
+    }
+
+    const next: PurchaseOrder = { ...current, ...changes, status, updatedAt: new Date() };
+    const result = database
+      .prepare(`
+        UPDATE purchase_orders
+        SET status = ?, transaction_id = ?, transaction_hash = ?, failure_reason = ?, updated_at = ?
+        WHERE id = ? AND status = ?
+      `)
+      .run(
+        next.status,
+        next.transactionId ?? null,
+        next.transactionHash ?? null,
+        next.failureReason ?? null,
+        next.updatedAt.toISOString(),
+        next.id,
+        current.status
+      );
+    if (result.changes !== 1) {
+      throw new Error(`Order ${order.id} changed while moving to ${status}`);
+    }
+    Object.assign(order, next);
+  }).immediate();
+
+  marketplaceOrders.inc({ status });
+  return order;
+}
+
+/**
+ * Apply the latest state of an order's payment transaction.
+ * COMPLETE marks the order paid and grants ownership (fulfilled); FAILED, CANCELLED or DENIED fail it.
+ * The order is read again first, so a settlement already applied (by a webhook or the poller) is skipped.
+ * @returns The order as stored after the update
+ */
+export function applyTransactionState(order: PurchaseOrder, state: string, transactionHash?: string): PurchaseOrder {
+  const database = getDatabase();
+  return database.transaction(() => {
+    const current = getOrder(order.id) || order;
+    if (current.status !== 'payment_submitted') {
+      return current;
+    }
+
+    if (state === 'COMPLETE') {
+      transitionOrder(current, 'paid', { transactionHash: transactionHash || current.transactionHash });
+      recordPurchase({
+        ebookId: current.ebookId,
+        walletId: current.walletId,
+        price: current.price,
+        tokenId: current.tokenId,
+        tokenSymbol: current.tokenSymbol,
+        transactionId: current.transactionId,
+        transactionHash: current.transactionHash,
+        orderId: current.id,
+      });
+      return transitionOrder(current, 'fulfilled');
+    }
+
+    if (FAILED_TRANSACTION_STATES.includes(state)) {
+      return transitionOrder(current, 'failed', { failureReason: `Payment transaction ${state.toLowerCase()}` });
+    }
+
+    // Still settling, just keep the hash once it's known
+    if (transactionHash && transactionHash !== current.transactionHash) {
+      current.transactionHash = transactionHash;
+      database
+        .prepare('UPDATE purchase_orders SET transaction_hash = ?, updated_at = ? WHERE id = ?')
+        .run(transactionHash, new Date().toISOString(), current.id);
+    }
+    return current;
+  }).immediate();
+}
+
+/**
+ * Check an order's payment transaction and advance the order
+ */
+export async function syncOrder(order: PurchaseOrder): Promise<PurchaseOrder> {
+  if (order.status !== 'payment_submitted' || !order.transactionId) {
+    return order;
+  }
+
+  const transaction = await walletManager.getTransaction(order.transactionId);
+  if (!transaction) {
+    return order;
+  }
+  return applyTransactionState(order, transaction.state, transaction.txHash);
+}
+
+/**
+ * Settle orders as soon as Circle notifies us about their payment
+ */
+export function subscribeToPaymentNotifications() {
+  const settle = (event: { transactionId: string; state: string; txHash?: string }) => {
+    const order = getOrderByTransactionId(event.transactionId);
+    if (order) {
+      const settled = applyTransactionState(order, event.state, event.txHash);
+      log.info('Order settled', { orderId: settled.id, status: settled.status });
+    }
+  };
+
+  walletEvents.on('outbound_completed', settle);
+  walletEvents.on('outbound_failed', settle);
+}
+
+/**
+ * Poll orders awaiting settlement until they are paid or failed
+ * @returns A function that stops polling, resolving once the tick in progress (if any) has finished
+ */
+export function startOrderPolling(intervalMs: number = ORDER_POLL_INTERVAL_MS): () => Promise<void> {
+  let running: Promise<void> | undefined;
+
+  const poll = async () => {
+    const pending = getDatabase()
+      .prepare("SELECT * FROM purchase_orders WHERE status = 'payment_submitted'")
+      .all()
+      .map(toOrder);
+
+    for (const order of pending) {
+      try {
+        const synced = await syncOrder(order);
+        if (synced.status !== 'payment_submitted') {
+          log.info('Order settled', { orderId: synced.id, status: synced.status });
+        }
+      } catch (error: any) {
+        log.warn('Failed to sync order', { orderId: order.id, error });
+      }
+    }
+  };
+
+  const timer = setInterval(() => {
+    // Skip a tick rather than overlap a slow one
+    if (running) return;
+    running = poll()
+      .catch((error) => log.error('Order polling failed', { error }))
+      .finally(() => {
+        running = undefined;
+      });
+  }, intervalMs);
+  timer.unref();
+
+  return async () => {
+    clearInterval(timer);
+    await running;
+  };
+}
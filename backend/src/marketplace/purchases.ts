@@ -0,0 +1,75 @@
+/**
+ * Purchase Ledger
+ *
+ * Persistent record of who bought which e-book, for how much and with which transaction.
+ */
+
+import { getDatabase } from '../db/database';
+import { Purchase } from './types';
+
+function toPurchase(row: any): Purchase {
+  return {
+    id: row.id,
+    ebookId: row.ebook_id,
+    walletId: row.wallet_id,
+    price: row.price,
+    tokenId: row.token_id,
+    tokenSymbol: row.token_symbol ?? undefined,
+    transactionId: row.transaction_id ?? undefined,
+    transactionHash: row.transaction_hash ?? undefined,
+    orderId: row.order_id ?? undefined,
+    refundedAt: row.refunded_at ? new Date(row.refunded_at) : undefined,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+/**
+ * Record a purchase in the ledger
+ */
+export function recordPurchase(
+  input: Omit<Purchase, 'id' | 'refundedAt' | 'createdAt' | 'updatedAt'>
+): Purchase {
+  const now = new Date();
+  const purchase: Purchase = { ...input, id: crypto.randomUUID(), createdAt: now, updatedAt: now };
+
+  getDatabase()
+    .prepare(`
+      INSERT INTO purchases (id, ebook_id, wallet_id, price, token_id, token_symbol, transaction_id, transaction_hash, order_id, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `)
+    .run(
+      purchase.id,
+      purchase.ebookId,
+      purchase.walletId,
+      purchase.price,
+      purchase.tokenId,
+      purchase.tokenSymbol ?? null,
+      purchase.transactionId ?? null,
+      purchase.transactionHash ?? null,
+      purchase.orderId ?? null,
+      now.toISOString(),
+      now.toISOString()
+    );
+
+  return purchase;
+}
+
+/**
+ * List the purchases of a wallet that weren't refunded, oldest first
+ */
+export function listPurchases(walletId: string): Purchase[] {
+  const rows = getDatabase()
+    .prepare('SELECT * FROM purchases WHERE wallet_id = ? AND refunded_at IS NULL ORDER BY created_at')
+    .all(walletId);
+  return rows.map(toPurchase);
+}
+
+/**
+ * Check whether a wallet has purchased an e-book
+ */
+export function hasPurchased(walletId: string, ebookId: string): boolean {
+  return !!getDatabase()
+    .prepare('SELECT 1 FROM purchases WHERE wallet_id = ? AND ebook_id = ? AND refunded_at IS NULL LIMIT 1')
+    .get(walletId, ebookId);
+}
@@ -6,7 +6,7 @@ export interface EBook {
   id: string;
   title: string;
   author: string;
-  price: number; // Price in USDC
+  price: string; // Price in CATALOG_CURRENCY, as a decimal string (e.g. "0.15")
   description: string;
   category?: string;
 }
@@ -14,11 +14,53 @@ export interface EBook {
 export interface PurchaseResult {
   success: boolean;
   ebook: EBook;
+  orderId?: string;
+  orderStatus?: OrderStatus;
   transactionId?: string;
   transactionHash?: string;
   message: string;
 }
 
+/**
+ * Purchase order lifecycle:
+ * created → payment_submitted → paid → fulfilled, with failed when the payment
+ * can't be sent or doesn't settle, and refunded after a paid order is reversed
+ */
+export type OrderStatus = 'created' | 'payment_submitted' | 'paid' | 'fulfilled' | 'failed' | 'refunded';
+
+export interface PurchaseOrder {
+  id: string;
+  ebookId: string;
+  walletId: string;
+  price: string;
+  tokenId: string;
+  tokenSymbol?: string;
+  status: OrderStatus;
+  transactionId?: string;
+  transactionHash?: string;
+  failureReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * A completed e-book purchase in the ledger
+ */
+export interface Purchase {
+  id: string;
+  ebookId: string;
+  walletId: string;
+  price: string; // Amount paid, in token units
+  tokenId: string;
+  tokenSymbol?: string;
+  transactionId?: string; // Circle transaction ID
+  transactionHash?: string;
+  orderId?: string;
+  refundedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 export interface MarketplaceConfig {
   walletAddress: string; // Marketplace wallet address to receive payments
 }
\ No newline at end of file
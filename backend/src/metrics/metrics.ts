@@ -0,0 +1,97 @@
+/**
+ * Prometheus Metrics
+ *
+ * Counters and histograms of HTTP requests, wallet provider (Circle) calls, agent turns, tool
+ * invocations, LLM calls and marketplace purchases, plus Node.js process metrics.
+ * Served at GET /metrics for admin API keys (Prometheus: authorization { credentials: <key> }).
+ *
+ * Labels only take bounded values (route patterns, method and tool names, outcomes),
+ * never IDs, addresses or user input.
+ */
+
+import { Counter, Histogram, Registry, collectDefaultMetrics } from "prom-client";
+
+export const registry = new Registry();
+
+collectDefaultMetrics({ register: registry });
+
+export const httpRequestDuration = new Histogram({
+  name: "http_request_duration_seconds",
+  help: "Duration of HTTP requests by route pattern",
+  labelNames: ["method", "route", "status"],
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+  registers: [registry],
+});
+
+export const walletProviderCalls = new Counter({
+  name: "wallet_provider_calls_total",
+  help: "Wallet provider (Circle SDK) calls by method and outcome",
+  labelNames: ["provider", "method", "outcome"],
+  registers: [registry],
+});
+
+export const walletProviderCallDuration = new Histogram({
+  name: "wallet_provider_call_duration_seconds",
+  help: "Duration of wallet provider (Circle SDK) calls by method",
+  labelNames: ["provider", "method"],
+  buckets: [0.05, 0.1, 0.25, 0.5, 1, 2, 5, 10],
+  registers: [registry],
+});
+
+export const agentTurns = new Counter({
+  name: "agent_turns_total",
+  help: "Agent turns (chat messages processed) by outcome",
+  labelNames: ["provider", "outcome"],
+  registers: [registry],
+});
+
+export const agentTurnDuration = new Histogram({
+  name: "agent_turn_duration_seconds",
+  help: "Duration of agent turns, including model and tool calls",
+  labelNames: ["provider"],
+  buckets: [0.5, 1, 2, 5, 10, 20, 30, 60],
+  registers: [registry],
+});
+
+export const toolInvocations = new Counter({
+  name: "agent_tool_calls_total",
+  help: "Tool invocations by tool name and outcome (success, error, refused, not_found)",
+  labelNames: ["tool", "outcome"],
+  registers: [registry],
+});
+
+export const llmRequestDuration = new Histogram({
+  name: "llm_request_duration_seconds",
+  help: "Duration of LLM calls by provider, model and outcome",
+  labelNames: ["provider", "model", "outcome"],
+  buckets: [0.25, 0.5, 1, 2, 5, 10, 20, 30],
+  registers: [registry],
+});
+
+export const llmTokens = new Counter({
+  name: "llm_tokens_total",
+  help: "LLM tokens used by provider, model and type (input, output), when the provider reports usage",
+  labelNames: ["provider", "model", "type"],
+  registers: [registry],
+});
+
+export const marketplacePurchases = new Counter({
+  name: "marketplace_purchases_total",
+  help: "Purchase attempts by result (submitted: payment sent for a new order, failed: refused or payment failed)",
+  labelNames: ["result"],
+  registers: [registry],
+});
+
+export const marketplaceOrders = new Counter({
+  name: "marketplace_order_transitions_total",
+  help: "Purchase orders reaching each status (paid, fulfilled, failed, refunded...)",
+  labelNames: ["status"],
+  registers: [registry],
+});
+
+/**
+ * Elapsed time in seconds, for histograms
+ */
+export function secondsSince(startedAt: number): number {
+  return (Date.now() - startedAt) / 1000;
+}
@@ -2,41 +2,139 @@
  * API Key Authentication Middleware
  * 
  * Secures API endpoints by requiring a valid API key in the request headers.
- * Set API_KEY_SECRET in your .env file to enable authentication.
+ * Keys come from the key store (see apiKeys/apiKeys.ts), API_KEY_SECRET is accepted as an admin key.
+ * Each route also requires the scope it needs (requireScope).
+ * User routes additionally require a login session or a user's key (userAuth) and only act on the user's own wallets.
  */
 
 import { Request, Response, NextFunction } from "express";
+import { hasScope, isApiKey, verifyApiKey } from "../apiKeys/apiKeys";
+import { ApiKey, ApiKeyScope } from "../apiKeys/types";
+import { getSessionUser, getUser } from "../users/users";
+import { listOwnedWalletIds, ownsWallet } from "../users/ownership";
+import { User } from "../users/types";
+import { ApiError } from "./errors";
+import { createLogger, withLogContext } from "../logging/logger";
 
-const API_KEY_SECRET = process.env.API_KEY_SECRET;
+const log = createLogger("auth");
+
+// Explicit opt-out for local development; authentication is never skipped otherwise
+const API_AUTH_DISABLED = process.env.API_AUTH_DISABLED === "true";
+
+if (API_AUTH_DISABLED) {
+  log.warn("API_AUTH_DISABLED=true - API key authentication disabled");
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      apiKey?: ApiKey; // Set by apiKeyAuth
+      user?: User; // Set by userAuth
+      sessionToken?: string; // Set by userAuth when the user logged in with a session (not a user's API key)
+      rawBody?: Buffer; // Bytes of the JSON body, kept for webhook routes (see app.ts)
+    }
+  }
+}
+
+/**
+ * Token of the Authorization: Bearer header, if any
+ */
+function bearerToken(req: Request): string | undefined {
+  return req.headers["authorization"]?.replace("Bearer ", "") || undefined;
+}
 
 /**
  * Middleware to validate API key from request headers
- * Expects API key in: X-API-Key header
+ * Expects API key in: X-API-Key header (or Authorization: Bearer <key> when no session is sent)
  */
 export function apiKeyAuth(req: Request, res: Response, next: NextFunction) {
-  // If no API key secret is set, skip authentication (development mode)
-  if (!API_KEY_SECRET) {
-    console.warn("⚠️  API_KEY_SECRET not set - API authentication disabled");
+  if (API_AUTH_DISABLED) {
     return next();
   }
 
   // Get API key from header
-  const apiKey = req.headers["x-api-key"] || req.headers["authorization"]?.replace("Bearer ", "");
+  const bearer = bearerToken(req);
+  const key = (req.headers["x-api-key"] as string | undefined) || (bearer && isApiKey(bearer) ? bearer : undefined);
 
-  if (!apiKey) {
-    return res.status(401).json({
-      success: false,
-      error: "API key required. Provide it in X-API-Key header or Authorization: Bearer <key>",
-    });
+  if (!key) {
+    return next(
+      new ApiError("UNAUTHORIZED", "API key required. Provide it in X-API-Key header or Authorization: Bearer <key>")
+    );
   }
 
-  if (apiKey !== API_KEY_SECRET) {
-    return res.status(403).json({
-      success: false,
-      error: "Invalid API key",
-    });
+  const apiKey = verifyApiKey(key);
+  if (!apiKey) {
+    return next(new ApiError("FORBIDDEN", "Invalid, expired or revoked API key"));
   }
 
+  req.apiKey = apiKey;
   next();
 }
 
+/**
+ * Middleware requiring the API key to grant one of the given scopes
+ * Chain several to require all of them
+ */
+export function requireScope(...scopes: ApiKeyScope[]) {
+  const middleware = (req: Request, res: Response, next: NextFunction) => {
+    if (API_AUTH_DISABLED || (req.apiKey && scopes.some((scope) => hasScope(req.apiKey!, scope)))) {
+      return next();
+    }
+    next(new ApiError("FORBIDDEN", `This API key lacks the required scope (${scopes.join(" or ")})`));
+  };
+  // Read back from the router when checking the OpenAPI document against the routes
+  return Object.assign(middleware, { scopes });
+}
+
+/**
+ * Middleware to authenticate the user from the login session token, or from the API key when it belongs to a user
+ * Expects the token in: Authorization: Bearer <token> (send the API key in X-API-Key alongside it)
+ */
+export function userAuth(req: Request, res: Response, next: NextFunction) {
+  const token = bearerToken(req);
+  const user = req.apiKey?.userId
+    ? getUser(req.apiKey.userId)
+    : token && !isApiKey(token)
+      ? getSessionUser(token)
+      : undefined;
+
+  if (!user) {
+    return next(
+      new ApiError("UNAUTHORIZED", "Login required. Provide your session token in Authorization: Bearer <token>")
+    );
+  }
+
+  req.user = user;
+  if (!req.apiKey?.userId) {
+    req.sessionToken = token;
+  }
+  withLogContext({ userId: user.id }, next);
+}
+
+/**
+ * Wallets the request may act on: the user's own, narrowed to the API key's wallets when it's restricted
+ */
+export function accessibleWalletIds(req: Request): string[] {
+  const owned = listOwnedWalletIds(req.user!.id);
+  const restriction = req.apiKey?.walletIds;
+  return restriction ? owned.filter((walletId) => restriction.includes(walletId)) : owned;
+}
+
+/**
+ * Whether the request may act on a wallet
+ */
+export function canAccessWallet(req: Request, walletId: string): boolean {
+  const restriction = req.apiKey?.walletIds;
+  return !!req.user && ownsWallet(req.user.id, walletId) && (!restriction || restriction.includes(walletId));
+}
+
+/**
+ * Route parameter handler rejecting wallets the request may not act on
+ * Usage: router.param("walletId", requireWalletOwner)
+ */
+export function requireWalletOwner(req: Request, res: Response, next: NextFunction, walletId: string) {
+  if (!canAccessWallet(req, walletId)) {
+    return next(new ApiError("NOT_FOUND", "Wallet not found"));
+  }
+  next();
+}
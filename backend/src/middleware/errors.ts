@@ -0,0 +1,161 @@
+/**
+ * API Errors
+ *
+ * Every failed request is answered with the same envelope:
+ *   { success: false, error: "<message>", code: "<ErrorCode>", details?: ... }
+ * Routes throw (or pass to next) an ApiError or a domain error; errorHandler maps it to its status and code.
+ */
+
+import { Request, Response, NextFunction } from "express";
+import { AddressValidationError } from "../wallet/address";
+import { InvalidAmountError } from "../wallet/amount";
+import { PolicyViolationError } from "../policy/policy";
+import { AmbiguousTokenError, TokenNotFoundError } from "../wallet/tokens";
+import { UserExistsError } from "../users/users";
+import { WalletNotFoundError, WalletProviderError } from "../wallet/walletManager";
+import { createLogger } from "../logging/logger";
+
+const log = createLogger("http");
+
+export type ErrorCode =
+  | "VALIDATION_ERROR"
+  | "INVALID_ADDRESS"
+  | "INVALID_AMOUNT"
+  | "UNAUTHORIZED"
+  | "FORBIDDEN"
+  | "POLICY_VIOLATION"
+  | "NOT_FOUND"
+  | "CONFLICT"
+  | "RATE_LIMITED"
+  | "PROVIDER_REJECTED"
+  | "PROVIDER_ERROR"
+  | "INTERNAL_ERROR";
+
+export const STATUS_BY_CODE: Record<ErrorCode, number> = {
+  VALIDATION_ERROR: 400,
+  INVALID_ADDRESS: 400,
+  INVALID_AMOUNT: 400,
+  UNAUTHORIZED: 401,
+  FORBIDDEN: 403,
+  POLICY_VIOLATION: 403,
+  NOT_FOUND: 404,
+  CONFLICT: 409,
+  RATE_LIMITED: 429,
+  PROVIDER_REJECTED: 422, // The wallet provider refused a well-formed request (e.g. insufficient funds)
+  PROVIDER_ERROR: 502, // The wallet provider failed or could not be reached
+  INTERNAL_ERROR: 500,
+};
+
+export const ERROR_CODES = Object.keys(STATUS_BY_CODE) as ErrorCode[];
+
+/**
+ * Error answered with its code, the matching HTTP status and optional details
+ */
+export class ApiError extends Error {
+  readonly code: ErrorCode;
+  readonly status: number;
+  readonly details?: unknown;
+
+  constructor(code: ErrorCode, message: string, details?: unknown) {
+    super(message);
+    this.name = "ApiError";
+    this.code = code;
+    this.status = STATUS_BY_CODE[code];
+    this.details = details;
+  }
+}
+
+/**
+ * Code of a wallet provider failure, from the HTTP status the provider answered with
+ */
+function providerErrorCode(status: number | undefined): ErrorCode {
+  switch (status) {
+    case 400:
+    case 422:
+      return "PROVIDER_REJECTED";
+    case 404:
+      return "NOT_FOUND";
+    case 409:
+      return "CONFLICT";
+    default:
+      return "PROVIDER_ERROR";
+  }
+}
+
+/**
+ * Map any thrown error to an ApiError
+ */
+export function toApiError(error: any): ApiError {
+  if (error instanceof ApiError) {
+    return error;
+  }
+  if (error instanceof AddressValidationError) {
+    return new ApiError("INVALID_ADDRESS", error.message, { issues: error.issues });
+  }
+  if (error instanceof InvalidAmountError) {
+    return new ApiError("INVALID_AMOUNT", error.message);
+  }
+  if (error instanceof PolicyViolationError) {
+    return new ApiError("POLICY_VIOLATION", error.message, { reasons: error.reasons });
+  }
+  if (error instanceof WalletNotFoundError) {
+    return new ApiError("NOT_FOUND", error.message);
+  }
+  if (error instanceof TokenNotFoundError) {
+    return new ApiError("VALIDATION_ERROR", error.message, { availableTokens: error.availableTokens });
+  }
+  if (error instanceof AmbiguousTokenError) {
+    return new ApiError("VALIDATION_ERROR", error.message, { tokenIds: error.tokenIds });
+  }
+  if (error instanceof UserExistsError) {
+    return new ApiError("CONFLICT", error.message);
+  }
+  if (error instanceof WalletProviderError) {
+    return new ApiError(
+      providerErrorCode(error.status),
+      error.message,
+      error.providerCode !== undefined ? { providerCode: error.providerCode } : undefined
+    );
+  }
+  // Malformed JSON rejected by express.json()
+  if (error?.type === "entity.parse.failed") {
+    return new ApiError("VALIDATION_ERROR", "Request body is not valid JSON");
+  }
+  // Unexpected errors may carry internals (SQL, file paths, provider responses): they are logged, not returned
+  return new ApiError("INTERNAL_ERROR", "Internal server error");
+}
+
+/**
+ * Response body of a failed request
+ */
+export function errorBody(error: ApiError) {
+  return {
+    success: false as const,
+    error: error.message,
+    code: error.code,
+    ...(error.details !== undefined && { details: error.details }),
+  };
+}
+
+/**
+ * Final error middleware: answers every error with the envelope
+ */
+export function errorHandler(error: any, req: Request, res: Response, next: NextFunction) {
+  const apiError = toApiError(error);
+
+  if (apiError.status >= 500) {
+    log.error("Unhandled error", { method: req.method, path: req.originalUrl.split("?")[0], error });
+  }
+  if (res.headersSent) {
+    return next(error);
+  }
+
+  res.status(apiError.status).json(errorBody(apiError));
+}
+
+/**
+ * Answer requests to unknown API routes
+ */
+export function notFoundHandler(req: Request, res: Response, next: NextFunction) {
+  next(new ApiError("NOT_FOUND", `No route for ${req.method} ${req.originalUrl}`));
+}
@@ -0,0 +1,57 @@
+/**
+ * Rate Limit Middleware
+ *
+ * Limits requests per client and IP address in the route's bucket (see rateLimit/rateLimit.ts).
+ * Place it after apiKeyAuth/userAuth so requests are counted against the user or API key.
+ */
+
+import { Request, Response, NextFunction } from "express";
+import { consumeRateLimit, getRateLimitRule } from "../rateLimit/rateLimit";
+import { RateLimitBucket } from "../rateLimit/types";
+import { ApiError } from "./errors";
+
+/**
+ * Client identifiers a request is limited by: the user (else the API key) and the IP address,
+ * or only the IP address for the auth bucket (no user yet, and the API key is shared by the frontend)
+ */
+function rateLimitClients(req: Request, bucket: RateLimitBucket): string[] {
+  const clients = [`ip:${req.ip}`];
+  if (bucket === "auth") {
+    return clients;
+  }
+  if (req.user) {
+    clients.unshift(`user:${req.user.id}`);
+  } else if (req.apiKey) {
+    clients.unshift(`key:${req.apiKey.id}`);
+  }
+  return clients;
+}
+
+/**
+ * Middleware counting requests against a bucket
+ * Sets RateLimit-Limit and RateLimit-Remaining, and answers 429 RATE_LIMITED with Retry-After once exhausted
+ */
+export function rateLimit(bucket: RateLimitBucket) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const result = await consumeRateLimit(bucket, rateLimitClients(req, bucket));
+      res.setHeader("RateLimit-Limit", getRateLimitRule(bucket).burst);
+      res.setHeader("RateLimit-Remaining", result.remaining);
+
+      if (!result.allowed) {
+        const retryAfterSeconds = Math.ceil(result.retryAfterMs / 1000);
+        res.setHeader("Retry-After", retryAfterSeconds);
+        return next(
+          new ApiError("RATE_LIMITED", `Too many ${bucket} requests. Retry in ${retryAfterSeconds}s`, {
+            bucket,
+            retryAfterSeconds,
+          })
+        );
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
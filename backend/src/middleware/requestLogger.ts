@@ -0,0 +1,52 @@
+/**
+ * Request Logging Middleware
+ *
+ * Gives every request an ID (the caller's X-Request-Id when it sends a valid one), returns it in
+ * the X-Request-Id header and logs the request once it completes. Everything logged while the
+ * request is handled carries the same requestId. The request's duration is recorded in the metrics.
+ */
+
+import { Request, Response, NextFunction } from "express";
+import { randomUUID } from "crypto";
+import { createLogger, withLogContext } from "../logging/logger";
+import { httpRequestDuration, secondsSince } from "../metrics/metrics";
+
+const log = createLogger("http");
+
+// Request IDs accepted from callers: short, printable, no spaces
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,64}$/;
+
+export function requestLogger(req: Request, res: Response, next: NextFunction) {
+  const incoming = req.header("X-Request-Id");
+  const requestId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+  const startedAt = Date.now();
+  res.setHeader("X-Request-Id", requestId);
+
+  res.on("finish", () => {
+    // Route pattern (e.g. /api/wallets/:walletId) when matched
+    const route = req.route ? req.baseUrl + (req.route.path === "/" ? "" : req.route.path) : undefined;
+    // Unmatched paths are arbitrary, so they share one label
+    httpRequestDuration.observe(
+      { method: req.method, route: route || "unmatched", status: res.statusCode },
+      secondsSince(startedAt)
+    );
+
+    const fields = {
+      requestId,
+      method: req.method,
+      // Without the query string
+      path: route || req.originalUrl.split("?")[0],
+      status: res.statusCode,
+      durationMs: Date.now() - startedAt,
+      ...(req.user && { userId: req.user.id }),
+      ...(req.apiKey && { apiKeyId: req.apiKey.id }),
+    };
+    if (res.statusCode >= 500) {
+      log.error("Request failed", fields);
+    } else {
+      log.info("Request completed", fields);
+    }
+  });
+
+  withLogContext({ requestId }, next);
+}
@@ -0,0 +1,53 @@
+/**
+ * Request Validation
+ *
+ * Routes parse their body, query and params with zod schemas through parseRequest,
+ * which throws a VALIDATION_ERROR listing every invalid field.
+ */
+
+import { z } from "zod";
+import { ApiError } from "./errors";
+
+/**
+ * Parse part of a request with a schema
+ * @returns the parsed (and coerced) values
+ * @throws ApiError VALIDATION_ERROR with one "<field>: <problem>" entry per issue in details
+ */
+export function parseRequest<T extends z.ZodType>(schema: T, input: unknown): z.infer<T> {
+  const parsed = schema.safeParse(input ?? {});
+  if (parsed.success) {
+    return parsed.data;
+  }
+
+  const issues = parsed.error.issues.map((issue) =>
+    issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message
+  );
+  throw new ApiError("VALIDATION_ERROR", issues.join("; "), { issues });
+}
+
+/**
+ * Schemas shared by several routes
+ */
+
+// Non-empty string, trimmed
+export const requiredString = (field: string) =>
+  z.string({ error: `${field} is required` }).trim().min(1, `${field} is required`);
+
+// Date in any format Date.parse accepts, normalized to a Date
+export const isoDate = z
+  .string()
+  .refine((value) => !isNaN(Date.parse(value)), "Expected an ISO 8601 date")
+  .transform((value) => new Date(value));
+
+// Comma-separated list in a query parameter, e.g. ?walletIds=a,b
+export const commaSeparatedList = z
+  .string()
+  .transform((value) => value.split(",").map((item) => item.trim()).filter(Boolean))
+  .pipe(z.array(z.string()).min(1, "Expected at least one value"));
+
+// Body of a transfer, fee estimate or policy evaluation
+export const transferRequestSchema = z.object({
+  tokenId: requiredString("tokenId"),
+  destinationAddress: requiredString("destinationAddress"),
+  amount: z.union([z.string(), z.number()], { error: "amount is required" }).transform(String),
+});
@@ -0,0 +1,304 @@
+/**
+ * OpenAPI Document
+ *
+ * Describes the user-facing API (auth, wallets, marketplace, chat and policies) in OpenAPI 3.0.
+ * Request bodies and query parameters come from the zod schemas the routes validate with, and
+ * responses from the models in schemas.ts, so the document changes with the routes.
+ * Served at GET /api/openapi.json; the frontend client types are generated from it
+ * (npm run generate:api-client).
+ */
+
+import { z } from "zod";
+import {
+  balanceQuerySchema,
+  createWalletSetSchema,
+  createWalletsSchema,
+  listWalletsQuerySchema,
+  transactionFiltersSchema,
+  transferSchema,
+  updateWalletSchema,
+  walletIdsQuerySchema,
+} from "../routes/wallet.routes";
+import { searchQuerySchema, walletQuerySchema } from "../routes/marketplace.routes";
+import { auditQuerySchema, chatRequestSchema, sessionsQuerySchema } from "../routes/chat.routes";
+import { credentialsSchema, registerSchema } from "../routes/auth.routes";
+import { spendingPolicySchema } from "../policy/policy";
+import { transferRequestSchema } from "../middleware/validation";
+import { STATUS_BY_CODE } from "../middleware/errors";
+import { ApiKeyScope } from "../apiKeys/types";
+import * as models from "./schemas";
+
+type JsonSchema = Record<string, any>;
+
+type Method = "get" | "post" | "put" | "patch" | "delete";
+
+interface Operation {
+  method: Method;
+  path: string; // Relative to /api, with {param} placeholders
+  operationId: string;
+  summary: string;
+  tag: string;
+  scopes?: ApiKeyScope[][]; // API key scope checks of the route, all required; each passes with any of its scopes (omitted: none)
+  session?: boolean; // Requires a user (login session or user's key); default true
+  query?: z.ZodType | z.ZodType[];
+  body?: z.ZodType;
+  data?: z.ZodType; // Model of the data field of a successful response
+  list?: boolean; // data is an array of the model
+  status?: number; // Success status (default: 200)
+  stream?: boolean; // Answers with server-sent events instead of JSON
+}
+
+// Request bodies registered as components, so the generated client can name them
+const REQUEST_BODIES: Record<string, z.ZodType> = {
+  Credentials: credentialsSchema,
+  RegisterRequest: registerSchema,
+  CreateWalletsRequest: createWalletsSchema,
+  CreateWalletSetRequest: createWalletSetSchema,
+  UpdateWalletRequest: updateWalletSchema,
+  TransferRequest: transferSchema,
+  TransferEstimateRequest: transferRequestSchema,
+  ChatRequest: chatRequestSchema,
+  SpendingPolicyInput: spendingPolicySchema,
+};
+
+export const OPERATIONS: Operation[] = [
+  // Auth
+  { method: "post", path: "/auth/register", operationId: "register", summary: "Create an account and log in", tag: "Auth", session: false, body: registerSchema, data: models.loginResultModel, status: 201 },
+  { method: "post", path: "/auth/login", operationId: "login", summary: "Log in and start a session", tag: "Auth", session: false, body: credentialsSchema, data: models.loginResultModel },
+  { method: "post", path: "/auth/logout", operationId: "logout", summary: "End the current session", tag: "Auth", data: models.logoutResultModel },
+  { method: "get", path: "/auth/me", operationId: "getCurrentUser", summary: "Get the logged in user and their wallet IDs", tag: "Auth", data: models.currentUserModel },
+
+  // Wallets
+  { method: "get", path: "/wallets", operationId: "listWallets", summary: "List the wallets of the logged in user", tag: "Wallets", scopes: [["read"]], query: listWalletsQuerySchema, data: models.walletModel, list: true },
+  { method: "post", path: "/wallets", operationId: "createWallets", summary: "Create wallets in one of the user's wallet sets", tag: "Wallets", scopes: [["transfer"]], body: createWalletsSchema, data: models.walletModel, list: true, status: 201 },
+  { method: "get", path: "/wallets/sets", operationId: "listWalletSets", summary: "List the wallet sets of the logged in user", tag: "Wallets", scopes: [["read"]], data: models.walletSetModel, list: true },
+  { method: "post", path: "/wallets/sets", operationId: "createWalletSet", summary: "Create a wallet set", tag: "Wallets", scopes: [["transfer"]], body: createWalletSetSchema, data: models.walletSetModel, status: 201 },
+  { method: "get", path: "/wallets/transactions/all", operationId: "listAllTransactions", summary: "List the transactions of several wallets", tag: "Wallets", scopes: [["read"]], query: [walletIdsQuerySchema, transactionFiltersSchema], data: models.transactionModel, list: true },
+  { method: "get", path: "/wallets/transactions/{transactionId}", operationId: "getTransaction", summary: "Get a transaction of one of the user's wallets", tag: "Wallets", scopes: [["read"]], data: models.transactionModel },
+  { method: "get", path: "/wallets/{walletId}", operationId: "getWallet", summary: "Get a wallet", tag: "Wallets", scopes: [["read"]], data: models.walletModel },
+  { method: "patch", path: "/wallets/{walletId}", operationId: "updateWallet", summary: "Rename a wallet or change its reference ID", tag: "Wallets", scopes: [["transfer"]], body: updateWalletSchema, data: models.walletModel },
+  { method: "get", path: "/wallets/{walletId}/balance", operationId: "getWalletBalance", summary: "Get the token balances of a wallet", tag: "Wallets", scopes: [["read"]], query: balanceQuerySchema, data: models.balanceModel, list: true },
+  { method: "get", path: "/wallets/{walletId}/transactions", operationId: "listTransactions", summary: "List the transactions of a wallet", tag: "Wallets", scopes: [["read"]], query: transactionFiltersSchema, data: models.transactionModel, list: true },
+  { method: "post", path: "/wallets/{walletId}/transfer/estimate", operationId: "estimateTransferFee", summary: "Estimate the network fee of a transfer at each fee level", tag: "Wallets", scopes: [["read"]], body: transferRequestSchema, data: models.transferFeeEstimateModel },
+  { method: "post", path: "/wallets/{walletId}/transfer", operationId: "transferTokens", summary: "Send tokens (subject to the wallet's spending policy)", tag: "Wallets", scopes: [["transfer"]], body: transferSchema, data: models.transferResultModel },
+
+  // Marketplace
+  { method: "get", path: "/marketplace/ebooks", operationId: "listEbooks", summary: "List the e-books for sale", tag: "Marketplace", scopes: [["read", "marketplace"]], data: models.ebookModel, list: true },
+  { method: "get", path: "/marketplace/ebooks/search", operationId: "searchEbooks", summary: "Search e-books by title, author or category", tag: "Marketplace", scopes: [["read", "marketplace"]], query: searchQuerySchema, data: models.ebookModel, list: true },
+  { method: "get", path: "/marketplace/ebooks/{id}", operationId: "getEbook", summary: "Get an e-book", tag: "Marketplace", scopes: [["read", "marketplace"]], data: models.ebookModel },
+  { method: "get", path: "/marketplace/ebooks/{id}/purchased", operationId: "isEbookPurchased", summary: "Check whether a wallet bought an e-book", tag: "Marketplace", scopes: [["read", "marketplace"]], query: walletQuerySchema, data: models.purchasedStatusModel },
+  { method: "get", path: "/marketplace/config", operationId: "getMarketplaceConfig", summary: "Get the marketplace wallet address and currency", tag: "Marketplace", scopes: [["read", "marketplace"]], data: models.marketplaceConfigModel },
+  { method: "get", path: "/marketplace/purchased", operationId: "listPurchasedEbooks", summary: "List the e-books a wallet bought", tag: "Marketplace", scopes: [["read", "marketplace"]], query: walletQuerySchema, data: models.ebookModel, list: true },
+  { method: "get", path: "/marketplace/orders", operationId: "listOrders", summary: "List the purchase orders of a wallet", tag: "Marketplace", scopes: [["read", "marketplace"]], query: walletQuerySchema, data: models.purchaseOrderModel, list: true },
+  { method: "get", path: "/marketplace/orders/{id}", operationId: "getOrder", summary: "Get a purchase order, refreshed from its payment", tag: "Marketplace", scopes: [["read", "marketplace"]], data: models.purchaseOrderModel },
+
+  // Chat
+  { method: "post", path: "/chat", operationId: "sendChatMessage", summary: "Send a message to the AI agent", tag: "Chat", scopes: [["chat"]], body: chatRequestSchema, data: models.chatTurnModel },
+  { method: "post", path: "/chat/stream", operationId: "streamChatMessage", summary: "Send a message and stream the answer as server-sent events", tag: "Chat", scopes: [["chat"]], body: chatRequestSchema, stream: true },
+  { method: "get", path: "/chat/actions/{actionId}", operationId: "getPendingAction", summary: "Get an action proposed by the agent", tag: "Chat", scopes: [["read", "chat"]], data: models.pendingActionModel },
+  { method: "post", path: "/chat/actions/{actionId}/confirm", operationId: "confirmPendingAction", summary: "Confirm a pending transfer or purchase and execute it", tag: "Chat", scopes: [["chat"], ["transfer"]], data: models.pendingActionModel },
+  { method: "post", path: "/chat/actions/{actionId}/reject", operationId: "rejectPendingAction", summary: "Reject a pending transfer or purchase", tag: "Chat", scopes: [["chat"]], data: models.pendingActionModel },
+  { method: "get", path: "/chat/audit", operationId: "listAgentTurns", summary: "List audited agent turns, most recent first", tag: "Chat", scopes: [["read", "chat"]], query: auditQuerySchema, data: models.agentAuditEntryModel, list: true },
+  { method: "get", path: "/chat/sessions", operationId: "listChatSessions", summary: "List the user's conversations", tag: "Chat", scopes: [["read", "chat"]], query: sessionsQuerySchema, data: models.chatSessionSummaryModel, list: true },
+  { method: "get", path: "/chat/sessions/{sessionId}", operationId: "getChatSession", summary: "Get a conversation with its messages", tag: "Chat", scopes: [["read", "chat"]], data: models.chatSessionModel },
+  { method: "delete", path: "/chat/sessions/{sessionId}", operationId: "deleteChatSession", summary: "Delete a conversation", tag: "Chat", scopes: [["chat"]], data: models.deletedSessionModel },
+
+  // Spending policies
+  { method: "get", path: "/policies", operationId: "listPolicies", summary: "List the spending policies of the user's wallets", tag: "Policies", scopes: [["read"]], data: models.spendingPolicyModel, list: true },
+  { method: "get", path: "/policies/{walletId}", operationId: "getPolicy", summary: "Get the spending policy of a wallet", tag: "Policies", scopes: [["read"]], data: models.spendingPolicyModel },
+  { method: "put", path: "/policies/{walletId}", operationId: "setPolicy", summary: "Create or replace the spending policy of a wallet", tag: "Policies", scopes: [["admin"]], body: spendingPolicySchema, data: models.spendingPolicyModel },
+  { method: "delete", path: "/policies/{walletId}", operationId: "deletePolicy", summary: "Remove the spending policy of a wallet", tag: "Policies", scopes: [["admin"]], data: models.deletedPolicyModel },
+  { method: "post", path: "/policies/{walletId}/evaluate", operationId: "evaluatePolicy", summary: "Check whether a transfer would be allowed without sending it", tag: "Policies", scopes: [["read"]], body: transferRequestSchema, data: models.policyDecisionModel },
+];
+
+// Error codes answered with each HTTP status
+const ERROR_STATUSES = Object.entries(STATUS_BY_CODE).reduce<Record<number, string[]>>((statuses, [code, status]) => {
+  (statuses[status] ||= []).push(code);
+  return statuses;
+}, {});
+
+const COMPONENT_REF = "#/components/schemas/";
+
+/**
+ * JSON schema of what clients send (before defaults and transforms), in OpenAPI 3.0 form
+ */
+function toSchema(schema: z.ZodType): JsonSchema {
+  const { $schema, ...json } = z.toJSONSchema(schema, {
+    target: "openapi-3.0",
+    io: "input",
+    unrepresentable: "any",
+    override: formatDates,
+  }) as JsonSchema;
+  return json;
+}
+
+// z.date() fields are sent as ISO 8601 strings
+function formatDates({ zodSchema, jsonSchema }: { zodSchema: any; jsonSchema: JsonSchema }) {
+  if (zodSchema._zod.def.type === "date") {
+    jsonSchema.type = "string";
+    jsonSchema.format = "date-time";
+  }
+}
+
+/**
+ * Models and request bodies as OpenAPI components
+ */
+function buildComponentSchemas(): Record<string, JsonSchema> {
+  const registry = z.registry<{ id: string }>();
+  for (const schema of Object.values(models)) {
+    const meta = schema instanceof z.ZodType ? models.apiModels.get(schema) : undefined;
+    if (meta) registry.add(schema as z.ZodType, meta);
+  }
+  for (const [id, schema] of Object.entries(REQUEST_BODIES)) {
+    registry.add(schema, { id });
+  }
+
+  const { schemas } = z.toJSONSchema(registry, {
+    target: "openapi-3.0",
+    io: "input",
+    unrepresentable: "any",
+    override: formatDates,
+    uri: (id) => COMPONENT_REF + id,
+  }) as { schemas: Record<string, JsonSchema> };
+
+  return Object.fromEntries(
+    Object.entries(schemas).map(([id, { $id, $schema, ...schema }]) => [id, schema])
+  );
+}
+
+/**
+ * Reference to a registered model or request body
+ */
+function ref(schema: z.ZodType): JsonSchema {
+  const id =
+    models.apiModels.get(schema)?.id ||
+    Object.entries(REQUEST_BODIES).find(([, body]) => body === schema)?.[0];
+  if (!id) {
+    throw new Error("Schema is not registered as an OpenAPI component");
+  }
+  return { $ref: COMPONENT_REF + id };
+}
+
+function buildParameters(operation: Operation): JsonSchema[] {
+  const pathParameters = [...operation.path.matchAll(/\{(\w+)\}/g)].map(([, name]) => ({
+    name,
+    in: "path",
+    required: true,
+    schema: { type: "string" },
+  }));
+
+  const queries = operation.query ? [operation.query].flat() : [];
+  const queryParameters = queries.flatMap((query) => {
+    const { properties = {}, required = [] } = toSchema(query);
+    return Object.entries(properties).map(([name, schema]) => ({
+      name,
+      in: "query",
+      required: required.includes(name),
+      schema,
+    }));
+  });
+
+  return [...pathParameters, ...queryParameters];
+}
+
+function buildResponses(operation: Operation): JsonSchema {
+  const status = String(operation.status || 200);
+  const errors = Object.fromEntries(
+    Object.keys(ERROR_STATUSES).map((status) => [status, { $ref: `#/components/responses/Error${status}` }])
+  );
+
+  if (operation.stream) {
+    return {
+      [status]: {
+        description:
+          "Server-sent events: session { sessionId }, token { content }, tool_start { id, name, args }, " +
+          "tool_end { id, name, result, error? }, then final (a ChatTurn) or error (an ErrorResponse)",
+        content: { "text/event-stream": { schema: { type: "string" } } },
+      },
+      ...errors,
+    };
+  }
+
+  const data = operation.data ? ref(operation.data) : {};
+  return {
+    [status]: {
+      description: "Success",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            required: ["success", "data"],
+            properties: {
+              success: { type: "boolean", enum: [true] },
+              data: operation.list ? { type: "array", items: data } : data,
+            },
+          },
+        },
+      },
+    },
+    ...errors,
+  };
+}
+
+function buildOperation(operation: Operation): JsonSchema {
+  const scopes = operation.scopes
+    ? ` Requires an API key with the ${operation.scopes.map((anyOf) => anyOf.join(" or ")).join(" and the ")} scope.`
+    : "";
+  const parameters = buildParameters(operation);
+
+  return {
+    operationId: operation.operationId,
+    summary: operation.summary,
+    tags: [operation.tag],
+    ...(scopes && { description: scopes.trim() }),
+    // Every route needs an API key; user routes also a session (or a user's key)
+    security:
+      operation.session === false
+        ? [{ apiKey: [] }]
+        : [{ apiKey: [], session: [] }, { apiKey: [] }],
+    ...(parameters.length > 0 && { parameters }),
+    ...(operation.body && {
+      requestBody: { required: true, content: { "application/json": { schema: ref(operation.body) } } },
+    }),
+    responses: buildResponses(operation),
+  };
+}
+
+/**
+ * Build the OpenAPI document of the API
+ */
+export function buildOpenApiDocument(): JsonSchema {
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+  for (const operation of OPERATIONS) {
+    paths[operation.path] = { ...paths[operation.path], [operation.method]: buildOperation(operation) };
+  }
+
+  return {
+    openapi: "3.0.3",
+    info: {
+      title: "AI Smart Wallet API",
+      version: "1.0.0",
+      description:
+        "Wallets, AI chat agent and e-book marketplace. Every request needs an API key (X-API-Key header); " +
+        "user routes also need a login session (Authorization: Bearer <token> from /auth/login) unless the key " +
+        "belongs to a user. Errors answer with { success: false, error, code, details? }. API key management, " +
+        "admin and webhook routes are described in documentation/03_API_SECURITY.md and 07_WEBHOOKS.md.",
+    },
+    servers: [{ url: "/api" }],
+    tags: ["Auth", "Wallets", "Marketplace", "Chat", "Policies"].map((name) => ({ name })),
+    paths,
+    components: {
+      schemas: buildComponentSchemas(),
+      responses: Object.fromEntries(
+        Object.entries(ERROR_STATUSES).map(([status, codes]) => [
+          `Error${status}`,
+          { description: codes.join(", "), content: { "application/json": { schema: ref(models.errorResponseModel) } } },
+        ])
+      ),
+      securitySchemes: {
+        apiKey: { type: "apiKey", in: "header", name: "X-API-Key" },
+        session: { type: "http", scheme: "bearer", description: "Session token returned by /auth/login" },
+      },
+    },
+  };
+}
@@ -0,0 +1,418 @@
+/**
+ * API Response Models
+ *
+ * Schemas of the data routes answer with, registered under the component name they get in the
+ * OpenAPI document. Models of our own types are checked against those types, so changing a type
+ * without its model is a compile error. Circle models list the fields clients rely on; Circle
+ * may send more.
+ */
+
+import { z } from "zod";
+import { ERROR_CODES } from "../middleware/errors";
+import { EBook, PurchaseOrder } from "../marketplace/types";
+import { AgentAction, AgentAuditEntry, AgentToolCall, ConversationSession, PendingAction } from "../agent/types";
+import { TransferFeeEstimate } from "../wallet/types";
+import { User } from "../users/types";
+import { PolicyDecision, SpendingPolicy } from "../policy/types";
+
+/**
+ * Models by component name
+ */
+export const apiModels = z.registry<{ id: string }>();
+
+/**
+ * Register a model under its component name
+ */
+function model<T extends z.ZodType>(id: string, schema: T): T {
+  apiModels.add(schema, { id });
+  return schema;
+}
+
+// Dates are sent as ISO 8601 strings
+const dateTime = z.date();
+
+const feeLevel = z.enum(["LOW", "MEDIUM", "HIGH"]);
+
+export const errorCodeModel = model("ErrorCode", z.enum(ERROR_CODES));
+
+export const errorResponseModel = model(
+  "ErrorResponse",
+  z.object({
+    success: z.literal(false),
+    error: z.string(),
+    code: errorCodeModel,
+    details: z.unknown().optional(),
+  })
+);
+
+/**
+ * Circle
+ */
+
+export const walletModel = model(
+  "Wallet",
+  z.looseObject({
+    id: z.string(),
+    address: z.string(),
+    blockchain: z.string(),
+    state: z.string(),
+    walletSetId: z.string(),
+    custodyType: z.string(),
+    accountType: z.string().optional(),
+    name: z.string().optional(),
+    refId: z.string().optional(),
+    createDate: z.string(),
+    updateDate: z.string(),
+  })
+);
+
+export const walletSetModel = model(
+  "WalletSet",
+  z.looseObject({
+    id: z.string(),
+    name: z.string().optional(),
+    custodyType: z.string(),
+    createDate: z.string(),
+    updateDate: z.string(),
+  })
+);
+
+export const tokenModel = model(
+  "Token",
+  z.looseObject({
+    id: z.string(),
+    blockchain: z.string(),
+    symbol: z.string().optional(),
+    name: z.string().optional(),
+    decimals: z.number().optional(),
+    tokenAddress: z.string().optional(),
+    isNative: z.boolean(),
+  })
+);
+
+export const balanceModel = model(
+  "Balance",
+  z.looseObject({
+    token: tokenModel,
+    amount: z.string(),
+    updateDate: z.string(),
+  })
+);
+
+export const transactionModel = model(
+  "Transaction",
+  z.looseObject({
+    id: z.string(),
+    walletId: z.string().optional(),
+    blockchain: z.string(),
+    state: z.string(),
+    transactionType: z.enum(["INBOUND", "OUTBOUND"]).optional(),
+    amounts: z.array(z.string()).optional(),
+    tokenId: z.string().optional(),
+    sourceAddress: z.string().optional(),
+    destinationAddress: z.string().optional(),
+    txHash: z.string().optional(),
+    errorReason: z.string().optional(),
+    createDate: z.string(),
+    updateDate: z.string(),
+  })
+);
+
+export const transferResultModel = model(
+  "TransferResult",
+  z.object({
+    id: z.string(),
+    state: z.string(),
+  })
+);
+
+/**
+ * Wallets
+ */
+
+export const transferFeeEstimateModel: z.ZodType<TransferFeeEstimate> = model(
+  "TransferFeeEstimate",
+  z.object({
+    amount: z.string(),
+    tokenSymbol: z.string(),
+    feeTokenSymbol: z.string(),
+    levels: z.array(
+      z.object({
+        feeLevel,
+        networkFee: z.string(),
+        totalCost: z.string().optional(),
+      })
+    ),
+  })
+);
+
+export const spendingPolicyModel: z.ZodType<SpendingPolicy> = model(
+  "SpendingPolicy",
+  z.object({
+    walletId: z.string(),
+    enabled: z.boolean(),
+    token: z.string(),
+    maxPerTransaction: z.string().optional(),
+    dailyLimit: z.string().optional(),
+    weeklyLimit: z.string().optional(),
+    allowlist: z.array(z.string()).optional(),
+    denylist: z.array(z.string()).optional(),
+    marketplaceOnly: z.boolean().optional(),
+    quietHours: z
+      .object({
+        start: z.string(),
+        end: z.string(),
+        timezone: z.string().optional(),
+      })
+      .optional(),
+    createdAt: dateTime,
+    updatedAt: dateTime,
+  })
+);
+
+export const policyDecisionModel: z.ZodType<PolicyDecision> = model(
+  "PolicyDecision",
+  z.object({
+    allowed: z.boolean(),
+    reasons: z.array(z.string()),
+  })
+);
+
+export const deletedPolicyModel = model(
+  "DeletedPolicy",
+  z.object({
+    walletId: z.string(),
+    deleted: z.literal(true),
+  })
+);
+
+/**
+ * Users
+ */
+
+export const userModel: z.ZodType<User> = model(
+  "User",
+  z.object({
+    id: z.string(),
+    email: z.string(),
+    createdAt: dateTime,
+  })
+);
+
+export const loginResultModel = model(
+  "LoginResult",
+  z.object({
+    user: userModel,
+    token: z.string(),
+    expiresAt: dateTime,
+  })
+);
+
+export const logoutResultModel = model("LogoutResult", z.object({ loggedOut: z.literal(true) }));
+
+export const currentUserModel = model(
+  "CurrentUser",
+  z.object({
+    user: userModel,
+    walletIds: z.array(z.string()),
+  })
+);
+
+/**
+ * Marketplace
+ */
+
+export const ebookModel: z.ZodType<EBook> = model(
+  "EBook",
+  z.object({
+    id: z.string(),
+    title: z.string(),
+    author: z.string(),
+    price: z.string().describe('Price in the catalog currency, as a decimal string (e.g. "0.15")'),
+    description: z.string(),
+    category: z.string().optional(),
+  })
+);
+
+export const marketplaceConfigModel = model(
+  "MarketplaceConfig",
+  z.object({
+    walletAddress: z.string(),
+    currency: z.string(),
+    totalEbooks: z.number(),
+  })
+);
+
+export const purchasedStatusModel = model(
+  "PurchasedStatus",
+  z.object({
+    ebookId: z.string(),
+    purchased: z.boolean(),
+  })
+);
+
+export const purchaseOrderModel: z.ZodType<PurchaseOrder> = model(
+  "PurchaseOrder",
+  z.object({
+    id: z.string(),
+    ebookId: z.string(),
+    walletId: z.string(),
+    price: z.string(),
+    tokenId: z.string(),
+    tokenSymbol: z.string().optional(),
+    status: z.enum(["created", "payment_submitted", "paid", "fulfilled", "failed", "refunded"]),
+    transactionId: z.string().optional(),
+    transactionHash: z.string().optional(),
+    failureReason: z.string().optional(),
+    createdAt: dateTime,
+    updatedAt: dateTime,
+  })
+);
+
+/**
+ * Chat
+ */
+
+export const pendingActionModel: z.ZodType<PendingAction> = model(
+  "PendingAction",
+  z.object({
+    id: z.string(),
+    type: z.enum(["transfer", "purchase"]),
+    status: z.enum(["pending", "confirmed", "rejected", "expired", "failed"]),
+    walletId: z.string(),
+    sessionId: z.string().optional(),
+    details: z.object({
+      tokenId: z.string(),
+      tokenSymbol: z.string().optional(),
+      amount: z.string(),
+      destinationAddress: z.string(),
+      feeLevel,
+      ebookId: z.string().optional(),
+      ebookTitle: z.string().optional(),
+      ebookAuthor: z.string().optional(),
+    }),
+    result: z
+      .object({
+        transactionId: z.string().optional(),
+        state: z.string().optional(),
+        message: z.string(),
+        // transfer_submitted or purchase_submitted once executed
+        get receipt() {
+          return agentActionModel.optional();
+        },
+      })
+      .optional(),
+    createdAt: dateTime,
+    expiresAt: dateTime,
+  })
+);
+
+export const agentActionModel: z.ZodType<AgentAction> = model(
+  "AgentAction",
+  z.discriminatedUnion("type", [
+    z.object({
+      type: z.literal("balance"),
+      balances: z.array(z.object({ tokenId: z.string(), symbol: z.string(), amount: z.string() })),
+    }),
+    z.object({ type: z.literal("wallet_info"), wallet: walletModel }),
+    z.object({ type: z.literal("transaction_list"), transactions: z.array(transactionModel) }),
+    z.object({ type: z.literal("transaction_details"), transaction: transactionModel }),
+    z.object({ type: z.literal("ebook_list"), query: z.string().optional(), ebooks: z.array(ebookModel) }),
+    z.object({ type: z.literal("ebook_details"), ebook: ebookModel }),
+    z.object({ type: z.literal("transfer_pending"), pendingAction: pendingActionModel }),
+    z.object({ type: z.literal("purchase_pending"), pendingAction: pendingActionModel, ebook: ebookModel }),
+    z.object({
+      type: z.literal("transfer_submitted"),
+      transactionId: z.string().optional(),
+      state: z.string().optional(),
+      amount: z.string(),
+      destinationAddress: z.string(),
+    }),
+    z.object({
+      type: z.literal("purchase_submitted"),
+      ebook: ebookModel,
+      orderId: z.string().optional(),
+      transactionId: z.string().optional(),
+    }),
+    z.object({ type: z.literal("fee_estimate"), estimate: transferFeeEstimateModel }),
+  ])
+);
+
+export const agentToolCallModel: z.ZodType<AgentToolCall> = model(
+  "AgentToolCall",
+  z.object({
+    id: z.string(),
+    name: z.string(),
+    args: z.record(z.string(), z.any()),
+    output: z.string().describe("Text returned to the model"),
+    result: agentActionModel.optional(),
+    error: z.boolean().optional(),
+    durationMs: z.number(),
+  })
+);
+
+export const chatTurnModel = model(
+  "ChatTurn",
+  z.object({
+    response: z.string(),
+    toolCalls: z.array(agentToolCallModel),
+    actions: z.array(agentActionModel),
+    pendingActions: z.array(pendingActionModel),
+    sessionId: z.string(),
+    timestamp: z.string(),
+  })
+);
+
+export const chatSessionSummaryModel = model(
+  "ChatSessionSummary",
+  z.object({
+    id: z.string(),
+    walletId: z.string(),
+    messageCount: z.number(),
+    createdAt: dateTime,
+    updatedAt: dateTime,
+  })
+);
+
+export const chatSessionModel: z.ZodType<ConversationSession> = model(
+  "ChatSession",
+  z.object({
+    id: z.string(),
+    walletId: z.string(),
+    messages: z.array(
+      z.object({
+        role: z.enum(["user", "agent", "system"]),
+        content: z.string(),
+        timestamp: dateTime.optional(),
+      })
+    ),
+    summary: z.string().optional(),
+    createdAt: dateTime,
+    updatedAt: dateTime,
+  })
+);
+
+export const deletedSessionModel = model(
+  "DeletedSession",
+  z.object({
+    sessionId: z.string(),
+    deleted: z.literal(true),
+  })
+);
+
+export const agentAuditEntryModel: z.ZodType<AgentAuditEntry> = model(
+  "AgentAuditEntry",
+  z.object({
+    id: z.string(),
+    sessionId: z.string().optional(),
+    walletId: z.string().optional(),
+    request: z.string(),
+    provider: z.enum(["groq", "openai", "scripted"]),
+    model: z.string(),
+    response: z.string(),
+    error: z.string().optional(),
+    durationMs: z.number(),
+    toolCalls: z.array(agentToolCallModel),
+    createdAt: dateTime,
+  })
+);
@@ -0,0 +1,272 @@
+/**
+ * Spending Policy Engine
+ *
+ * Per-wallet rules evaluated before every outgoing transfer, whether it comes
+ * from the API, the agent tools or a marketplace purchase.
+ * Policies are stored in the database, so they survive restarts and apply to every instance.
+ */
+
+import { z } from 'zod';
+import dotenv from 'dotenv';
+import type { Token } from '@circle-fin/developer-controlled-wallets';
+import { OutgoingTransfer, PolicyDecision, SpendingPolicy, TransferRequest } from './types';
+import { Amount, MAX_TOKEN_DECIMALS, addAmounts, compareAmounts, formatAmount, parseAmount } from '../wallet/amount';
+import { describeToken, findTokenDefinition, matchesToken } from '../wallet/tokens';
+import { getDatabase } from '../db/database';
+
+dotenv.config();
+
+const MARKETPLACE_WALLET_ADDRESS = process.env.MARKETPLACE_WALLET_ADDRESS;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Precision used to compare amounts with the limits, enough for any token
+export const POLICY_DECIMALS = MAX_TOKEN_DECIMALS;
+
+/**
+ * Error thrown when a transfer violates the wallet's spending policy
+ */
+export class PolicyViolationError extends Error {
+  reasons: string[];
+
+  constructor(reasons: string[]) {
+    super(`Transfer rejected by spending policy: ${reasons.join('; ')}`);
+    this.name = 'PolicyViolationError';
+    this.reasons = reasons;
+  }
+}
+
+// Token the amount limits are in when the policy doesn't name one
+const DEFAULT_POLICY_TOKEN = 'USDC';
+
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected HH:MM (24-hour clock)');
+
+/**
+ * Positive decimal string ("2.5"), normalized without trailing zeros
+ */
+function limitAmount() {
+  return z
+    .string()
+    .trim()
+    .refine(isPositiveAmount, 'Expected a positive decimal amount, e.g. "2.5"')
+    .transform((value) => formatAmount(parseAmount(value, POLICY_DECIMALS)));
+}
+
+function isPositiveAmount(value: string): boolean {
+  try {
+    return parseAmount(value, POLICY_DECIMALS).units > BigInt(0);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Schema for the editable fields of a policy
+ */
+export const spendingPolicySchema = z.object({
+  enabled: z.boolean().default(true),
+  token: z.string().trim().min(1).default(DEFAULT_POLICY_TOKEN),
+  maxPerTransaction: limitAmount().optional(),
+  dailyLimit: limitAmount().optional(),
+  weeklyLimit: limitAmount().optional(),
+  allowlist: z.array(z.string().min(1)).optional(),
+  denylist: z.array(z.string().min(1)).optional(),
+  marketplaceOnly: z.boolean().optional(),
+  quietHours: z
+    .object({
+      start: timeOfDay,
+      end: timeOfDay,
+      timezone: z
+        .string()
+        .refine(isValidTimeZone, 'Expected an IANA time zone, e.g. "Europe/Madrid"')
+        .optional(),
+    })
+    .optional(),
+});
+
+export type SpendingPolicyInput = z.infer<typeof spendingPolicySchema>;
+
+function toPolicy(row: any): SpendingPolicy {
+  return {
+    ...JSON.parse(row.rules),
+    walletId: row.wallet_id,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+/**
+ * Get the policy for a wallet
+ */
+export function getPolicy(walletId: string): SpendingPolicy | undefined {
+  const row = getDatabase().prepare('SELECT * FROM spending_policies WHERE wallet_id = ?').get(walletId);
+  return row ? toPolicy(row) : undefined;
+}
+
+/**
+ * List all policies
+ */
+export function listPolicies(): SpendingPolicy[] {
+  return getDatabase().prepare('SELECT * FROM spending_policies ORDER BY created_at').all().map(toPolicy);
+}
+
+/**
+ * Create or replace the policy for a wallet
+ */
+export function setPolicy(walletId: string, input: SpendingPolicyInput): SpendingPolicy {
+  const now = new Date().toISOString();
+  getDatabase()
+    .prepare(`
+      INSERT INTO spending_policies (wallet_id, rules, created_at, updated_at) VALUES (?, ?, ?, ?)
+      ON CONFLICT (wallet_id) DO UPDATE SET rules = excluded.rules, updated_at = excluded.updated_at
+    `)
+    .run(walletId, JSON.stringify(input), now, now);
+  return getPolicy(walletId)!;
+}
+
+/**
+ * Delete the policy for a wallet
+ * @returns true if the policy existed
+ */
+export function deletePolicy(walletId: string): boolean {
+  return getDatabase().prepare('DELETE FROM spending_policies WHERE wallet_id = ?').run(walletId).changes > 0;
+}
+
+function hasAmountLimits(policy: SpendingPolicy): boolean {
+  return policy.maxPerTransaction !== undefined || policy.dailyLimit !== undefined || policy.weeklyLimit !== undefined;
+}
+
+/**
+ * Whether a token is the one the policy's amount limits are in (by token ID, or registry symbol)
+ */
+export function isPolicyToken(policy: SpendingPolicy, token: Token): boolean {
+  if (token.id === policy.token) {
+    return true;
+  }
+  const definition = findTokenDefinition(policy.token);
+  return !!definition && matchesToken(token, definition);
+}
+
+/**
+ * Whether evaluating a transfer of this token needs the wallet's recent outgoing transfers of it
+ */
+export function requiresSpendingHistory(walletId: string, token: Token): boolean {
+  const policy = getPolicy(walletId);
+  return (
+    !!policy?.enabled &&
+    (policy.dailyLimit !== undefined || policy.weeklyLimit !== undefined) &&
+    isPolicyToken(policy, token)
+  );
+}
+
+/**
+ * Evaluate a transfer against the wallet's policy
+ * @param request - The transfer about to be created
+ * @param recentOutgoing - Outgoing transfers of the policy's token in the last 7 days (for daily/weekly caps)
+ * @param now - Evaluation time (defaults to the current time)
+ */
+export function evaluateTransfer(
+  request: TransferRequest,
+  recentOutgoing: OutgoingTransfer[] = [],
+  now: Date = new Date()
+): PolicyDecision {
+  const policy = getPolicy(request.walletId);
+  if (!policy || !policy.enabled) {
+    return { allowed: true, reasons: [] };
+  }
+
+  const reasons: string[] = [];
+  const amount = parseAmount(request.amount, POLICY_DECIMALS);
+  const destination = request.destinationAddress.toLowerCase();
+  const limit = (value: string) => parseAmount(value, POLICY_DECIMALS);
+  const unit = policy.token;
+
+  // Limits are in the policy's token: other tokens can't be counted against them, so they are refused
+  if (hasAmountLimits(policy) && !isPolicyToken(policy, request.token)) {
+    reasons.push(
+      `Spending limits are in ${unit}; transfers of ${describeToken(request.token).symbol} are not allowed by this policy`
+    );
+  } else {
+    if (policy.maxPerTransaction !== undefined && compareAmounts(amount, limit(policy.maxPerTransaction)) > 0) {
+      reasons.push(`Amount ${request.amount} ${unit} exceeds the per-transaction limit of ${policy.maxPerTransaction} ${unit}`);
+    }
+
+    const spentSince = (since: number) =>
+      recentOutgoing
+        .filter((transfer) => transfer.createDate.getTime() >= since)
+        .reduce((total: Amount, transfer) => addAmounts(total, transfer.amount), parseAmount('0', POLICY_DECIMALS));
+
+    if (policy.dailyLimit !== undefined) {
+      const spent = spentSince(now.getTime() - DAY_MS);
+      if (compareAmounts(addAmounts(spent, amount), limit(policy.dailyLimit)) > 0) {
+        reasons.push(
+          `Daily limit of ${policy.dailyLimit} ${unit} would be exceeded (already sent ${formatAmount(spent)} ${unit} in the last 24 hours)`
+        );
+      }
+    }
+
+    if (policy.weeklyLimit !== undefined) {
+      const spent = spentSince(now.getTime() - 7 * DAY_MS);
+      if (compareAmounts(addAmounts(spent, amount), limit(policy.weeklyLimit)) > 0) {
+        reasons.push(
+          `Weekly limit of ${policy.weeklyLimit} ${unit} would be exceeded (already sent ${formatAmount(spent)} ${unit} in the last 7 days)`
+        );
+      }
+    }
+  }
+
+  if (policy.denylist?.some((address) => address.toLowerCase() === destination)) {
+    reasons.push(`Destination ${request.destinationAddress} is on the denylist`);
+  }
+
+  if (policy.allowlist && !policy.allowlist.some((address) => address.toLowerCase() === destination)) {
+    reasons.push(`Destination ${request.destinationAddress} is not on the allowlist`);
+  }
+
+  if (policy.marketplaceOnly && destination !== MARKETPLACE_WALLET_ADDRESS?.toLowerCase()) {
+    reasons.push('This wallet may only pay the marketplace');
+  }
+
+  if (policy.quietHours && isWithinQuietHours(policy.quietHours, now)) {
+    const { start, end, timezone = 'UTC' } = policy.quietHours;
+    reasons.push(`Transfers are not allowed during quiet hours (${start}-${end} ${timezone})`);
+  }
+
+  return { allowed: reasons.length === 0, reasons };
+}
+
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check whether a time falls inside a quiet hours window
+ */
+function isWithinQuietHours(quietHours: NonNullable<SpendingPolicy['quietHours']>, now: Date): boolean {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: quietHours.timezone || 'UTC',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+  const hour = parseInt(parts.find((p) => p.type === 'hour')?.value || '0', 10);
+  const minute = parseInt(parts.find((p) => p.type === 'minute')?.value || '0', 10);
+
+  const toMinutes = (time: string) => {
+    const [h, m] = time.split(':').map(Number);
+    return h * 60 + m;
+  };
+  const current = hour * 60 + minute;
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+
+  // Window spanning midnight, e.g. 22:00-07:00
+  return start <= end
+    ? current >= start && current < end
+    : current >= start || current < end;
+}
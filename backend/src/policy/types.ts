@@ -0,0 +1,44 @@
+/**
+ * Spending Policy Type Definitions
+ */
+
+import type { Token } from '@circle-fin/developer-controlled-wallets';
+import { Amount } from '../wallet/amount';
+
+export interface QuietHours {
+  start: string; // "HH:MM", 24-hour clock
+  end: string; // "HH:MM", may be earlier than start to span midnight
+  timezone?: string; // IANA time zone (default: UTC)
+}
+
+export interface SpendingPolicy {
+  walletId: string;
+  enabled: boolean;
+  token: string; // Token the amount limits are in: registry symbol (e.g. "USDC") or Circle token ID
+  maxPerTransaction?: string; // Maximum amount per transfer (decimal string)
+  dailyLimit?: string; // Maximum total sent in the last 24 hours
+  weeklyLimit?: string; // Maximum total sent in the last 7 days
+  allowlist?: string[]; // If set, only these destination addresses are allowed
+  denylist?: string[]; // Destination addresses that are always rejected
+  marketplaceOnly?: boolean; // Only allow payments to the marketplace wallet
+  quietHours?: QuietHours; // Time window during which transfers are rejected
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface TransferRequest {
+  walletId: string;
+  token: Token; // Token being sent
+  destinationAddress: string;
+  amount: string;
+}
+
+export interface OutgoingTransfer {
+  amount: Amount;
+  createDate: Date;
+}
+
+export interface PolicyDecision {
+  allowed: boolean;
+  reasons: string[]; // Why the transfer was rejected (empty when allowed)
+}
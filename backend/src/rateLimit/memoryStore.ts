@@ -0,0 +1,71 @@
+/**
+ * In-Memory Rate Limit Store
+ *
+ * Token buckets kept in this process. Buckets that have refilled completely are dropped
+ * periodically, so memory only grows with the clients active in the last minutes.
+ */
+
+import { RateLimitResult, RateLimitRule, RateLimitStore } from "./types";
+
+// How often full buckets are dropped
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+  rule: RateLimitRule;
+}
+
+/**
+ * Tokens of a bucket after refilling it up to now
+ */
+function refill(bucket: Bucket, now: number): number {
+  const refilled = ((now - bucket.updatedAt) * bucket.rule.perMinute) / 60000;
+  return Math.min(bucket.rule.burst, bucket.tokens + refilled);
+}
+
+/**
+ * Create the in-memory store
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const buckets = new Map<string, Bucket>();
+
+  const sweep = setInterval(() => {
+    const now = Date.now();
+    for (const [key, bucket] of buckets) {
+      if (refill(bucket, now) >= bucket.rule.burst) {
+        buckets.delete(key);
+      }
+    }
+  }, SWEEP_INTERVAL_MS);
+  sweep.unref();
+
+  return {
+    name: "memory",
+
+    async consume(key, rule, now): Promise<RateLimitResult> {
+      const bucket = buckets.get(key) || { tokens: rule.burst, updatedAt: now, rule };
+      bucket.tokens = refill(bucket, now);
+      bucket.updatedAt = now;
+      buckets.set(key, bucket);
+
+      if (bucket.tokens >= 1) {
+        bucket.tokens -= 1;
+        return { allowed: true, remaining: Math.floor(bucket.tokens), retryAfterMs: 0 };
+      }
+
+      return {
+        allowed: false,
+        remaining: 0,
+        retryAfterMs: Math.ceil(((1 - bucket.tokens) * 60000) / rule.perMinute),
+      };
+    },
+
+    async refund(key, rule) {
+      const bucket = buckets.get(key);
+      if (bucket) {
+        bucket.tokens = Math.min(rule.burst, bucket.tokens + 1);
+      }
+    },
+  };
+}
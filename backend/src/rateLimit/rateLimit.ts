@@ -0,0 +1,142 @@
+/**
+ * Rate Limiting
+ *
+ * Each request is counted against two token buckets of its route's bucket (chat, transfer or read):
+ * one for the client (the user, else the API key) and one for its IP address, so a client can't
+ * escape its limit by switching addresses and an address can't by switching keys.
+ * Registration and login (auth) are only counted per IP address: every browser sends the frontend's
+ * shared API key, so a bucket per key would be shared by all visitors.
+ * Limits are configured per bucket with RATE_LIMIT_<BUCKET>_BURST and RATE_LIMIT_<BUCKET>_PER_MINUTE.
+ */
+
+import dotenv from "dotenv";
+import { createMemoryRateLimitStore } from "./memoryStore";
+import { getDependencies } from "../dependencies";
+import {
+  LimitedClient,
+  RATE_LIMIT_BUCKETS,
+  RateLimitBucket,
+  RateLimitCounters,
+  RateLimitResult,
+  RateLimitRule,
+  RateLimitStore,
+} from "./types";
+
+dotenv.config();
+
+const DEFAULT_RULES: Record<RateLimitBucket, RateLimitRule> = {
+  chat: { burst: 5, perMinute: 10 },
+  transfer: { burst: 10, perMinute: 20 },
+  auth: { burst: 10, perMinute: 10 },
+  read: { burst: 60, perMinute: 300 },
+};
+
+// Limited clients remembered for the admin endpoint (the least recently limited are forgotten first)
+const MAX_LIMITED_CLIENTS = 1000;
+
+/**
+ * Read a positive number from the environment
+ */
+function envNumber(name: string, fallback: number): number {
+  const value = parseFloat(process.env[name] || "");
+  return value > 0 ? value : fallback;
+}
+
+const rules = Object.fromEntries(
+  RATE_LIMIT_BUCKETS.map((bucket) => {
+    const prefix = `RATE_LIMIT_${bucket.toUpperCase()}`;
+    return [
+      bucket,
+      {
+        burst: envNumber(`${prefix}_BURST`, DEFAULT_RULES[bucket].burst),
+        perMinute: envNumber(`${prefix}_PER_MINUTE`, DEFAULT_RULES[bucket].perMinute),
+      },
+    ];
+  })
+) as Record<RateLimitBucket, RateLimitRule>;
+
+let store: RateLimitStore | undefined;
+
+const counters = Object.fromEntries(
+  RATE_LIMIT_BUCKETS.map((bucket) => [bucket, { allowed: 0, limited: 0 }])
+) as Record<RateLimitBucket, RateLimitCounters>;
+
+const limitedClients = new Map<string, LimitedClient>();
+
+/**
+ * Get the rate limit store of the app handling the request (e.g. one shared by several instances),
+ * else the in-memory store, created on first use
+ */
+export function getRateLimitStore(): RateLimitStore {
+  const appStore = getDependencies().rateLimitStore;
+  if (appStore) {
+    return appStore;
+  }
+  if (!store) {
+    store = createMemoryRateLimitStore();
+  }
+  return store;
+}
+
+/**
+ * Limits of a bucket
+ */
+export function getRateLimitRule(bucket: RateLimitBucket): RateLimitRule {
+  return rules[bucket];
+}
+
+function recordLimited(key: string) {
+  const client = limitedClients.get(key);
+  limitedClients.delete(key);
+  limitedClients.set(key, { key, limited: (client?.limited || 0) + 1, lastLimitedAt: new Date() });
+
+  if (limitedClients.size > MAX_LIMITED_CLIENTS) {
+    limitedClients.delete(limitedClients.keys().next().value!);
+  }
+}
+
+/**
+ * Count a request against the buckets of its clients
+ * @param clients - Client identifiers, e.g. ["user:<id>", "ip:<address>"]; every one must be within its limit,
+ *                  else the request is refunded to the buckets that allowed it
+ * @returns the most restrictive result
+ */
+export async function consumeRateLimit(bucket: RateLimitBucket, clients: string[]): Promise<RateLimitResult> {
+  const rule = rules[bucket];
+  const now = Date.now();
+  const results = await Promise.all(
+    clients.map(async (client) => {
+      const key = `${bucket}:${client}`;
+      return { key, ...(await getRateLimitStore().consume(key, rule, now)) };
+    })
+  );
+
+  const denied = results.filter((result) => !result.allowed);
+  denied.forEach((result) => recordLimited(result.key));
+  // A refused request doesn't count against the other buckets, so a noisy IP address can't drain a user's bucket
+  if (denied.length > 0) {
+    await Promise.all(
+      results.filter((result) => result.allowed).map((result) => getRateLimitStore().refund(result.key, rule))
+    );
+  }
+  counters[bucket][denied.length > 0 ? "limited" : "allowed"]++;
+
+  return {
+    allowed: denied.length === 0,
+    remaining: Math.min(...results.map((result) => result.remaining)),
+    retryAfterMs: Math.max(0, ...results.map((result) => result.retryAfterMs)),
+  };
+}
+
+/**
+ * Limits and counters since the server started
+ */
+export function getRateLimitStats() {
+  return {
+    store: getRateLimitStore().name,
+    buckets: Object.fromEntries(
+      RATE_LIMIT_BUCKETS.map((bucket) => [bucket, { ...rules[bucket], ...counters[bucket] }])
+    ) as Record<RateLimitBucket, RateLimitRule & RateLimitCounters>,
+    limitedClients: [...limitedClients.values()].reverse(),
+  };
+}
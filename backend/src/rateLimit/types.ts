@@ -0,0 +1,58 @@
+/**
+ * Rate Limit Type Definitions
+ */
+
+/**
+ * Routes are limited per bucket:
+ * - chat: messages to the AI agent (each one costs LLM tokens and may propose transfers)
+ * - transfer: anything that moves funds or changes wallets, policies, orders or keys
+ * - auth: registration and login, limited per IP address since there is no user yet
+ * - read: everything else
+ */
+export type RateLimitBucket = "chat" | "transfer" | "auth" | "read";
+
+export const RATE_LIMIT_BUCKETS: RateLimitBucket[] = ["chat", "transfer", "auth", "read"];
+
+/**
+ * Token bucket: up to `burst` requests at once, refilled at `perMinute` requests per minute (the sustained rate)
+ */
+export interface RateLimitRule {
+  burst: number;
+  perMinute: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number; // Requests left right now
+  retryAfterMs: number; // Wait before the next request is allowed (0 when allowed)
+}
+
+/**
+ * Where the buckets are kept. The in-memory store serves a single process;
+ * implement this interface over a shared store (e.g. Redis) to limit across instances.
+ */
+export interface RateLimitStore {
+  name: string;
+  /**
+   * Take one request from the bucket of a key, creating a full bucket on first use
+   */
+  consume(key: string, rule: RateLimitRule, now: number): Promise<RateLimitResult>;
+  /**
+   * Give back a request taken from the bucket of a key, e.g. when another bucket refused it
+   */
+  refund(key: string, rule: RateLimitRule): Promise<void>;
+}
+
+export interface RateLimitCounters {
+  allowed: number;
+  limited: number;
+}
+
+/**
+ * Counters of a limited client, as shown on the admin endpoint
+ */
+export interface LimitedClient {
+  key: string; // e.g. "chat:user:<id>" or "auth:ip:<address>"
+  limited: number;
+  lastLimitedAt: Date;
+}
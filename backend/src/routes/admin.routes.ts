@@ -0,0 +1,30 @@
+/**
+ * Admin Routes
+ *
+ * Operational views for admin API keys
+ */
+
+import { Router, Request, Response, NextFunction } from "express";
+import { apiKeyAuth, requireScope } from "../middleware/auth";
+import { rateLimit } from "../middleware/rateLimit";
+import { getRateLimitStats } from "../rateLimit/rateLimit";
+
+const router = Router();
+
+// Apply API key authentication and the admin scope to all admin routes
+router.use(apiKeyAuth, requireScope("admin"), rateLimit("read"));
+
+/**
+ * GET /api/admin/rate-limits
+ * Limits of each bucket with the requests allowed and limited since the server started,
+ * and the clients that were limited most recently
+ */
+router.get("/rate-limits", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json({ success: true, data: getRateLimitStats() });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
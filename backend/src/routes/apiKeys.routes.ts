@@ -0,0 +1,116 @@
+/**
+ * API Key Routes
+ *
+ * Issue, rotate and revoke the API keys of the logged in user (requires an admin key)
+ */
+
+import { Router, Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { apiKeyAuth, canAccessWallet, requireScope, userAuth } from "../middleware/auth";
+import { rateLimit } from "../middleware/rateLimit";
+import { getApiKey, issueApiKey, listApiKeys, revokeApiKey, rotateApiKey } from "../apiKeys/apiKeys";
+import { API_KEY_SCOPES, ApiKeyInput } from "../apiKeys/types";
+import { ApiError } from "../middleware/errors";
+import { isoDate, parseRequest, requiredString } from "../middleware/validation";
+
+const router = Router();
+
+// Apply API key authentication, the admin scope and user authentication to all key routes
+router.use(apiKeyAuth, requireScope("admin"), userAuth);
+
+const apiKeyInputSchema = z.object({
+  name: requiredString("name"),
+  scopes: z
+    .array(z.enum(API_KEY_SCOPES), { error: `scopes must be a list of: ${API_KEY_SCOPES.join(", ")}` })
+    .min(1, `scopes must be a non-empty list of: ${API_KEY_SCOPES.join(", ")}`),
+  walletIds: z.array(z.string()).min(1, "walletIds must be a non-empty list of wallet IDs").optional(),
+  expiresAt: isoDate.refine((date) => date > new Date(), "expiresAt must be in the future").optional(),
+});
+
+/**
+ * Read a key request body
+ * @throws ApiError VALIDATION_ERROR when a field is invalid, NOT_FOUND for wallets the user can't access
+ */
+function parseApiKeyInput(req: Request): ApiKeyInput {
+  const { name, scopes, walletIds, expiresAt } = parseRequest(apiKeyInputSchema, req.body);
+
+  const foreignWalletId = walletIds?.find((walletId) => !canAccessWallet(req, walletId));
+  if (foreignWalletId !== undefined) {
+    throw new ApiError("NOT_FOUND", `Wallet ${foreignWalletId} not found`);
+  }
+
+  return { name, userId: req.user!.id, scopes, walletIds, expiresAt };
+}
+
+/**
+ * GET /api/keys
+ * List the user's keys (without their secrets)
+ */
+router.get("/", rateLimit("read"), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json({ success: true, data: listApiKeys(req.user!.id) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/keys
+ * Issue a key acting as the logged in user
+ * Body:
+ *   - name: what the key is for (required)
+ *   - scopes: any of "read", "transfer", "marketplace", "chat", "admin" (required)
+ *   - walletIds: only allow these wallets of the user (optional)
+ *   - expiresAt: ISO 8601 expiry date (optional, default: never)
+ * Returns the key once; only its hash is stored
+ */
+router.post("/", rateLimit("transfer"), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.status(201).json({ success: true, data: issueApiKey(parseApiKeyInput(req)) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Whether a key exists and belongs to the logged in user
+ */
+function ownsApiKey(req: Request, keyId: string): boolean {
+  return getApiKey(keyId)?.userId === req.user!.id;
+}
+
+/**
+ * POST /api/keys/:keyId/rotate
+ * Replace a key with a new secret and the same settings, revoking the old one
+ */
+router.post("/:keyId/rotate", rateLimit("transfer"), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const rotated = ownsApiKey(req, req.params.keyId) ? rotateApiKey(req.params.keyId) : undefined;
+
+    if (!rotated) {
+      throw new ApiError("NOT_FOUND", "API key not found or already revoked");
+    }
+
+    res.status(201).json({ success: true, data: rotated });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/keys/:keyId
+ * Revoke a key
+ */
+router.delete("/:keyId", rateLimit("transfer"), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!ownsApiKey(req, req.params.keyId)) {
+      throw new ApiError("NOT_FOUND", "API key not found");
+    }
+
+    res.json({ success: true, data: revokeApiKey(req.params.keyId) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
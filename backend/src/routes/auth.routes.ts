@@ -0,0 +1,113 @@
+/**
+ * Auth API Routes
+ *
+ * User registration and login sessions
+ */
+
+import { Router, Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { accessibleWalletIds, apiKeyAuth, userAuth } from "../middleware/auth";
+import { rateLimit } from "../middleware/rateLimit";
+import { ApiError } from "../middleware/errors";
+import { parseRequest } from "../middleware/validation";
+import {
+  MIN_PASSWORD_LENGTH,
+  authenticateUser,
+  createUser,
+  createUserSession,
+  deleteUserSession,
+} from "../users/users";
+import { User } from "../users/types";
+
+const router = Router();
+
+// Apply API key authentication to all auth routes
+router.use(apiKeyAuth);
+
+export const credentialsSchema = z.object({
+  email: z.string({ error: "A valid email is required" }).trim().pipe(z.email("A valid email is required")),
+  password: z.string({ error: "password is required" }).min(1, "password is required"),
+});
+
+export const registerSchema = credentialsSchema.extend({
+  password: z
+    .string({ error: "password is required" })
+    .min(MIN_PASSWORD_LENGTH, `password must be at least ${MIN_PASSWORD_LENGTH} characters`),
+});
+
+/**
+ * Start a session and build the login response
+ */
+function login(user: User) {
+  const { token, expiresAt } = createUserSession(user.id);
+  return { user, token, expiresAt };
+}
+
+/**
+ * POST /api/auth/register
+ * Create an account and log in
+ * Body:
+ *   - email: account email
+ *   - password: at least 8 characters
+ */
+router.post("/register", rateLimit("auth"), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { email, password } = parseRequest(registerSchema, req.body);
+
+    const user = createUser(email, password);
+    res.status(201).json({ success: true, data: login(user) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/auth/login
+ * Log in with email and password
+ * Returns a session token to send as Authorization: Bearer <token>
+ */
+router.post("/login", rateLimit("auth"), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { email, password } = parseRequest(credentialsSchema, req.body);
+
+    const user = authenticateUser(email, password);
+    if (!user) {
+      throw new ApiError("UNAUTHORIZED", "Invalid email or password");
+    }
+
+    res.json({ success: true, data: login(user) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/auth/logout
+ * End the current session (requests authenticated with a user's API key have none)
+ */
+router.post("/logout", userAuth, rateLimit("read"), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.sessionToken) {
+      throw new ApiError("VALIDATION_ERROR", "No login session to end: this request is authenticated with an API key");
+    }
+
+    deleteUserSession(req.sessionToken);
+    res.json({ success: true, data: { loggedOut: true } });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/auth/me
+ * The logged in user and the IDs of their wallets
+ */
+router.get("/me", userAuth, rateLimit("read"), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json({ success: true, data: { user: req.user, walletIds: accessibleWalletIds(req) } });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -4,11 +4,31 @@
  * Handles chat interactions with the AI agent
  */
 
-import { Router, Request, Response } from 'express';
-import { apiKeyAuth } from '../middleware/auth';
+import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { accessibleWalletIds, apiKeyAuth, canAccessWallet, requireScope, userAuth } from '../middleware/auth';
+import { rateLimit } from '../middleware/rateLimit';
 import { processMessage } from '../agent/agent';
 import { walletTools } from '../agent/tools/wallet.tools';
 import { marketplaceTools } from '../agent/tools/marketplace.tools';
+import {
+  createSession,
+  getSession,
+  listSessions,
+  deleteSession,
+  appendMessages,
+} from '../agent/sessions';
+import {
+  getPendingAction,
+  confirmPendingAction,
+  rejectPendingAction,
+} from '../agent/pendingActions';
+import { recordAgentTurn, listAgentTurns } from '../agent/audit';
+import { trackTurn } from '../agent/turns';
+import { AgentResponse, ConversationSession } from '../agent/types';
+import { ApiError, errorBody, toApiError } from '../middleware/errors';
+import { isoDate, parseRequest, requiredString } from '../middleware/validation';
+import { createLogger, withLogContext } from '../logging/logger';
 import dotenv from 'dotenv';
 
 dotenv.config();
@@ -20,54 +40,394 @@ const PRIMARY_WALLET_ID = process.env.PRIMARY_WALLET_ID;
 const SECONDARY_WALLET_ID = process.env.SECONDARY_WALLET_ID;
 
 const router = Router();
+const log = createLogger('chat');
+
+export const chatRequestSchema = z.object({
+  message: requiredString('message'),
+  walletId: z.string().min(1).optional(),
+  sessionId: z.string().min(1).optional(),
+});
+
+export const auditQuerySchema = z.object({
+  walletId: z.string().min(1).optional(),
+  tool: z.string().min(1).optional(),
+  from: isoDate.optional(),
+  to: isoDate.optional(),
+  limit: z.coerce.number().int().min(1).optional(),
+});
+
+export const sessionsQuerySchema = z.object({
+  walletId: z.string().min(1).optional(),
+});
+
+/**
+ * Whether a conversation session belongs to one of the logged in user's wallets
+ */
+function ownsSession(req: Request, session: ConversationSession | undefined): session is ConversationSession {
+  return !!session && canAccessWallet(req, session.walletId);
+}
+
+/**
+ * Validate a chat request body and resolve its conversation session.
+ * The wallet must be one of the user's; sessions of other users' wallets are reported as not found.
+ * A walletId sent with a sessionId must be the session's wallet.
+ * @throws ApiError when the request cannot be processed
+ */
+function resolveChatRequest(req: Request) {
+  const { message, walletId, sessionId } = parseRequest(chatRequestSchema, req.body);
+
+  // Use provided walletId, or the primary wallet from env when the user owns it, or the user's first wallet
+  const ownedWalletIds = accessibleWalletIds(req);
+  const activeWalletId =
+    walletId ||
+    (PRIMARY_WALLET_ID && ownedWalletIds.includes(PRIMARY_WALLET_ID) ? PRIMARY_WALLET_ID : ownedWalletIds[0]);
+
+  if (!activeWalletId) {
+    throw new ApiError('VALIDATION_ERROR', 'You have no wallets yet. Create a wallet before chatting with the agent.');
+  }
+
+  if (!ownedWalletIds.includes(activeWalletId)) {
+    throw new ApiError('NOT_FOUND', 'Wallet not found');
+  }
+
+  // Continue the requested session or start a new one
+  const session = sessionId ? getSession(sessionId) : createSession(activeWalletId);
+  if (!ownsSession(req, session)) {
+    throw new ApiError('NOT_FOUND', `Session ${sessionId} not found`);
+  }
+  // A session stays on its wallet: switching wallets takes a new session
+  if (walletId && walletId !== session.walletId) {
+    throw new ApiError('VALIDATION_ERROR', `Session ${sessionId} is on wallet ${session.walletId}; start a new session to use wallet ${walletId}`);
+  }
+
+  return { message, session, allowedWalletIds: ownedWalletIds };
+}
+
+/**
+ * Record a completed turn in the session and the audit trail, and build the response payload.
+ * Pending actions the agent created are linked to the session so their outcome can be recorded there.
+ */
+function completeTurn(
+  session: ConversationSession,
+  message: string,
+  agentResponse: AgentResponse,
+  startedAt: Date
+) {
+  recordAgentTurn(
+    { sessionId: session.id, walletId: session.walletId, request: message, startedAt },
+    agentResponse
+  );
+
+  appendMessages(
+    session,
+    { role: 'user', content: message },
+    { role: 'agent', content: agentResponse.message }
+  );
+
+  const pendingActions = agentResponse.actions.flatMap((action) =>
+    action.type === 'transfer_pending' || action.type === 'purchase_pending' ? [action.pendingAction] : []
+  );
+  pendingActions.forEach((action) => {
+    action.sessionId = session.id;
+  });
+
+  return {
+    response: agentResponse.message,
+    toolCalls: agentResponse.toolCalls,
+    actions: agentResponse.actions,
+    pendingActions,
+    sessionId: session.id,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+/**
+ * Run part of a chat turn with the session and wallet added to everything it logs
+ */
+function withSessionLogContext<T>(session: ConversationSession, fn: () => T): T {
+  return withLogContext({ sessionId: session.id, walletId: session.walletId }, fn);
+}
 
 /**
  * POST /api/chat
  * Send a message to the AI agent
+ * Returns the final text (response), the ordered tool calls with their structured results (toolCalls),
+ * typed action payloads such as ebook_list or purchase_pending (actions), and actions awaiting confirmation
+ * Body:
+ *   - message: The user message
+ *   - walletId: Optional wallet ID of the user (defaults to PRIMARY_WALLET_ID when the user owns it, else their first wallet)
+ *   - sessionId: Optional session ID to continue a conversation (a new session is created if omitted)
  */
-router.post('/', apiKeyAuth, async (req: Request, res: Response) => {
-  console.log('Received request to chat endpoint:', req.body);
+router.post('/', apiKeyAuth, userAuth, requireScope('chat'), rateLimit('chat'), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { message, walletId } = req.body;
-    console.log('Processing message:', message);
-
-    if (!message || typeof message !== 'string') {
-      return res.status(400).json({
-        success: false,
-        message: 'Message is required and must be a string',
-      });
-    }
+    const { message, session, allowedWalletIds } = resolveChatRequest(req);
+    const startedAt = new Date();
 
-    // Use provided walletId or default to primary wallet from env
-    const activeWalletId = walletId || PRIMARY_WALLET_ID;
-    
-    if (!activeWalletId) {
-      return res.status(500).json({
-        success: false,
-        message: 'PRIMARY_WALLET_ID environment variable is not set. Please configure it in your .env file.',
-      });
-    }
-    
     // Combine all available tools
     const allTools = [...walletTools, ...marketplaceTools];
 
-    // Process the message with the agent and tools
-    const response = await processMessage(message, activeWalletId, allTools);
-    console.log('Generated response:', response);
+    // Process the message with the agent, tools and conversation history
+    const turn = await trackTurn(
+      withSessionLogContext(session, async () => {
+        log.info('Chat message received', { message });
+        const agentResponse = await processMessage(message, session.walletId, allTools, {
+          history: session.messages,
+          summary: session.summary,
+          allowedWalletIds,
+        });
+        return completeTurn(session, message, agentResponse, startedAt);
+      })
+    );
+
+    res.json({ success: true, data: turn });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/chat/stream
+ * Send a message to the AI agent and stream the response as Server-Sent Events
+ * Body: same as POST /api/chat
+ * Events:
+ *   - session: { sessionId }
+ *   - token: { content } - model output delta
+ *   - tool_start: { id, name, args }
+ *   - tool_end: { id, name, result, error? } - result is a one-line summary
+ *   - final: { response, toolCalls, actions, pendingActions, sessionId, timestamp }
+ *   - error: { success: false, error, code, details? } - same envelope as failed requests
+ */
+router.post('/stream', apiKeyAuth, userAuth, requireScope('chat'), rateLimit('chat'), async (req: Request, res: Response, next: NextFunction) => {
+  let chatRequest;
+  try {
+    chatRequest = resolveChatRequest(req);
+  } catch (error) {
+    return next(error);
+  }
+
+  const { message, session, allowedWalletIds } = chatRequest;
+  const startedAt = new Date();
+
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.flushHeaders();
+
+  // Keep processing if the client disconnects (a transfer may be in flight), just stop writing
+  let clientClosed = false;
+  res.on('close', () => {
+    clientClosed = true;
+  });
+
+  const sendEvent = (event: string, data: any) => {
+    if (clientClosed) return;
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  try {
+    sendEvent('session', { sessionId: session.id });
+
+    const allTools = [...walletTools, ...marketplaceTools];
+
+    const turn = await trackTurn(
+      withSessionLogContext(session, async () => {
+        log.info('Chat message received', { message, stream: true });
+        const agentResponse = await processMessage(message, session.walletId, allTools, {
+          history: session.messages,
+          summary: session.summary,
+          allowedWalletIds,
+          onEvent: ({ type, ...data }) => sendEvent(type, data),
+        });
+        return completeTurn(session, message, agentResponse, startedAt);
+      })
+    );
+
+    sendEvent('final', turn);
+  } catch (error) {
+    log.error('Chat stream failed', { sessionId: session.id, error });
+    sendEvent('error', errorBody(toApiError(error)));
+  } finally {
+    res.end();
+  }
+});
+
+/**
+ * Validate that an action exists, was proposed for one of the user's wallets and is still pending
+ * @throws ApiError NOT_FOUND or CONFLICT otherwise
+ */
+function checkActionIsPending(req: Request) {
+  const action = getPendingAction(req.params.actionId);
+
+  if (!action || !canAccessWallet(req, action.walletId)) {
+    throw new ApiError('NOT_FOUND', 'Action not found');
+  }
+
+  if (action.status !== 'pending') {
+    throw new ApiError('CONFLICT', `Action is ${action.status} and can no longer be confirmed or rejected`);
+  }
+}
+
+/**
+ * Record the outcome of an action in its conversation so the agent knows about it next turn
+ */
+function recordActionOutcome(sessionId: string | undefined, content: string) {
+  const session = sessionId ? getSession(sessionId) : undefined;
+  if (session) {
+    appendMessages(session, { role: 'agent', content });
+  }
+}
+
+/**
+ * GET /api/chat/actions/:actionId
+ * Get a pending action
+ */
+router.get('/actions/:actionId', apiKeyAuth, userAuth, requireScope('read', 'chat'), rateLimit('read'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const action = getPendingAction(req.params.actionId);
+
+    if (!action || !canAccessWallet(req, action.walletId)) {
+      throw new ApiError('NOT_FOUND', 'Action not found');
+    }
+
+    res.json({ success: true, data: action });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/chat/actions/:actionId/confirm
+ * Confirm a pending transfer or purchase and execute it
+ * Moves funds, so the API key needs both the chat and transfer scopes
+ */
+router.post(
+  '/actions/:actionId/confirm',
+  apiKeyAuth,
+  userAuth,
+  requireScope('chat'),
+  requireScope('transfer'),
+  rateLimit('transfer'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { actionId } = req.params;
+      checkActionIsPending(req);
+
+      const action = await confirmPendingAction(actionId);
+      recordActionOutcome(
+        action.sessionId,
+        action.status === 'failed'
+          ? `The user confirmed the ${action.type}, but it failed: ${action.result?.message}`
+          : `The user confirmed the ${action.type}. ${action.result?.message}`
+      );
+
+      res.json({ success: true, data: action });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /api/chat/actions/:actionId/reject
+ * Reject a pending transfer or purchase
+ */
+router.post('/actions/:actionId/reject', apiKeyAuth, userAuth, requireScope('chat'), rateLimit('read'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { actionId } = req.params;
+    checkActionIsPending(req);
+
+    const action = rejectPendingAction(actionId);
+    recordActionOutcome(action.sessionId, `The user rejected the ${action.type}. No funds were sent.`);
+
+    res.json({ success: true, data: action });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/chat/audit
+ * List audited agent turns of the user's wallets (most recent first) with each tool call's args, result, duration and error
+ * Query params:
+ *   - walletId: Optional wallet ID filter
+ *   - tool: Optional tool name filter (e.g. transfer_tokens)
+ *   - from, to: Optional ISO 8601 date range
+ *   - limit: Optional maximum number of turns (default: 50, max: 500)
+ */
+router.get('/audit', apiKeyAuth, userAuth, requireScope('read', 'chat'), rateLimit('read'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { walletId, tool, from, to, limit } = parseRequest(auditQuerySchema, req.query);
+    if (walletId && !canAccessWallet(req, walletId)) {
+      throw new ApiError('NOT_FOUND', 'Wallet not found');
+    }
+
+    const turns = listAgentTurns({ walletId, walletIds: accessibleWalletIds(req), tool, from, to, limit });
+
+    res.json({ success: true, data: turns });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/chat/sessions
+ * List the conversation sessions of the user's wallets
+ * Query params:
+ *   - walletId: Optional wallet ID filter
+ */
+router.get('/sessions', apiKeyAuth, userAuth, requireScope('read', 'chat'), rateLimit('read'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { walletId } = parseRequest(sessionsQuerySchema, req.query);
+    const sessions = listSessions(walletId).filter((session) =>
+      ownsSession(req, session)
+    );
 
     res.json({
       success: true,
-      data: {
-        response,
-        timestamp: new Date().toISOString(),
-      },
-    });
-  } catch (error: any) {
-    console.error('Error in chat endpoint:', error);
-    res.status(500).json({
-      success: false,
-      message: error.message || 'Internal server error',
+      data: sessions.map((session) => ({
+        id: session.id,
+        walletId: session.walletId,
+        messageCount: session.messages.length,
+        createdAt: session.createdAt,
+        updatedAt: session.updatedAt,
+      })),
     });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/chat/sessions/:sessionId
+ * Get a conversation session with its message history
+ */
+router.get('/sessions/:sessionId', apiKeyAuth, userAuth, requireScope('read', 'chat'), rateLimit('read'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const session = getSession(req.params.sessionId);
+
+    if (!ownsSession(req, session)) {
+      throw new ApiError('NOT_FOUND', 'Session not found');
+    }
+
+    res.json({ success: true, data: session });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/chat/sessions/:sessionId
+ * Delete a conversation session
+ */
+router.delete('/sessions/:sessionId', apiKeyAuth, userAuth, requireScope('chat'), rateLimit('read'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!ownsSession(req, getSession(req.params.sessionId)) || !deleteSession(req.params.sessionId)) {
+      throw new ApiError('NOT_FOUND', 'Session not found');
+    }
+
+    res.json({ success: true, data: { sessionId: req.params.sessionId, deleted: true } });
+  } catch (error) {
+    next(error);
   }
 });
 
@@ -0,0 +1,31 @@
+/**
+ * API Documentation Routes
+ *
+ * The OpenAPI document and a Swagger UI to browse and try the API.
+ * Public: the document describes the routes, it holds no data.
+ */
+
+import { Router, Request, Response } from "express";
+import swaggerUi from "swagger-ui-express";
+import { buildOpenApiDocument } from "../openapi/document";
+
+const router = Router();
+
+// The routes don't change while the server runs
+const document = buildOpenApiDocument();
+
+/**
+ * GET /api/openapi.json
+ * OpenAPI 3 document of the API
+ */
+router.get("/openapi.json", (req: Request, res: Response) => {
+  res.json(document);
+});
+
+/**
+ * GET /api/docs
+ * Swagger UI for the OpenAPI document
+ */
+router.use("/docs", swaggerUi.serve, swaggerUi.setup(document, { swaggerOptions: { persistAuthorization: true } }));
+
+export default router;
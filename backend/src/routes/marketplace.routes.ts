@@ -4,23 +4,50 @@
  * Handles marketplace-related API endpoints
  */
 
-import { Router, Request, Response } from 'express';
-import { apiKeyAuth } from '../middleware/auth';
+import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { apiKeyAuth, canAccessWallet, requireScope, userAuth } from '../middleware/auth';
+import { rateLimit } from '../middleware/rateLimit';
 import { getAllEbooks, searchEbooks, findEbookById } from '../marketplace/catalog';
 import { getMarketplaceConfig, getPurchasedEbooks, isEbookPurchased } from '../marketplace/marketplace';
+import { getOrder, listOrders, syncOrder } from '../marketplace/orders';
+import { ApiError } from '../middleware/errors';
+import { parseRequest, requiredString } from '../middleware/validation';
 
 const router = Router();
 
+export const walletQuerySchema = z.object({
+  walletId: requiredString('walletId'),
+});
+
+export const searchQuerySchema = z.object({
+  q: requiredString('q'),
+});
+
+/**
+ * Read the walletId query parameter, which must be a wallet of the logged in user
+ * @throws ApiError VALIDATION_ERROR when it's missing, NOT_FOUND for other users' wallets
+ */
+function resolveWalletQuery(req: Request): string {
+  const { walletId } = parseRequest(walletQuerySchema, req.query);
+
+  if (!canAccessWallet(req, walletId)) {
+    throw new ApiError('NOT_FOUND', 'Wallet not found');
+  }
+
+  return walletId;
+}
+
 /**
  * GET /api/marketplace/ebooks
  * Get all available e-books
  */
-router.get('/ebooks', apiKeyAuth, async (req: Request, res: Response) => {
+router.get('/ebooks', apiKeyAuth, userAuth, requireScope('read', 'marketplace'), rateLimit('read'), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const ebooks = getAllEbooks();
     res.json({ success: true, data: ebooks });
-  } catch (error: any) {
-    res.status(500).json({ success: false, error: error.message });
+  } catch (error) {
+    next(error);
   }
 });
 
@@ -28,21 +55,14 @@ router.get('/ebooks', apiKeyAuth, async (req: Request, res: Response) => {
  * GET /api/marketplace/ebooks/search
  * Search e-books by query
  */
-router.get('/ebooks/search', apiKeyAuth, async (req: Request, res: Response) => {
+router.get('/ebooks/search', apiKeyAuth, userAuth, requireScope('read', 'marketplace'), rateLimit('read'), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { q } = req.query;
-    
-    if (!q || typeof q !== 'string') {
-      return res.status(400).json({
-        success: false,
-        error: 'Query parameter "q" is required',
-      });
-    }
+    const { q } = parseRequest(searchQuerySchema, req.query);
 
     const results = searchEbooks(q);
     res.json({ success: true, data: results });
-  } catch (error: any) {
-    res.status(500).json({ success: false, error: error.message });
+  } catch (error) {
+    next(error);
   }
 });
 
@@ -50,21 +70,18 @@ router.get('/ebooks/search', apiKeyAuth, async (req: Request, res: Response) =>
  * GET /api/marketplace/ebooks/:id
  * Get specific e-book by ID
  */
-router.get('/ebooks/:id', apiKeyAuth, async (req: Request, res: Response) => {
+router.get('/ebooks/:id', apiKeyAuth, userAuth, requireScope('read', 'marketplace'), rateLimit('read'), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
     const ebook = findEbookById(id);
     
     if (!ebook) {
-      return res.status(404).json({
-        success: false,
-        error: 'E-book not found',
-      });
+      throw new ApiError('NOT_FOUND', 'E-book not found');
     }
 
     res.json({ success: true, data: ebook });
-  } catch (error: any) {
-    res.status(500).json({ success: false, error: error.message });
+  } catch (error) {
+    next(error);
   }
 });
 
@@ -72,12 +89,12 @@ router.get('/ebooks/:id', apiKeyAuth, async (req: Request, res: Response) => {
  * GET /api/marketplace/config
  * Get marketplace configuration
  */
-router.get('/config', apiKeyAuth, async (req: Request, res: Response) => {
+router.get('/config', apiKeyAuth, userAuth, requireScope('read', 'marketplace'), rateLimit('read'), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const config = getMarketplaceConfig();
     res.json({ success: true, data: config });
-  } catch (error: any) {
-    res.status(500).json({ success: false, error: error.message });
+  } catch (error) {
+    next(error);
   }
 });
 
@@ -85,22 +102,15 @@ router.get('/config', apiKeyAuth, async (req: Request, res: Response) => {
  * GET /api/marketplace/purchased
  * Get all purchased e-books for a wallet
  */
-router.get('/purchased', apiKeyAuth, async (req: Request, res: Response) => {
+router.get('/purchased', apiKeyAuth, userAuth, requireScope('read', 'marketplace'), rateLimit('read'), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { walletId } = req.query;
-    
-    if (!walletId || typeof walletId !== 'string') {
-      return res.status(400).json({
-        success: false,
-        error: 'walletId query parameter is required',
-      });
-    }
+    const walletId = resolveWalletQuery(req);
 
     const purchasedEbooks = getPurchasedEbooks(walletId);
     
     res.json({ success: true, data: purchasedEbooks });
-  } catch (error: any) {
-    res.status(500).json({ success: false, error: error.message });
+  } catch (error) {
+    next(error);
   }
 });
 
@@ -108,23 +118,49 @@ router.get('/purchased', apiKeyAuth, async (req: Request, res: Response) => {
  * GET /api/marketplace/ebooks/:id/purchased
  * Check if a specific e-book is purchased
  */
-router.get('/ebooks/:id/purchased', apiKeyAuth, async (req: Request, res: Response) => {
+router.get('/ebooks/:id/purchased', apiKeyAuth, userAuth, requireScope('read', 'marketplace'), rateLimit('read'), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
-    const { walletId } = req.query;
-    
-    if (!walletId || typeof walletId !== 'string') {
-      return res.status(400).json({
-        success: false,
-        error: 'walletId query parameter is required',
-      });
-    }
+    const walletId = resolveWalletQuery(req);
 
     const isPurchased = isEbookPurchased(walletId, id);
     res.json({ success: true, data: { ebookId: id, purchased: isPurchased } });
-  } catch (error: any) {
-    res.status(500).json({ success: false, error: error.message });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/marketplace/orders
+ * List the purchase orders of a wallet
+ */
+router.get('/orders', apiKeyAuth, userAuth, requireScope('read', 'marketplace'), rateLimit('read'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const walletId = resolveWalletQuery(req);
+
+    res.json({ success: true, data: listOrders(walletId) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/marketplace/orders/:id
+ * Get a purchase order, checking its payment first when it's still settling
+ * Status: created, payment_submitted, paid, fulfilled, failed or refunded
+ */
+router.get('/orders/:id', apiKeyAuth, userAuth, requireScope('read', 'marketplace'), rateLimit('read'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const order = getOrder(req.params.id);
+
+    if (!order || !canAccessWallet(req, order.walletId)) {
+      throw new ApiError('NOT_FOUND', 'Order not found');
+    }
+
+    res.json({ success: true, data: await syncOrder(order) });
+  } catch (error) {
+    next(error);
   }
 });
 
-export default router;
\ No newline at end of file
+export default router;
@@ -0,0 +1,30 @@
+/**
+ * Metrics Route
+ *
+ * Prometheus metrics (see metrics/metrics.ts) for admin API keys
+ */
+
+import { Router, Request, Response, NextFunction } from "express";
+import { apiKeyAuth, requireScope } from "../middleware/auth";
+import { rateLimit } from "../middleware/rateLimit";
+import { registry } from "../metrics/metrics";
+
+const router = Router();
+
+// Prometheus sends the key as Authorization: Bearer <key>
+router.use(apiKeyAuth, requireScope("admin"), rateLimit("read"));
+
+/**
+ * GET /metrics
+ * Metrics in the Prometheus text format
+ */
+router.get("/", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.setHeader("Content-Type", registry.contentType);
+    res.send(await registry.metrics());
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
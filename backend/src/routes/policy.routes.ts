@@ -0,0 +1,118 @@
+/**
+ * Spending Policy API Routes
+ *
+ * Manage per-wallet spending policies enforced on every outgoing transfer
+ */
+
+import { Router, Request, Response, NextFunction } from "express";
+import { accessibleWalletIds, apiKeyAuth, requireScope, requireWalletOwner, userAuth } from "../middleware/auth";
+import { rateLimit } from "../middleware/rateLimit";
+import {
+  listPolicies,
+  getPolicy,
+  setPolicy,
+  deletePolicy,
+  spendingPolicySchema,
+} from "../policy/policy";
+import { evaluateTransferPolicy } from "../wallet/walletManager";
+import { ApiError } from "../middleware/errors";
+import { parseRequest, transferRequestSchema } from "../middleware/validation";
+
+const router = Router();
+
+// Apply API key and user authentication to all policy routes
+router.use(apiKeyAuth, userAuth);
+
+// Only the owner of a wallet may see or change its policy
+router.param("walletId", requireWalletOwner);
+
+/**
+ * GET /api/policies
+ * List the spending policies of the logged in user's wallets
+ */
+router.get("/", requireScope("read"), rateLimit("read"), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const ownedWalletIds = new Set(accessibleWalletIds(req));
+    res.json({ success: true, data: listPolicies().filter((policy) => ownedWalletIds.has(policy.walletId)) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/policies/:walletId
+ * Get the spending policy of a wallet
+ */
+router.get("/:walletId", requireScope("read"), rateLimit("read"), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const policy = getPolicy(req.params.walletId);
+
+    if (!policy) {
+      throw new ApiError("NOT_FOUND", "No policy set for this wallet");
+    }
+
+    res.json({ success: true, data: policy });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /api/policies/:walletId
+ * Create or replace the spending policy of a wallet
+ * Requires the admin scope, so a transfer key can't lift its own limits
+ * Body (all optional):
+ *   - enabled: boolean (default: true)
+ *   - token: registry symbol or Circle token ID the limits are in (default: "USDC")
+ *   - maxPerTransaction, dailyLimit, weeklyLimit: positive decimal strings (e.g. "2.5")
+ *   - allowlist, denylist: arrays of destination addresses
+ *   - marketplaceOnly: boolean
+ *   - quietHours: { start: "HH:MM", end: "HH:MM", timezone?: IANA time zone }
+ */
+router.put("/:walletId", requireScope("admin"), rateLimit("transfer"), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const policy = setPolicy(req.params.walletId, parseRequest(spendingPolicySchema, req.body));
+    res.json({ success: true, data: policy });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/policies/:walletId
+ * Remove the spending policy of a wallet
+ * Requires the admin scope, like PUT
+ */
+router.delete("/:walletId", requireScope("admin"), rateLimit("transfer"), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!deletePolicy(req.params.walletId)) {
+      throw new ApiError("NOT_FOUND", "No policy set for this wallet");
+    }
+
+    res.json({ success: true, data: { walletId: req.params.walletId, deleted: true } });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/policies/:walletId/evaluate
+ * Check whether a transfer would be allowed without sending it
+ * Body:
+ *   - tokenId: Token ID to transfer, or its symbol from the token registry (e.g., "USDC")
+ *   - destinationAddress: Destination wallet address
+ *   - amount: Amount to transfer (as string)
+ */
+router.post("/:walletId/evaluate", requireScope("read"), rateLimit("read"), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { walletId } = req.params;
+    const { tokenId, destinationAddress, amount } = parseRequest(transferRequestSchema, req.body);
+
+    const decision = await evaluateTransferPolicy(walletId, tokenId, destinationAddress, amount);
+    res.json({ success: true, data: decision });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
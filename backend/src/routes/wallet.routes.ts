@@ -2,32 +2,190 @@
  * Wallet API Routes
  */
 
-import { Router, Request, Response } from "express";
+import { Router, Request, Response, NextFunction } from "express";
+import { z } from "zod";
 import {
   listAllWallets,
+  listWallets,
+  listWalletSets,
+  createWalletSet,
+  createWallets,
+  updateWallet,
   getWallet,
   listTransactions,
   getTransaction,
   getWalletBalance,
   transferTokens,
+  estimateTransferFee,
 } from "../wallet/walletManager";
-import { apiKeyAuth } from "../middleware/auth";
+import {
+  accessibleWalletIds,
+  apiKeyAuth,
+  canAccessWallet,
+  requireScope,
+  requireWalletOwner,
+  userAuth,
+} from "../middleware/auth";
+import { rateLimit } from "../middleware/rateLimit";
+import { ApiError } from "../middleware/errors";
+import {
+  commaSeparatedList,
+  isoDate,
+  parseRequest,
+  requiredString,
+  transferRequestSchema,
+} from "../middleware/validation";
+import { assignWallet, assignWalletSet, listOwnedWalletSetIds, ownsWalletSet } from "../users/ownership";
+import { TransactionFilters } from "../wallet/types";
 
 const router = Router();
 
-// Apply API key authentication to all wallet routes
-router.use(apiKeyAuth);
+// Largest transaction page the Circle API returns
+const MAX_PAGE_SIZE = 50;
+
+// Most wallets a single create request may provision
+const MAX_WALLET_COUNT = 20;
+
+// Wallet name and reference ID; blank values are dropped
+export const walletMetadataSchema = z.object({
+  name: z.string().trim().optional().transform((value) => value || undefined),
+  refId: z.string().trim().optional().transform((value) => value || undefined),
+});
+
+export const createWalletsSchema = walletMetadataSchema.extend({
+  walletSetId: requiredString("walletSetId"),
+  blockchains: z
+    .array(z.string().min(1), { error: "blockchains must be a list of blockchain codes" })
+    .min(1, "blockchains must be a non-empty list of blockchain codes"),
+  count: z.number().int().min(1).max(MAX_WALLET_COUNT).default(1),
+  accountType: z.enum(["SCA", "EOA"]).default("SCA"),
+});
+
+export const createWalletSetSchema = z.object({
+  name: requiredString("name"),
+});
+
+export const updateWalletSchema = walletMetadataSchema.refine(
+  (metadata) => metadata.name !== undefined || metadata.refId !== undefined,
+  "Provide a name or refId"
+);
+
+export const listWalletsQuerySchema = z.object({
+  walletSetId: z.string().min(1).optional(),
+});
+
+export const balanceQuerySchema = z.object({
+  tokenAddress: z.string().min(1).optional(),
+});
+
+export const transactionFiltersSchema = z
+  .object({
+    transactionType: z.enum(["INBOUND", "OUTBOUND"]).optional(),
+    state: z.string().min(1).optional(),
+    from: isoDate.optional(),
+    to: isoDate.optional(),
+    pageSize: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).optional(),
+    pageBefore: z.string().min(1).optional(),
+    pageAfter: z.string().min(1).optional(),
+    tokenId: z.string().min(1).optional(),
+    destinationAddress: z.string().min(1).optional(),
+  })
+  .refine((filters) => !(filters.pageBefore && filters.pageAfter), "Use either pageBefore or pageAfter, not both");
+
+export const walletIdsQuerySchema = z.object({
+  walletIds: commaSeparatedList,
+});
+
+export const transferSchema = transferRequestSchema.extend({
+  feeLevel: z.enum(["LOW", "MEDIUM", "HIGH"]).default("MEDIUM"),
+  idempotencyKey: z.uuid().optional(),
+});
+
+// Apply API key and user authentication to all wallet routes
+router.use(apiKeyAuth, userAuth);
+
+// Only the owner of a wallet may read it or move its funds
+router.param("walletId", requireWalletOwner);
 
 /**
  * GET /api/wallets
- * List all wallets
+ * List the wallets of the logged in user
+ * Query params:
+ *   - walletSetId: only list the wallets of this wallet set
+ */
+router.get("/", requireScope("read"), rateLimit("read"), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { walletSetId } = parseRequest(listWalletsQuerySchema, req.query);
+    const wallets = walletSetId ? await listWallets(walletSetId) : await listAllWallets();
+    const ownedWalletIds = new Set(accessibleWalletIds(req));
+    res.json({ success: true, data: (wallets || []).filter((wallet) => ownedWalletIds.has(wallet.id)) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/wallets
+ * Create wallets in a wallet set; the logged in user owns the created wallets
+ * Body:
+ *   - walletSetId: wallet set of the user to create the wallets in (required)
+ *   - blockchains: blockchain codes, e.g. ["ARC-TESTNET"] (required)
+ *   - count: wallets per blockchain, 1-20 (default: 1)
+ *   - accountType: "SCA" | "EOA" (default: "SCA")
+ *   - name, refId: metadata given to every created wallet
+ */
+router.post("/", requireScope("transfer"), rateLimit("transfer"), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { walletSetId, blockchains, count, accountType, name, refId } = parseRequest(createWalletsSchema, req.body);
+    if (!ownsWalletSet(req.user!.id, walletSetId)) {
+      throw new ApiError("NOT_FOUND", "Wallet set not found");
+    }
+
+    const wallets = await createWallets(
+      walletSetId,
+      blockchains,
+      count,
+      accountType,
+      name || refId ? { name, refId } : undefined
+    );
+    wallets?.forEach((wallet) => assignWallet(req.user!.id, wallet.id));
+    res.status(201).json({ success: true, data: wallets });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/wallets/sets
+ * List the wallet sets of the logged in user
+ */
+router.get("/sets", requireScope("read"), rateLimit("read"), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const walletSets = await listWalletSets();
+    const ownedWalletSetIds = new Set(listOwnedWalletSetIds(req.user!.id));
+    res.json({ success: true, data: (walletSets || []).filter((walletSet) => ownedWalletSetIds.has(walletSet.id)) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/wallets/sets
+ * Create a wallet set
+ * Body:
+ *   - name: wallet set name (required)
  */
-router.get("/", async (req: Request, res: Response) => {
+router.post("/sets", requireScope("transfer"), rateLimit("transfer"), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const wallets = await listAllWallets();
-    res.json({ success: true, data: wallets });
-  } catch (error: any) {
-    res.status(500).json({ success: false, error: error.message });
+    const { name } = parseRequest(createWalletSetSchema, req.body);
+
+    const walletSet = await createWalletSet(name);
+    if (walletSet) {
+      assignWalletSet(req.user!.id, walletSet.id);
+    }
+    res.status(201).json({ success: true, data: walletSet });
+  } catch (error) {
+    next(error);
   }
 });
 
@@ -35,13 +193,31 @@ router.get("/", async (req: Request, res: Response) => {
  * GET /api/wallets/:walletId
  * Get wallet details by ID
  */
-router.get("/:walletId", async (req: Request, res: Response) => {
+router.get("/:walletId", requireScope("read"), rateLimit("read"), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { walletId } = req.params;
     const wallet = await getWallet(walletId);
     res.json({ success: true, data: wallet });
-  } catch (error: any) {
-    res.status(500).json({ success: false, error: error.message });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PATCH /api/wallets/:walletId
+ * Set the name and/or reference ID of a wallet
+ * Body:
+ *   - name, refId: new values (at least one)
+ */
+router.patch("/:walletId", requireScope("transfer"), rateLimit("transfer"), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { walletId } = req.params;
+    const metadata = parseRequest(updateWalletSchema, req.body);
+
+    const wallet = await updateWallet(walletId, metadata);
+    res.json({ success: true, data: wallet });
+  } catch (error) {
+    next(error);
   }
 });
 
@@ -49,71 +225,72 @@ router.get("/:walletId", async (req: Request, res: Response) => {
  * GET /api/wallets/:walletId/balance
  * Get wallet balance
  */
-router.get("/:walletId/balance", async (req: Request, res: Response) => {
+router.get("/:walletId/balance", requireScope("read"), rateLimit("read"), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { walletId } = req.params;
-    const { tokenAddress } = req.query;
-    const balance = await getWalletBalance(
-      walletId,
-      tokenAddress as string | undefined
-    );
+    const { tokenAddress } = parseRequest(balanceQuerySchema, req.query);
+    const balance = await getWalletBalance(walletId, tokenAddress);
     res.json({ success: true, data: balance });
-  } catch (error: any) {
-    res.status(500).json({ success: false, error: error.message });
+  } catch (error) {
+    next(error);
   }
 });
 
+/**
+ * Read the transaction list filters from the query string
+ * @throws ApiError VALIDATION_ERROR when a parameter is invalid
+ */
+function parseTransactionFilters(query: Request["query"]): TransactionFilters {
+  const { from, to, ...filters } = parseRequest(transactionFiltersSchema, query);
+  return { ...filters, from: from?.toISOString(), to: to?.toISOString() };
+}
+
 /**
  * GET /api/wallets/:walletId/transactions
- * List transactions for a wallet
+ * List transactions for a wallet, newest first
  * Query params:
  *   - transactionType: "INBOUND" | "OUTBOUND"
  *   - state: transaction state filter
+ *   - from, to: ISO 8601 date range (inclusive)
+ *   - tokenId, destinationAddress: token / recipient filters
+ *   - pageSize: 1-50 (default: 10)
+ *   - pageAfter: ID of the last transaction received, to get older transactions
+ *   - pageBefore: ID of the first transaction received, to get newer transactions
  */
-router.get("/:walletId/transactions", async (req: Request, res: Response) => {
+router.get("/:walletId/transactions", requireScope("read"), rateLimit("read"), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { walletId } = req.params;
-    const { transactionType, state } = req.query;
+    const filters = parseTransactionFilters(req.query);
 
-    const transactions = await listTransactions(
-      [walletId],
-      transactionType as "INBOUND" | "OUTBOUND" | undefined,
-      state as string | undefined
-    );
+    const transactions = await listTransactions([walletId], filters);
     res.json({ success: true, data: transactions });
-  } catch (error: any) {
-    res.status(500).json({ success: false, error: error.message });
+  } catch (error) {
+    next(error);
   }
 });
 
 /**
  * GET /api/transactions
- * List transactions for multiple wallets
+ * List transactions for multiple wallets, newest first
  * Query params:
  *   - walletIds: comma-separated wallet IDs
- *   - transactionType: "INBOUND" | "OUTBOUND"
- *   - state: transaction state filter
+ *   - same filters and cursors as /:walletId/transactions
  */
-router.get("/transactions/all", async (req: Request, res: Response) => {
+router.get("/transactions/all", requireScope("read"), rateLimit("read"), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { walletIds, transactionType, state } = req.query;
+    const { walletIds } = parseRequest(walletIdsQuerySchema, req.query);
+    const filters = parseTransactionFilters(req.query);
 
-    if (!walletIds) {
-      return res
-        .status(400)
-        .json({ success: false, error: "walletIds query parameter is required" });
+    const ownedWalletIds = new Set(accessibleWalletIds(req));
+    const foreignWalletId = walletIds.find((id) => !ownedWalletIds.has(id));
+    if (foreignWalletId) {
+      throw new ApiError("NOT_FOUND", `Wallet ${foreignWalletId} not found`);
     }
 
-    const walletIdsArray = (walletIds as string).split(",").map((id) => id.trim());
-
-    const transactions = await listTransactions(
-      walletIdsArray,
-      transactionType as "INBOUND" | "OUTBOUND" | undefined,
-      state as string | undefined
-    );
+    const transactions = await listTransactions(walletIds, filters);
     res.json({ success: true, data: transactions });
-  } catch (error: any) {
-    res.status(500).json({ success: false, error: error.message });
+  } catch (error) {
+    next(error);
   }
 });
 
@@ -121,13 +298,36 @@ router.get("/transactions/all", async (req: Request, res: Response) => {
  * GET /api/transactions/:transactionId
  * Get a specific transaction by ID
  */
-router.get("/transactions/:transactionId", async (req: Request, res: Response) => {
+router.get("/transactions/:transactionId", requireScope("read"), rateLimit("read"), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { transactionId } = req.params;
     const transaction = await getTransaction(transactionId);
+    if (!transaction?.walletId || !canAccessWallet(req, transaction.walletId)) {
+      throw new ApiError("NOT_FOUND", "Transaction not found");
+    }
     res.json({ success: true, data: transaction });
-  } catch (error: any) {
-    res.status(500).json({ success: false, error: error.message });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/wallets/:walletId/transfer/estimate
+ * Estimate the network fee and total cost of a transfer at each fee level
+ * Body:
+ *   - tokenId: Token ID to transfer, or a token symbol (e.g., "EURC")
+ *   - destinationAddress: Destination wallet address
+ *   - amount: Amount to transfer (as string)
+ */
+router.post("/:walletId/transfer/estimate", requireScope("read"), rateLimit("read"), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { walletId } = req.params;
+    const { tokenId, destinationAddress, amount } = parseRequest(transferRequestSchema, req.body);
+
+    const estimate = await estimateTransferFee(walletId, tokenId, destinationAddress, amount);
+    res.json({ success: true, data: estimate });
+  } catch (error) {
+    next(error);
   }
 });
 
@@ -135,37 +335,22 @@ router.get("/transactions/:transactionId", async (req: Request, res: Response) =
  * POST /api/wallets/:walletId/transfer
  * Transfer tokens from a wallet to another address
  * Body:
- *   - tokenId: Token ID to transfer
+ *   - tokenId: Token ID to transfer, or a token symbol (e.g., "EURC")
  *   - destinationAddress: Destination wallet address
  *   - amount: Amount to transfer (as string)
  *   - feeLevel: "LOW", "MEDIUM", or "HIGH" (optional, default: "MEDIUM")
  *   - idempotencyKey: Optional UUID v4 (auto-generated if not provided)
  */
-router.post("/:walletId/transfer", async (req: Request, res: Response) => {
+router.post("/:walletId/transfer", requireScope("transfer"), rateLimit("transfer"), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { walletId } = req.params;
-    const { tokenId, destinationAddress, amount, feeLevel, idempotencyKey } = req.body;
-
-    // Validate required fields
-    if (!tokenId || !destinationAddress || !amount) {
-      return res.status(400).json({
-        success: false,
-        error: "Missing required fields: tokenId, destinationAddress, and amount are required",
-      });
-    }
+    const { tokenId, destinationAddress, amount, feeLevel, idempotencyKey } = parseRequest(transferSchema, req.body);
 
-    const result = await transferTokens(
-      walletId,
-      tokenId,
-      destinationAddress,
-      amount,
-      feeLevel || "MEDIUM",
-      idempotencyKey
-    );
+    const result = await transferTokens(walletId, tokenId, destinationAddress, amount, feeLevel, idempotencyKey);
 
     res.json({ success: true, data: result });
-  } catch (error: any) {
-    res.status(500).json({ success: false, error: error.message });
+  } catch (error) {
+    next(error);
   }
 });
 
@@ -0,0 +1,70 @@
+/**
+ * Webhook Routes
+ *
+ * Receives notifications from Circle. These routes are authenticated by the
+ * notification signature instead of the API key.
+ */
+
+import { Router, Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { verifyNotificationSignature, processNotification } from "../webhooks/circleWebhooks";
+import { CircleNotification } from "../webhooks/types";
+import { ApiError } from "../middleware/errors";
+import { parseRequest, requiredString } from "../middleware/validation";
+import { createLogger } from "../logging/logger";
+
+const router = Router();
+const log = createLogger("webhooks");
+
+// Fields every notification has; the rest of the payload depends on notificationType
+const notificationSchema = z.looseObject({
+  notificationId: requiredString("notificationId"),
+  notificationType: requiredString("notificationType"),
+});
+
+/**
+ * HEAD /api/webhooks/circle
+ * Circle checks that the endpoint is reachable when a subscription is created
+ */
+router.head("/circle", (req: Request, res: Response) => {
+  res.status(200).end();
+});
+
+/**
+ * POST /api/webhooks/circle
+ * Receive a Circle notification
+ * Headers:
+ *   - X-Circle-Signature: Base64 signature of the raw body
+ *   - X-Circle-Key-Id: ID of the public key that verifies the signature
+ */
+router.post("/circle", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const signature = req.header("X-Circle-Signature");
+    const keyId = req.header("X-Circle-Key-Id");
+    const rawBody = req.rawBody;
+
+    if (!signature || !keyId || !rawBody) {
+      throw new ApiError("UNAUTHORIZED", "Missing notification signature");
+    }
+
+    if (!(await verifyNotificationSignature(rawBody, signature, keyId))) {
+      throw new ApiError("UNAUTHORIZED", "Invalid notification signature");
+    }
+
+    parseRequest(notificationSchema, req.body);
+    const notification = req.body as CircleNotification;
+
+    const { duplicate, event } = processNotification(notification);
+    log.info(duplicate ? "Duplicate Circle notification ignored" : "Circle notification received", {
+      notificationId: notification.notificationId,
+      notificationType: notification.notificationType,
+      ...(event && { transactionId: event.transactionId, state: event.state }),
+    });
+
+    res.json({ success: true, data: { notificationId: notification.notificationId, duplicate } });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
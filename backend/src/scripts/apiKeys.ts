@@ -0,0 +1,142 @@
+/**
+ * API Keys Script
+ *
+ * Issue, list, rotate and revoke API keys from the command line.
+ * Keys without --user authenticate a client app (e.g. the frontend) whose users log in;
+ * keys with --user act as that user (e.g. a reporting service reading their wallets).
+ *
+ * Usage:
+ *   npm run api-keys -- issue <name> --scopes <scope,...> [--user <email>] [--wallets <id,...>] [--expires <ISO date>]
+ *   npm run api-keys -- list
+ *   npm run api-keys -- rotate <key-id>
+ *   npm run api-keys -- revoke <key-id>
+ *
+ * Scopes: read, transfer, marketplace, chat, admin
+ */
+
+import { issueApiKey, listApiKeys, revokeApiKey, rotateApiKey } from "../apiKeys/apiKeys";
+import { API_KEY_SCOPES, ApiKey, ApiKeyScope, IssuedApiKey } from "../apiKeys/types";
+import { findUserByEmail } from "../users/users";
+import dotenv from "dotenv";
+
+dotenv.config();
+
+function usage(): never {
+  console.log("\nUsage:");
+  console.log("  npm run api-keys -- issue <name> --scopes <scope,...> [--user <email>] [--wallets <id,...>] [--expires <ISO date>]");
+  console.log("  npm run api-keys -- list");
+  console.log("  npm run api-keys -- rotate <key-id>");
+  console.log("  npm run api-keys -- revoke <key-id>");
+  console.log("\nExample (read-only key for a reporting service):");
+  console.log('  npm run api-keys -- issue "reporting service" --scopes read --user alice@example.com');
+  console.log(`\nScopes: ${API_KEY_SCOPES.join(", ")}`);
+  process.exit(1);
+}
+
+/**
+ * Value of a --flag argument
+ */
+function option(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+function describeKey(apiKey: ApiKey): string {
+  const status = apiKey.revokedAt
+    ? "revoked"
+    : apiKey.expiresAt && apiKey.expiresAt <= new Date()
+      ? "expired"
+      : "active";
+  return [
+    `${apiKey.id}  ${apiKey.name} (${status})`,
+    `  Scopes: ${apiKey.scopes.join(", ")}`,
+    `  User: ${apiKey.userId || "none (client app key)"}`,
+    `  Wallets: ${apiKey.walletIds?.join(", ") || "all of the user's"}`,
+    `  Expires: ${apiKey.expiresAt?.toISOString() || "never"}`,
+    `  Last used: ${apiKey.lastUsedAt?.toISOString() || "never"}`,
+  ].join("\n");
+}
+
+function printIssued({ apiKey, key }: IssuedApiKey) {
+  console.log("✅ API key issued!\n");
+  console.log(describeKey(apiKey));
+  console.log(`\n🔑 Key: ${key}`);
+  console.log("\n💡 Store it now - it is not shown again.\n");
+}
+
+function issue(args: string[]) {
+  const name = args[0];
+  const scopes = option(args, "--scopes")?.split(",").map((scope) => scope.trim());
+  const email = option(args, "--user");
+  const walletIds = option(args, "--wallets")?.split(",").map((id) => id.trim());
+  const expires = option(args, "--expires");
+
+  if (!name || name.startsWith("--") || !scopes) {
+    console.error("❌ Error: A name and --scopes are required");
+    usage();
+  }
+  const unknownScope = scopes.find((scope) => !API_KEY_SCOPES.includes(scope as ApiKeyScope));
+  if (unknownScope) {
+    console.error(`❌ Error: Unknown scope ${unknownScope}`);
+    usage();
+  }
+  if (expires && isNaN(Date.parse(expires))) {
+    console.error("❌ Error: --expires must be an ISO 8601 date");
+    usage();
+  }
+
+  const user = email ? findUserByEmail(email) : undefined;
+  if (email && !user) {
+    console.error(`❌ Error: No user registered with ${email}`);
+    process.exit(1);
+  }
+
+  printIssued(
+    issueApiKey({
+      name,
+      userId: user?.id,
+      scopes: scopes as ApiKeyScope[],
+      walletIds,
+      expiresAt: expires ? new Date(expires) : undefined,
+    })
+  );
+}
+
+function main() {
+  const [command, ...args] = process.argv.slice(2);
+
+  switch (command) {
+    case "issue":
+      return issue(args);
+
+    case "list": {
+      const keys = listApiKeys();
+      console.log(keys.length > 0 ? keys.map(describeKey).join("\n\n") : "No API keys issued yet");
+      return;
+    }
+
+    case "rotate": {
+      const rotated = args[0] ? rotateApiKey(args[0]) : undefined;
+      if (!rotated) {
+        console.error(`❌ Error: API key ${args[0] || ""} not found or already revoked`);
+        process.exit(1);
+      }
+      return printIssued(rotated);
+    }
+
+    case "revoke": {
+      const revoked = args[0] ? revokeApiKey(args[0]) : undefined;
+      if (!revoked) {
+        console.error(`❌ Error: API key ${args[0] || ""} not found`);
+        process.exit(1);
+      }
+      console.log(`✅ API key ${revoked.id} (${revoked.name}) revoked`);
+      return;
+    }
+
+    default:
+      usage();
+  }
+}
+
+main();
@@ -0,0 +1,58 @@
+/**
+ * Assign Wallets Script
+ *
+ * Gives existing wallets (e.g. created with create:wallets) to a registered user,
+ * along with their wallet sets. Users can only see and use the wallets they own.
+ *
+ * Usage:
+ *   npm run assign:wallets <email> <wallet-id> [wallet-id...]
+ *   or
+ *   tsx src/scripts/assignWallets.ts <email> <wallet-id> [wallet-id...]
+ */
+
+import { getWallet } from "../wallet/walletManager";
+import { findUserByEmail } from "../users/users";
+import { assignWallet, assignWalletSet } from "../users/ownership";
+import dotenv from "dotenv";
+
+dotenv.config();
+
+async function main() {
+  const [email, ...walletIds] = process.argv.slice(2);
+
+  if (!email || walletIds.length === 0) {
+    console.error("❌ Error: Email and at least one wallet ID are required");
+    console.log("\nUsage:");
+    console.log("  npm run assign:wallets <email> <wallet-id> [wallet-id...]");
+    console.log("\nExample:");
+    console.log("  npm run assign:wallets alice@example.com d72a977e-89fd-550a-8e19-5924ec395a74");
+    process.exit(1);
+  }
+
+  const user = findUserByEmail(email);
+  if (!user) {
+    console.error(`❌ Error: No user registered with ${email}`);
+    console.log("   Register through the app or POST /api/auth/register first\n");
+    process.exit(1);
+  }
+
+  try {
+    for (const walletId of walletIds) {
+      const wallet = await getWallet(walletId);
+      if (!wallet) {
+        throw new Error(`Wallet ${walletId} not found`);
+      }
+
+      assignWallet(user.id, wallet.id);
+      assignWalletSet(user.id, wallet.walletSetId);
+      console.log(`✅ ${wallet.id} (${wallet.blockchain}, ${wallet.address}) now belongs to ${user.email}`);
+    }
+    console.log();
+  } catch (error: any) {
+    console.error("❌ Error assigning wallets:");
+    console.error(`   ${error.message}\n`);
+    process.exit(1);
+  }
+}
+
+main();
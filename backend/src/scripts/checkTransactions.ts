@@ -74,7 +74,7 @@ async function main() {
     if (state) console.log(`State: ${state}`);
     console.log();
 
-    const transactions = await listTransactions(walletIds, transactionType, state);
+    const transactions = await listTransactions(walletIds, { transactionType, state });
 
     if (!transactions || transactions.length === 0) {
       console.log("📭 No transactions found");
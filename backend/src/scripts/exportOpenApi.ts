@@ -0,0 +1,19 @@
+/**
+ * Export OpenAPI Script
+ *
+ * Writes the OpenAPI document of the API to a file, without starting the server.
+ * npm run generate:api-client runs it and regenerates the frontend client types
+ * (frontend/src/services/api.schema.ts) from the file.
+ *
+ * Usage:
+ *   npm run export:openapi -- [output-file]   (default: openapi.json)
+ */
+
+import fs from "fs";
+import path from "path";
+import { buildOpenApiDocument } from "../openapi/document";
+
+const output = path.resolve(process.argv[2] || "openapi.json");
+
+fs.writeFileSync(output, `${JSON.stringify(buildOpenApiDocument(), null, 2)}\n`);
+console.log(`✅ OpenAPI document written to ${output}`);
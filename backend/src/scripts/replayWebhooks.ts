@@ -0,0 +1,104 @@
+/**
+ * Replay Webhooks Script
+ *
+ * Sends recorded Circle notifications to the local webhook endpoint, signed with
+ * a local key so the full verification path runs without Circle.
+ *
+ * Setup (once):
+ *   npm run replay:webhooks -- --generate-key
+ *   Add WEBHOOK_REPLAY_PRIVATE_KEY and CIRCLE_WEBHOOK_PUBLIC_KEY to your .env and restart the server
+ *
+ * Usage:
+ *   npm run replay:webhooks -- <payload.json | directory> [endpoint-url]
+ *
+ * Examples:
+ *   npm run replay:webhooks -- fixtures/webhooks
+ *   npm run replay:webhooks -- fixtures/webhooks/outbound-complete.json http://localhost:3001/api/webhooks/circle
+ *
+ * A payload file holds one notification or an array of notifications.
+ * SECURITY: The replay key is for local testing only. Never set CIRCLE_WEBHOOK_PUBLIC_KEY in production.
+ */
+
+import fs from "fs";
+import path from "path";
+import { createSign, generateKeyPairSync } from "crypto";
+import dotenv from "dotenv";
+
+dotenv.config();
+
+const REPLAY_KEY_ID = "local-replay";
+
+function generateKey() {
+  const { publicKey, privateKey } = generateKeyPairSync("ec", { namedCurve: "prime256v1" });
+
+  console.log("🔐 Generated a local webhook signing key\n");
+  console.log("Add both lines to backend/.env and restart the server:\n");
+  console.log(`WEBHOOK_REPLAY_PRIVATE_KEY=${privateKey.export({ format: "der", type: "pkcs8" }).toString("base64")}`);
+  console.log(`CIRCLE_WEBHOOK_PUBLIC_KEY=${publicKey.export({ format: "der", type: "spki" }).toString("base64")}\n`);
+}
+
+function loadPayloads(target: string): { file: string; notification: any }[] {
+  const files = fs.statSync(target).isDirectory()
+    ? fs.readdirSync(target).filter((name) => name.endsWith(".json")).sort().map((name) => path.join(target, name))
+    : [target];
+
+  return files.flatMap((file) => {
+    const content = JSON.parse(fs.readFileSync(file, "utf-8"));
+    return (Array.isArray(content) ? content : [content]).map((notification) => ({ file, notification }));
+  });
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+
+  if (args.includes("--generate-key")) {
+    generateKey();
+    return;
+  }
+
+  const target = args[0];
+  const endpoint = args[1] || `http://localhost:${process.env.PORT || 3001}/api/webhooks/circle`;
+  const privateKey = process.env.WEBHOOK_REPLAY_PRIVATE_KEY;
+
+  if (!target) {
+    console.error("❌ Error: Payload file or directory required");
+    console.log("\nUsage:");
+    console.log("  npm run replay:webhooks -- <payload.json | directory> [endpoint-url]");
+    console.log("  npm run replay:webhooks -- --generate-key");
+    process.exit(1);
+  }
+
+  if (!privateKey) {
+    console.error("❌ Error: WEBHOOK_REPLAY_PRIVATE_KEY is not set. Run: npm run replay:webhooks -- --generate-key");
+    process.exit(1);
+  }
+
+  const payloads = loadPayloads(target);
+  console.log(`📨 Replaying ${payloads.length} notification(s) to ${endpoint}\n`);
+
+  for (const { file, notification } of payloads) {
+    const body = JSON.stringify(notification);
+    const signature = createSign("SHA256")
+      .update(body)
+      .sign({ key: Buffer.from(privateKey, "base64"), format: "der", type: "pkcs8" }, "base64");
+
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Circle-Signature": signature,
+        "X-Circle-Key-Id": REPLAY_KEY_ID,
+      },
+      body,
+    });
+    const result = await response.json().catch(() => ({}));
+
+    console.log(`${response.ok ? "✅" : "❌"} ${path.basename(file)} ${notification.notificationType} (${notification.notificationId})`);
+    console.log(`   ${response.status} ${JSON.stringify(result)}`);
+  }
+}
+
+main().catch((error) => {
+  console.error("❌ Error replaying webhooks:", error.message);
+  process.exit(1);
+});
@@ -11,7 +11,9 @@
  *   npm run transfer:tokens d72a977e-89fd-550a-8e19-5924ec395a74 7adb2b7d-c9cd-5164-b2d4-b73b088274dc 0x75f100ee75a0e529aacced263de7a8f0e9f9c2a2 0.1
  */
 
-import { transferTokens, getWalletBalance, getTransaction } from "../wallet/walletManager";
+import { transferTokens, getWallet, getWalletBalance, getTransaction } from "../wallet/walletManager";
+import { validateAddress } from "../wallet/address";
+import { balanceAmount, compareAmounts, parseAmount } from "../wallet/amount";
 import dotenv from "dotenv";
 
 dotenv.config();
@@ -55,6 +57,17 @@ async function main() {
   console.log(`Fee Level: ${feeLevel}\n`);
 
   try {
+    // Validate the destination for the source wallet's blockchain
+    const wallet = await getWallet(walletId);
+    if (wallet) {
+      const destination = validateAddress(destinationAddress, wallet.blockchain, wallet.address);
+      if (!destination.valid) {
+        console.error("❌ Error: Invalid destination address");
+        destination.issues.forEach((issue) => console.error(`   ${issue.code}: ${issue.message}`));
+        process.exit(1);
+      }
+    }
+
     // Check source wallet balance first
     console.log("📊 Checking source wallet balance...");
     const balances = await getWalletBalance(walletId);
@@ -62,10 +75,9 @@ async function main() {
     
     if (tokenBalance) {
       console.log(`   Current balance: ${tokenBalance.amount} ${tokenBalance.token?.symbol || ""}`);
-      const balanceNum = parseFloat(tokenBalance.amount);
-      const amountNum = parseFloat(amount);
-      
-      if (balanceNum < amountNum) {
+      const available = balanceAmount(tokenBalance);
+
+      if (compareAmounts(available, parseAmount(amount, available.decimals)) < 0) {
         console.warn(`   ⚠️  Warning: Insufficient balance! Trying to send ${amount} but only have ${tokenBalance.amount}`);
       }
     } else {
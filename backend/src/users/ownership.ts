@@ -0,0 +1,64 @@
+/**
+ * Wallet Ownership
+ *
+ * Which user each wallet and wallet set belongs to. Every route acting on a wallet
+ * checks it here, so a user can only see and move funds from their own wallets.
+ */
+
+import { getDatabase } from '../db/database';
+
+/**
+ * Give a wallet to a user (replacing its previous owner)
+ */
+export function assignWallet(userId: string, walletId: string) {
+  getDatabase()
+    .prepare('INSERT OR REPLACE INTO wallet_owners (wallet_id, user_id, created_at) VALUES (?, ?, ?)')
+    .run(walletId, userId, new Date().toISOString());
+}
+
+/**
+ * Give a wallet set to a user, allowing them to create wallets in it
+ */
+export function assignWalletSet(userId: string, walletSetId: string) {
+  getDatabase()
+    .prepare('INSERT OR REPLACE INTO wallet_set_owners (wallet_set_id, user_id, created_at) VALUES (?, ?, ?)')
+    .run(walletSetId, userId, new Date().toISOString());
+}
+
+/**
+ * Check whether a user owns a wallet
+ */
+export function ownsWallet(userId: string, walletId: string): boolean {
+  return !!getDatabase()
+    .prepare('SELECT 1 FROM wallet_owners WHERE wallet_id = ? AND user_id = ?')
+    .get(walletId, userId);
+}
+
+/**
+ * Check whether a user owns a wallet set
+ */
+export function ownsWalletSet(userId: string, walletSetId: string): boolean {
+  return !!getDatabase()
+    .prepare('SELECT 1 FROM wallet_set_owners WHERE wallet_set_id = ? AND user_id = ?')
+    .get(walletSetId, userId);
+}
+
+/**
+ * IDs of the wallets a user owns, oldest first
+ */
+export function listOwnedWalletIds(userId: string): string[] {
+  return getDatabase()
+    .prepare('SELECT wallet_id FROM wallet_owners WHERE user_id = ? ORDER BY created_at')
+    .all(userId)
+    .map((row: any) => row.wallet_id as string);
+}
+
+/**
+ * IDs of the wallet sets a user owns
+ */
+export function listOwnedWalletSetIds(userId: string): string[] {
+  return getDatabase()
+    .prepare('SELECT wallet_set_id FROM wallet_set_owners WHERE user_id = ? ORDER BY created_at')
+    .all(userId)
+    .map((row: any) => row.wallet_set_id as string);
+}
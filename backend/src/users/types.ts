@@ -0,0 +1,18 @@
+/**
+ * User Type Definitions
+ */
+
+export interface User {
+  id: string;
+  email: string;
+  createdAt: Date;
+}
+
+/**
+ * Session issued at login; the token is only returned once, the database keeps its hash
+ */
+export interface UserSession {
+  token: string;
+  userId: string;
+  expiresAt: Date;
+}
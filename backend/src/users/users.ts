@@ -0,0 +1,147 @@
+/**
+ * User Accounts
+ *
+ * Registration, password checks and login sessions. Passwords are hashed with scrypt
+ * and session tokens are stored as SHA-256 hashes, so the database never holds either in clear.
+ */
+
+import { createHash, randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+import dotenv from 'dotenv';
+import { getDatabase } from '../db/database';
+import { User, UserSession } from './types';
+
+dotenv.config();
+
+// Lifetime of a login session (default: 24 hours)
+const SESSION_TTL_HOURS = parseFloat(process.env.SESSION_TTL_HOURS || '24');
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+const SCRYPT_KEY_LENGTH = 64;
+
+/**
+ * Error thrown when registering an email that already has an account
+ */
+export class UserExistsError extends Error {
+  constructor(email: string) {
+    super(`An account already exists for ${email}`);
+    this.name = 'UserExistsError';
+  }
+}
+
+function toUser(row: any): User {
+  return { id: row.id, email: row.email, createdAt: new Date(row.created_at) };
+}
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Hash a password as "scrypt$<salt>$<hash>"
+ */
+function hashPassword(password: string): string {
+  const salt = randomBytes(16);
+  const hash = scryptSync(password, salt, SCRYPT_KEY_LENGTH);
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+}
+
+function verifyPassword(password: string, stored: string): boolean {
+  const [, salt, hash] = stored.split('$');
+  const expected = Buffer.from(hash, 'hex');
+  const actual = scryptSync(password, Buffer.from(salt, 'hex'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+// Compared against when the email is unknown, so a login takes as long whether or not the account exists
+const DUMMY_PASSWORD_HASH = hashPassword(randomBytes(16).toString('hex'));
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Register a user
+ * @throws UserExistsError if the email is already registered
+ */
+export function createUser(email: string, password: string): User {
+  const user: User = { id: crypto.randomUUID(), email: normalizeEmail(email), createdAt: new Date() };
+
+  try {
+    getDatabase()
+      .prepare('INSERT INTO users (id, email, password_hash, created_at) VALUES (?, ?, ?, ?)')
+      .run(user.id, user.email, hashPassword(password), user.createdAt.toISOString());
+  } catch (error: any) {
+    if (error.code === 'SQLITE_CONSTRAINT_UNIQUE') {
+      throw new UserExistsError(user.email);
+    }
+    throw error;
+  }
+
+  return user;
+}
+
+/**
+ * Find a user by email
+ */
+export function findUserByEmail(email: string): User | undefined {
+  const row = getDatabase().prepare('SELECT * FROM users WHERE email = ?').get(normalizeEmail(email));
+  return row ? toUser(row) : undefined;
+}
+
+/**
+ * Get a user by ID
+ */
+export function getUser(id: string): User | undefined {
+  const row = getDatabase().prepare('SELECT * FROM users WHERE id = ?').get(id);
+  return row ? toUser(row) : undefined;
+}
+
+/**
+ * Check an email and password
+ * @returns the user, or undefined if the credentials don't match an account
+ */
+export function authenticateUser(email: string, password: string): User | undefined {
+  const row = getDatabase().prepare('SELECT * FROM users WHERE email = ?').get(normalizeEmail(email)) as any;
+  const valid = verifyPassword(password, row?.password_hash || DUMMY_PASSWORD_HASH);
+  return row && valid ? toUser(row) : undefined;
+}
+
+/**
+ * Start a login session for a user
+ */
+export function createUserSession(userId: string): UserSession {
+  const now = new Date();
+  const session: UserSession = {
+    token: randomBytes(32).toString('base64url'),
+    userId,
+    expiresAt: new Date(now.getTime() + SESSION_TTL_HOURS * 60 * 60 * 1000),
+  };
+
+  getDatabase()
+    .prepare('INSERT INTO user_sessions (token_hash, user_id, expires_at, created_at) VALUES (?, ?, ?, ?)')
+    .run(hashToken(session.token), userId, session.expiresAt.toISOString(), now.toISOString());
+
+  return session;
+}
+
+/**
+ * Resolve the user of a session token
+ * @returns the user, or undefined if the token is unknown or expired
+ */
+export function getSessionUser(token: string): User | undefined {
+  const row = getDatabase()
+    .prepare(`
+      SELECT u.* FROM user_sessions s JOIN users u ON u.id = s.user_id
+      WHERE s.token_hash = ? AND s.expires_at > ?
+    `)
+    .get(hashToken(token), new Date().toISOString());
+  return row ? toUser(row) : undefined;
+}
+
+/**
+ * End a login session
+ */
+export function deleteUserSession(token: string) {
+  getDatabase().prepare('DELETE FROM user_sessions WHERE token_hash = ?').run(hashToken(token));
+}
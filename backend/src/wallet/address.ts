@@ -0,0 +1,167 @@
+/**
+ * Destination Address Validation
+ *
+ * Checks a destination address against the format of the source wallet's blockchain
+ * before a transfer is created:
+ * - EVM chains (ARC-TESTNET, ETH, MATIC, ...): 0x + 40 hex chars, EIP-55 checksum when mixed case
+ * - Solana: base58 encoded 32-byte public key
+ * - Aptos: 0x + up to 64 hex chars
+ * - NEAR: implicit (64 hex chars) or named account
+ * and flags transfers to the zero address or back to the source wallet.
+ */
+
+import { keccak_256 } from "@noble/hashes/sha3";
+
+export type AddressIssueCode =
+  | "INVALID_FORMAT"
+  | "INVALID_CHECKSUM"
+  | "ZERO_ADDRESS"
+  | "SELF_TRANSFER";
+
+export interface AddressIssue {
+  code: AddressIssueCode;
+  message: string;
+}
+
+export interface AddressValidation {
+  valid: boolean;
+  issues: AddressIssue[];
+  address: string; // Normalized address (EIP-55 checksum form on EVM chains)
+}
+
+/**
+ * Error thrown when a transfer destination fails validation
+ */
+export class AddressValidationError extends Error {
+  issues: AddressIssue[];
+
+  constructor(issues: AddressIssue[]) {
+    super(`Invalid destination address: ${issues.map((issue) => issue.message).join("; ")}`);
+    this.name = "AddressValidationError";
+    this.issues = issues;
+  }
+}
+
+type AddressFamily = "evm" | "solana" | "aptos" | "near";
+
+const BASE58_ALPHABET = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+
+// Solana system program, the "zero address" of Solana
+const SOLANA_SYSTEM_PROGRAM = "11111111111111111111111111111111";
+
+/**
+ * Address family of a Circle blockchain identifier (every chain not listed is EVM)
+ */
+function addressFamily(blockchain: string): AddressFamily {
+  if (blockchain.startsWith("SOL")) return "solana";
+  if (blockchain.startsWith("APTOS")) return "aptos";
+  if (blockchain.startsWith("NEAR")) return "near";
+  return "evm";
+}
+
+/**
+ * EIP-55 mixed-case checksum encoding of an EVM address
+ */
+export function toChecksumAddress(address: string): string {
+  const lower = address.slice(2).toLowerCase();
+  const hash = Buffer.from(keccak_256(lower)).toString("hex");
+  let checksummed = "0x";
+  for (let i = 0; i < lower.length; i++) {
+    checksummed += parseInt(hash[i], 16) >= 8 ? lower[i].toUpperCase() : lower[i];
+  }
+  return checksummed;
+}
+
+/**
+ * Number of bytes encoded by a base58 string, or undefined if it isn't base58
+ */
+function base58ByteLength(value: string): number | undefined {
+  let number = BigInt(0);
+  for (const char of value) {
+    const digit = BASE58_ALPHABET.indexOf(char);
+    if (digit === -1) return undefined;
+    number = number * BigInt(58) + BigInt(digit);
+  }
+  const leadingZeros = value.length - value.replace(/^1+/, "").length;
+  const hex = number === BigInt(0) ? "" : number.toString(16);
+  return leadingZeros + Math.ceil(hex.length / 2);
+}
+
+function validateEvmAddress(address: string, issues: AddressIssue[]): string {
+  if (!/^0x[0-9a-fA-F]{40}$/.test(address)) {
+    issues.push({ code: "INVALID_FORMAT", message: `${address} is not a valid EVM address (0x followed by 40 hex characters)` });
+    return address;
+  }
+
+  const checksummed = toChecksumAddress(address);
+  const body = address.slice(2);
+  // All-lowercase or all-uppercase addresses carry no checksum (EIP-55)
+  const hasChecksum = body !== body.toLowerCase() && body !== body.toUpperCase();
+  if (hasChecksum && address !== checksummed) {
+    issues.push({
+      code: "INVALID_CHECKSUM",
+      message: `${address} fails the EIP-55 checksum, it may be mistyped (expected ${checksummed})`,
+    });
+  }
+  if (/^0x0{40}$/.test(address)) {
+    issues.push({ code: "ZERO_ADDRESS", message: "Sending to the zero address burns the funds" });
+  }
+  return checksummed;
+}
+
+function validateSolanaAddress(address: string, issues: AddressIssue[]): string {
+  if (!/^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(address) || base58ByteLength(address) !== 32) {
+    issues.push({ code: "INVALID_FORMAT", message: `${address} is not a valid Solana address (base58 encoded 32-byte key)` });
+  } else if (address === SOLANA_SYSTEM_PROGRAM) {
+    issues.push({ code: "ZERO_ADDRESS", message: "Sending to the Solana system program burns the funds" });
+  }
+  return address;
+}
+
+function validateAptosAddress(address: string, issues: AddressIssue[]): string {
+  if (!/^0x[0-9a-fA-F]{1,64}$/.test(address)) {
+    issues.push({ code: "INVALID_FORMAT", message: `${address} is not a valid Aptos address (0x followed by up to 64 hex characters)` });
+  } else if (/^0x0+$/.test(address)) {
+    issues.push({ code: "ZERO_ADDRESS", message: "Sending to the zero address burns the funds" });
+  }
+  return address.toLowerCase();
+}
+
+function validateNearAddress(address: string, issues: AddressIssue[]): string {
+  const implicit = /^[0-9a-f]{64}$/.test(address);
+  const named = /^(([a-z\d]+[-_])*[a-z\d]+\.)*([a-z\d]+[-_])*[a-z\d]+$/.test(address) && address.length <= 64;
+  if (!implicit && !named) {
+    issues.push({ code: "INVALID_FORMAT", message: `${address} is not a valid NEAR account ID` });
+  }
+  return address;
+}
+
+/**
+ * Validate a transfer destination
+ * @param address - Destination address
+ * @param blockchain - Circle blockchain of the source wallet (e.g., "ARC-TESTNET")
+ * @param sourceAddress - Address of the source wallet, to flag transfers to itself
+ */
+export function validateAddress(address: string, blockchain: string, sourceAddress?: string): AddressValidation {
+  const issues: AddressIssue[] = [];
+  const trimmed = address.trim();
+
+  const validators: Record<AddressFamily, (address: string, issues: AddressIssue[]) => string> = {
+    evm: validateEvmAddress,
+    solana: validateSolanaAddress,
+    aptos: validateAptosAddress,
+    near: validateNearAddress,
+  };
+  const normalized = validators[addressFamily(blockchain)](trimmed, issues);
+
+  // EVM-style addresses compare case-insensitively; base58 ones are case-sensitive
+  const caseInsensitive = trimmed.startsWith("0x");
+  if (
+    sourceAddress &&
+    (caseInsensitive ? sourceAddress.toLowerCase() === trimmed.toLowerCase() : sourceAddress === trimmed)
+  ) {
+    issues.push({ code: "SELF_TRANSFER", message: "The destination is the source wallet itself" });
+  }
+
+  return { valid: issues.length === 0, issues, address: normalized };
+}
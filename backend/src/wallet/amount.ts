@@ -0,0 +1,93 @@
+/**
+ * Token Amounts
+ *
+ * Fixed-point amounts kept in the token's smallest units (bigint), so balances,
+ * prices and transfer amounts are compared and added without float rounding.
+ * Amounts travel through the API and the Circle SDK as decimal strings ("0.15").
+ */
+
+import type { Balance } from "@circle-fin/developer-controlled-wallets";
+import { findTokenDefinition } from "./tokens";
+
+// Decimals assumed when a token doesn't report them and isn't in the registry (USDC)
+export const DEFAULT_TOKEN_DECIMALS = 6;
+
+// Highest precision of the supported tokens (ETH and other EVM native tokens)
+export const MAX_TOKEN_DECIMALS = 18;
+
+export interface Amount {
+  units: bigint; // Value in the token's smallest units
+  decimals: number;
+}
+
+/**
+ * Error thrown when an amount is malformed, has more precision than the token supports or can't be sent
+ */
+export class InvalidAmountError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidAmountError";
+  }
+}
+
+/**
+ * Parse a decimal amount ("0.15") for a token with the given decimals
+ * @throws InvalidAmountError if the value isn't a non-negative decimal or has too many decimal places
+ */
+export function parseAmount(value: string | number, decimals: number = DEFAULT_TOKEN_DECIMALS): Amount {
+  const text = String(value).trim();
+  if (!/^\d+(\.\d+)?$/.test(text)) {
+    throw new InvalidAmountError(`Invalid amount: ${value}`);
+  }
+
+  const [whole, fraction = ""] = text.split(".");
+  if (fraction.replace(/0+$/, "").length > decimals) {
+    throw new InvalidAmountError(`Amount ${text} has more than ${decimals} decimal places`);
+  }
+  return { units: BigInt(whole + fraction.slice(0, decimals).padEnd(decimals, "0")), decimals };
+}
+
+/**
+ * Amount of a Circle token balance
+ */
+export function balanceAmount(balance: Balance): Amount {
+  const decimals =
+    balance.token.decimals ?? findTokenDefinition(balance.token.symbol || "")?.decimals ?? DEFAULT_TOKEN_DECIMALS;
+  return parseAmount(balance.amount, decimals);
+}
+
+/**
+ * Format an amount as a decimal string without trailing zeros ("0.15")
+ */
+export function formatAmount({ units, decimals }: Amount): string {
+  const digits = units.toString().padStart(decimals + 1, "0");
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, "");
+  return fraction ? `${whole}.${fraction}` : whole;
+}
+
+/**
+ * Express two amounts in the same number of decimals
+ */
+function align(a: Amount, b: Amount): [bigint, bigint, number] {
+  const decimals = Math.max(a.decimals, b.decimals);
+  const scale = (amount: Amount) => amount.units * BigInt(10) ** BigInt(decimals - amount.decimals);
+  return [scale(a), scale(b), decimals];
+}
+
+/**
+ * Compare two amounts
+ * @returns a negative number if a < b, 0 if they are equal, a positive number if a > b
+ */
+export function compareAmounts(a: Amount, b: Amount): number {
+  const [left, right] = align(a, b);
+  return left === right ? 0 : left < right ? -1 : 1;
+}
+
+/**
+ * Add two amounts
+ */
+export function addAmounts(a: Amount, b: Amount): Amount {
+  const [left, right, decimals] = align(a, b);
+  return { units: left + right, decimals };
+}
@@ -0,0 +1,128 @@
+/**
+ * Circle Wallet Provider
+ *
+ * Circle Developer-Controlled Wallets through the official SDK.
+ * The SDK automatically handles Entity Secret ciphertext rotation.
+ */
+
+import { initiateDeveloperControlledWalletsClient } from "@circle-fin/developer-controlled-wallets";
+import { WalletProvider } from "./types";
+
+/**
+ * Create the Circle provider
+ * @throws Error if CIRCLE_API_KEY or CIRCLE_ENTITY_SECRET are missing
+ */
+export function createCircleWalletProvider(): WalletProvider {
+  const apiKey = process.env.CIRCLE_API_KEY;
+  const entitySecret = process.env.CIRCLE_ENTITY_SECRET;
+
+  if (!apiKey || !entitySecret) {
+    throw new Error(
+      "Missing required environment variables: CIRCLE_API_KEY and CIRCLE_ENTITY_SECRET must be set"
+    );
+  }
+
+  // The SDK automatically handles Entity Secret ciphertext rotation for each request
+  const circleClient = initiateDeveloperControlledWalletsClient({ apiKey, entitySecret });
+
+  return {
+    name: "circle",
+
+    async createWalletSet(name) {
+      const response = await circleClient.createWalletSet({ name });
+      return response.data?.walletSet;
+    },
+
+    async createWallets(walletSetId, blockchains, count, accountType, metadata) {
+      const response = await circleClient.createWallets({
+        walletSetId,
+        blockchains: blockchains as any, // SDK expects specific blockchain types
+        count,
+        accountType,
+        // Circle expects one metadata entry per wallet
+        ...(metadata && { metadata: Array.from({ length: count }, () => metadata) }),
+      });
+      return response.data?.wallets;
+    },
+
+    async listWalletSets() {
+      const response = await circleClient.listWalletSets();
+      return response.data?.walletSets;
+    },
+
+    async getWallet(walletId) {
+      const response = await circleClient.getWallet({ id: walletId });
+      return response.data?.wallet;
+    },
+
+    async listWallets(walletSetId) {
+      const response = await circleClient.listWallets(walletSetId ? { walletSetId } : {});
+      return response.data?.wallets;
+    },
+
+    async updateWallet(walletId, { name, refId }) {
+      const response = await circleClient.updateWallet({ id: walletId, name, refId });
+      return response.data?.wallet;
+    },
+
+    async getWalletBalance(walletId, tokenAddress) {
+      const response = await circleClient.getWalletTokenBalance({
+        id: walletId,
+        ...(tokenAddress && { tokenAddresses: [tokenAddress] }),
+      });
+      return response.data?.tokenBalances;
+    },
+
+    async listTransactions({ walletIds, txType, state, destinationAddress, from, to, pageSize, pageBefore, pageAfter }) {
+      const response = await circleClient.listTransactions({
+        walletIds,
+        ...(txType && { txType }),
+        ...(state && { state: state as any }), // SDK expects specific TransactionState type
+        ...(destinationAddress && { destinationAddress }),
+        ...(from && { from }),
+        ...(to && { to }),
+        ...(pageSize && { pageSize }),
+        ...(pageBefore && { pageBefore }),
+        ...(pageAfter && { pageAfter }),
+      });
+      return response.data?.transactions;
+    },
+
+    async getTransaction(transactionId) {
+      const response = await circleClient.getTransaction({ id: transactionId });
+      return response.data?.transaction;
+    },
+
+    async createTransfer({ walletId, tokenId, destinationAddress, amount, feeLevel, idempotencyKey }) {
+      const response = await circleClient.createTransaction({
+        walletId,
+        tokenId,
+        destinationAddress,
+        amount: [amount], // SDK expects 'amount' (singular) as array
+        fee: {
+          type: "level",
+          config: {
+            feeLevel,
+          },
+        },
+        idempotencyKey,
+      });
+      return response.data;
+    },
+
+    async estimateTransferFee({ walletId, tokenId, destinationAddress, amount }) {
+      const response = await circleClient.estimateTransferFee({
+        walletId,
+        tokenId,
+        destinationAddress,
+        amount: [amount],
+      });
+      return response.data;
+    },
+
+    async getNotificationPublicKey(keyId) {
+      const response = await circleClient.getNotificationSignature(keyId);
+      return response.data?.publicKey;
+    },
+  };
+}
@@ -0,0 +1,364 @@
+/**
+ * In-Memory Wallet Provider
+ *
+ * Simulated Circle backend for development and tests: no credentials, no network.
+ * Balances are kept in memory and transfers move through the same states as on
+ * Circle (INITIATED → SENT → CONFIRMED → COMPLETE, or FAILED) on a timer.
+ * Wallets are seeded from a fixture file (WALLET_FIXTURE_FILE) or a single default wallet.
+ */
+
+import fs from "fs";
+import path from "path";
+import { randomBytes } from "crypto";
+import type {
+  Balance,
+  Blockchain,
+  Token,
+  Transaction,
+  TransactionState,
+  Wallet,
+  WalletSet,
+} from "@circle-fin/developer-controlled-wallets";
+import { DEFAULT_TOKEN_DECIMALS, InvalidAmountError, formatAmount, parseAmount } from "./amount";
+import { TransferInput, WalletFixture, WalletProvider } from "./types";
+
+const DEFAULT_BLOCKCHAIN = "ARC-TESTNET";
+const DEFAULT_PAGE_SIZE = 10; // Same default as the Circle API
+
+// Simulated network fee per level, in the native token
+const SIMULATED_FEES = { low: "0.0005", medium: "0.001", high: "0.002" };
+
+// Time between simulated state transitions (default: 1 second)
+const STEP_MS = parseInt(process.env.MEMORY_WALLET_STEP_MS || "1000", 10);
+
+interface MemoryWallet {
+  wallet: Wallet;
+  balances: Map<string, { token: Token; units: bigint }>; // tokenId → balance in smallest units
+}
+
+/**
+ * Load the seed fixture for the in-memory provider
+ */
+export function loadWalletFixture(filePath: string): WalletFixture {
+  const resolvedPath = path.resolve(filePath);
+  try {
+    return JSON.parse(fs.readFileSync(resolvedPath, "utf-8"));
+  } catch (error: any) {
+    throw new Error(`Failed to load wallet fixture ${resolvedPath}: ${error.message}`);
+  }
+}
+
+/**
+ * Fixture used when none is configured: the primary wallet with 10 USDC
+ */
+function defaultFixture(): WalletFixture {
+  return {
+    wallets: [
+      {
+        id: process.env.PRIMARY_WALLET_ID || "memory-wallet-1",
+        balances: [{ tokenId: "memory-usdc", symbol: "USDC", amount: "10", decimals: 6 }],
+      },
+    ],
+  };
+}
+
+function randomAddress(): string {
+  return `0x${randomBytes(20).toString("hex")}`;
+}
+
+/**
+ * Create the in-memory provider
+ * @param fixture - Seed wallets and balances (defaults to WALLET_FIXTURE_FILE or a single funded wallet)
+ */
+export function createMemoryWalletProvider(fixture?: WalletFixture): WalletProvider {
+  const seed =
+    fixture ||
+    (process.env.WALLET_FIXTURE_FILE ? loadWalletFixture(process.env.WALLET_FIXTURE_FILE) : defaultFixture());
+
+  const wallets = new Map<string, MemoryWallet>();
+  const walletSets = new Map<string, WalletSet>();
+  // Newest first, like the Circle API
+  const transactions: Transaction[] = [];
+  const idempotentTransfers = new Map<string, Transaction>();
+
+  const now = () => new Date().toISOString();
+
+  const addWalletSet = (id: string, name?: string) => {
+    const createdAt = now();
+    const walletSet = { id, name, custodyType: "DEVELOPER", createDate: createdAt, updateDate: createdAt } as WalletSet;
+    walletSets.set(id, walletSet);
+    return walletSet;
+  };
+
+  const addWallet = (wallet: Wallet) => {
+    if (!walletSets.has(wallet.walletSetId)) {
+      addWalletSet(wallet.walletSetId);
+    }
+    const entry: MemoryWallet = { wallet, balances: new Map() };
+    wallets.set(wallet.id, entry);
+    return entry;
+  };
+
+  for (const seedWallet of seed.wallets) {
+    const createdAt = now();
+    const blockchain = (seedWallet.blockchain || DEFAULT_BLOCKCHAIN) as Blockchain;
+    const entry = addWallet({
+      id: seedWallet.id,
+      address: seedWallet.address || randomAddress(),
+      blockchain,
+      walletSetId: seedWallet.walletSetId || "memory-wallet-set",
+      name: seedWallet.name,
+      state: "LIVE",
+      custodyType: "DEVELOPER",
+      createDate: createdAt,
+      updateDate: createdAt,
+    });
+    for (const balance of seedWallet.balances || []) {
+      const decimals = balance.decimals ?? DEFAULT_TOKEN_DECIMALS;
+      entry.balances.set(balance.tokenId, {
+        token: {
+          id: balance.tokenId,
+          name: balance.name || balance.symbol,
+          symbol: balance.symbol,
+          decimals,
+          tokenAddress: balance.tokenAddress,
+          blockchain,
+          isNative: !balance.tokenAddress,
+          createDate: createdAt,
+          updateDate: createdAt,
+        },
+        units: parseAmount(balance.amount, decimals).units,
+      });
+    }
+  }
+
+  const requireWallet = (walletId: string) => {
+    const entry = wallets.get(walletId);
+    if (!entry) {
+      throw new Error(`Wallet ${walletId} not found`);
+    }
+    return entry;
+  };
+
+  const findWalletByAddress = (address: string) =>
+    Array.from(wallets.values()).find((entry) => entry.wallet.address.toLowerCase() === address.toLowerCase());
+
+  const setState = (transaction: Transaction, state: TransactionState) => {
+    transaction.state = state;
+    transaction.updateDate = now();
+  };
+
+  /**
+   * Advance a transfer through its lifecycle, settling balances when it completes
+   */
+  const simulateLifecycle = (transaction: Transaction, input: TransferInput, units: bigint) => {
+    const source = requireWallet(input.walletId);
+    const sourceBalance = source.balances.get(input.tokenId)!;
+
+    const step = (run: () => void, delay: number) => {
+      setTimeout(run, delay).unref();
+    };
+
+    if (sourceBalance.units < units) {
+      step(() => {
+        setState(transaction, "FAILED");
+        transaction.errorReason = "INSUFFICIENT_TOKEN";
+      }, STEP_MS);
+      return;
+    }
+
+    // Reserve the funds right away so concurrent transfers can't overspend
+    sourceBalance.units -= units;
+
+    step(() => {
+      setState(transaction, "SENT");
+      transaction.txHash = `0x${randomBytes(32).toString("hex")}`;
+    }, STEP_MS);
+    step(() => {
+      setState(transaction, "CONFIRMED");
+      transaction.firstConfirmDate = now();
+    }, STEP_MS * 2);
+    step(() => {
+      setState(transaction, "COMPLETE");
+
+      // Credit the destination when it's one of our wallets, with its own INBOUND record
+      const destination = findWalletByAddress(input.destinationAddress);
+      if (!destination) return;
+      const destinationBalance = destination.balances.get(input.tokenId) || {
+        token: sourceBalance.token,
+        units: BigInt(0),
+      };
+      destinationBalance.units += units;
+      destination.balances.set(input.tokenId, destinationBalance);
+      transactions.unshift({
+        ...transaction,
+        id: crypto.randomUUID(),
+        walletId: destination.wallet.id,
+        transactionType: "INBOUND",
+      });
+    }, STEP_MS * 3);
+  };
+
+  return {
+    name: "memory",
+
+    async createWalletSet(name) {
+      return addWalletSet(crypto.randomUUID(), name);
+    },
+
+    async listWalletSets() {
+      return Array.from(walletSets.values());
+    },
+
+    async createWallets(walletSetId, blockchains, count, accountType, metadata) {
+      if (!walletSets.has(walletSetId)) {
+        throw new Error(`Wallet set ${walletSetId} not found`);
+      }
+      const created: Wallet[] = [];
+      for (const blockchain of blockchains) {
+        for (let i = 0; i < count; i++) {
+          const createdAt = now();
+          const { wallet } = addWallet({
+            id: crypto.randomUUID(),
+            address: randomAddress(),
+            blockchain: blockchain as Blockchain,
+            walletSetId,
+            state: "LIVE",
+            custodyType: "DEVELOPER",
+            accountType,
+            name: metadata?.name,
+            refId: metadata?.refId,
+            createDate: createdAt,
+            updateDate: createdAt,
+          } as Wallet);
+          created.push(wallet);
+        }
+      }
+      return created;
+    },
+
+    async getWallet(walletId) {
+      return requireWallet(walletId).wallet;
+    },
+
+    async listWallets(walletSetId) {
+      return Array.from(wallets.values())
+        .map((entry) => entry.wallet)
+        .filter((wallet) => !walletSetId || wallet.walletSetId === walletSetId);
+    },
+
+    async updateWallet(walletId, { name, refId }) {
+      const { wallet } = requireWallet(walletId);
+      if (name !== undefined) wallet.name = name;
+      if (refId !== undefined) wallet.refId = refId;
+      wallet.updateDate = now();
+      return wallet;
+    },
+
+    async getWalletBalance(walletId, tokenAddress) {
+      const balances: Balance[] = [];
+      for (const { token, units } of requireWallet(walletId).balances.values()) {
+        if (tokenAddress && token.tokenAddress?.toLowerCase() !== tokenAddress.toLowerCase()) continue;
+        balances.push({
+          token,
+          amount: formatAmount({ units, decimals: token.decimals ?? DEFAULT_TOKEN_DECIMALS }),
+          updateDate: now(),
+        });
+      }
+      return balances;
+    },
+
+    async listTransactions({
+      walletIds,
+      txType,
+      state,
+      destinationAddress,
+      from,
+      to,
+      pageSize = DEFAULT_PAGE_SIZE,
+      pageBefore,
+      pageAfter,
+    }) {
+      const fromTime = from ? new Date(from).getTime() : undefined;
+      const toTime = to ? new Date(to).getTime() : undefined;
+      const matching = transactions.filter((tx) => {
+        const createdAt = new Date(tx.createDate).getTime();
+        return (
+          walletIds.includes(tx.walletId!) &&
+          (!txType || tx.transactionType === txType) &&
+          (!state || tx.state === state) &&
+          (!destinationAddress || tx.destinationAddress?.toLowerCase() === destinationAddress.toLowerCase()) &&
+          (fromTime === undefined || createdAt >= fromTime) &&
+          (toTime === undefined || createdAt <= toTime)
+        );
+      });
+
+      if (pageBefore) {
+        const end = matching.findIndex((tx) => tx.id === pageBefore);
+        return end === -1 ? [] : matching.slice(Math.max(0, end - pageSize), end);
+      }
+      const start = pageAfter ? matching.findIndex((tx) => tx.id === pageAfter) + 1 : 0;
+      return pageAfter && start === 0 ? [] : matching.slice(start, start + pageSize);
+    },
+
+    async getTransaction(transactionId) {
+      const transaction = transactions.find((tx) => tx.id === transactionId);
+      if (!transaction) {
+        throw new Error(`Transaction ${transactionId} not found`);
+      }
+      return transaction;
+    },
+
+    async createTransfer(input) {
+      const previous = idempotentTransfers.get(input.idempotencyKey);
+      if (previous) {
+        return { id: previous.id, state: previous.state };
+      }
+
+      const source = requireWallet(input.walletId);
+      const balance = source.balances.get(input.tokenId);
+      if (!balance) {
+        throw new Error(`Token ${input.tokenId} not found in wallet ${input.walletId}`);
+      }
+      const { units } = parseAmount(input.amount, balance.token.decimals ?? DEFAULT_TOKEN_DECIMALS);
+      if (units <= BigInt(0)) {
+        throw new InvalidAmountError("Amount must be greater than zero");
+      }
+
+      const createdAt = now();
+      const transaction: Transaction = {
+        id: crypto.randomUUID(),
+        walletId: input.walletId,
+        tokenId: input.tokenId,
+        blockchain: source.wallet.blockchain,
+        sourceAddress: source.wallet.address,
+        destinationAddress: input.destinationAddress,
+        amounts: [input.amount],
+        feeLevel: input.feeLevel,
+        operation: "TRANSFER",
+        custodyType: "DEVELOPER",
+        transactionType: "OUTBOUND",
+        state: "INITIATED",
+        createDate: createdAt,
+        updateDate: createdAt,
+      };
+      transactions.unshift(transaction);
+      idempotentTransfers.set(input.idempotencyKey, transaction);
+
+      simulateLifecycle(transaction, input, units);
+      return { id: transaction.id, state: transaction.state };
+    },
+
+    async estimateTransferFee({ walletId, tokenId }) {
+      if (!requireWallet(walletId).balances.has(tokenId)) {
+        throw new Error(`Token ${tokenId} not found in wallet ${walletId}`);
+      }
+      const { low, medium, high } = SIMULATED_FEES;
+      return {
+        low: { gasLimit: "21000", networkFee: low },
+        medium: { gasLimit: "21000", networkFee: medium },
+        high: { gasLimit: "21000", networkFee: high },
+      };
+    },
+  };
+}
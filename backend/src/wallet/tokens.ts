@@ -0,0 +1,221 @@
+/**
+ * Token Registry
+ *
+ * Known tokens (stablecoins, native gas tokens and configured ERC-20s) so balances,
+ * transfers and agent tools can refer to a token by symbol ("send 5 EURC") instead of its
+ * Circle token ID. Extra tokens are loaded from TOKEN_REGISTRY_FILE (see fixtures/tokens.example.json).
+ */
+
+import fs from "fs";
+import path from "path";
+import dotenv from "dotenv";
+import { z } from "zod";
+import type { Balance, Token } from "@circle-fin/developer-controlled-wallets";
+
+dotenv.config();
+
+export interface TokenDefinition {
+  symbol: string; // Canonical symbol, e.g. "EURC"
+  name: string; // Display name, e.g. "Euro Coin"
+  decimals: number;
+  aliases?: string[]; // Other symbols the token is listed under (e.g. "ETH-SEPOLIA")
+  native?: string[]; // Blockchains it is the gas token of
+  tokenIds?: Record<string, string>; // Circle token ID per blockchain
+  addresses?: Record<string, string>; // Contract address (Solana: mint) per blockchain
+  configured?: boolean; // Loaded from TOKEN_REGISTRY_FILE; may match by symbol where no ID or address is given
+}
+
+/**
+ * Error thrown when a wallet holds none of the requested token
+ */
+export class TokenNotFoundError extends Error {
+  availableTokens: string[];
+
+  constructor(message: string, availableTokens: string[]) {
+    super(message);
+    this.name = "TokenNotFoundError";
+    this.availableTokens = availableTokens;
+  }
+}
+
+/**
+ * Error thrown when a symbol matches several tokens of a wallet (e.g. a token airdropped under a known symbol)
+ */
+export class AmbiguousTokenError extends Error {
+  tokenIds: string[];
+
+  constructor(symbol: string, tokenIds: string[]) {
+    super(`Several tokens of the wallet are listed as ${symbol}. Use a token ID instead: ${tokenIds.join(", ")}`);
+    this.name = "AmbiguousTokenError";
+    this.tokenIds = tokenIds;
+  }
+}
+
+// Known tokens only match their contract or native token, never a token that merely reuses the symbol
+const DEFAULT_TOKENS: TokenDefinition[] = [
+  {
+    symbol: "USDC",
+    name: "USD Coin",
+    decimals: 6,
+    aliases: ["USDC-TESTNET"],
+    // Gas token of Arc, also exposed as an ERC-20
+    native: ["ARC-TESTNET"],
+    addresses: {
+      "ARC-TESTNET": "0x3600000000000000000000000000000000000000",
+      "ETH-SEPOLIA": "0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238",
+      "MATIC-AMOY": "0x41E94Eb019C0762f9Bfcf9Fb1E58725BfB0e7582",
+      "AVAX-FUJI": "0x5425890298aed601595a70AB815c96711a31Bc65",
+      "BASE-SEPOLIA": "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+      "ARB-SEPOLIA": "0x75faf114eafb1BDbe2F0316DF893fd58CE46AA4d",
+      "OP-SEPOLIA": "0x5fd84259d66Cd46123540766Be93DFE6D43130D7",
+      "SOL-DEVNET": "4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU",
+    },
+  },
+  {
+    symbol: "EURC",
+    name: "Euro Coin",
+    decimals: 6,
+    aliases: ["EURC-TESTNET"],
+    addresses: {
+      "ARC-TESTNET": "0x89B50855Aa3bE2F677cD6303Cec089B5F319D72a",
+      "ETH-SEPOLIA": "0x08210F9170F89Ab7658F0B5E3fF39b0E03C594D4",
+      "AVAX-FUJI": "0x5E44db7996c682E92a960b65AC713a54AD815c6B",
+      "BASE-SEPOLIA": "0x808456652fdb597867f38412077A9182bf77359F",
+      "SOL-DEVNET": "HzwqbKZw8HxMN6bF2yFZNrht3c2iXXzpKcFu7uBEDKtr",
+    },
+  },
+  {
+    symbol: "ETH",
+    name: "Ether",
+    decimals: 18,
+    aliases: ["ETH-SEPOLIA"],
+    native: ["ETH-SEPOLIA", "BASE-SEPOLIA", "ARB-SEPOLIA", "OP-SEPOLIA"],
+  },
+  { symbol: "POL", name: "Polygon", decimals: 18, aliases: ["MATIC", "MATIC-AMOY", "POL-AMOY"], native: ["MATIC-AMOY"] },
+  { symbol: "AVAX", name: "Avalanche", decimals: 18, aliases: ["AVAX-FUJI"], native: ["AVAX-FUJI"] },
+  { symbol: "SOL", name: "Solana", decimals: 9, aliases: ["SOL-DEVNET"], native: ["SOL-DEVNET"] },
+];
+
+const tokenDefinitionSchema = z.object({
+  symbol: z.string().trim().min(1),
+  name: z.string().trim().min(1),
+  decimals: z.number().int().min(0).max(36),
+  aliases: z.array(z.string().trim().min(1)).optional(),
+  native: z.array(z.string().min(1)).optional(),
+  tokenIds: z.record(z.string(), z.string().min(1)).optional(),
+  addresses: z.record(z.string(), z.string().min(1)).optional(),
+});
+
+const registryFileSchema = z.object({
+  tokens: z.array(tokenDefinitionSchema),
+});
+
+let registry: TokenDefinition[] | undefined;
+
+/**
+ * Load the configured tokens
+ * Entries of TOKEN_REGISTRY_FILE replace the default token with the same symbol
+ * @throws Error if the file can't be read or doesn't match the registry format
+ */
+export function loadRegistry(): TokenDefinition[] {
+  const filePath = process.env.TOKEN_REGISTRY_FILE;
+  if (!filePath) {
+    return DEFAULT_TOKENS;
+  }
+
+  const resolvedPath = path.resolve(filePath);
+  let configured: TokenDefinition[];
+  try {
+    const parsed = registryFileSchema.safeParse(JSON.parse(fs.readFileSync(resolvedPath, "utf-8")));
+    if (!parsed.success) {
+      throw new Error(z.prettifyError(parsed.error));
+    }
+    configured = parsed.data.tokens.map((token) => ({ ...token, configured: true }));
+  } catch (error: any) {
+    throw new Error(`Failed to load token registry ${resolvedPath}: ${error.message}`);
+  }
+
+  const symbols = new Set(configured.map((token) => token.symbol.toUpperCase()));
+  return [...DEFAULT_TOKENS.filter((token) => !symbols.has(token.symbol.toUpperCase())), ...configured];
+}
+
+/**
+ * All known tokens
+ */
+export function listTokens(): TokenDefinition[] {
+  if (!registry) {
+    registry = loadRegistry();
+  }
+  return registry;
+}
+
+/**
+ * Find a known token by symbol or alias (case-insensitive)
+ */
+export function findTokenDefinition(symbol: string): TokenDefinition | undefined {
+  const query = symbol.trim().toUpperCase();
+  return listTokens().find(
+    (token) => token.symbol.toUpperCase() === query || token.aliases?.some((alias) => alias.toUpperCase() === query)
+  );
+}
+
+/**
+ * Whether a Circle token is the given known token: its token ID, contract address or native token
+ * on the token's blockchain. Only tokens configured in TOKEN_REGISTRY_FILE fall back to the symbol,
+ * on blockchains where they list no token ID or address.
+ */
+export function matchesToken(token: Token, definition: TokenDefinition): boolean {
+  const tokenId = definition.tokenIds?.[token.blockchain];
+  if (tokenId === token.id) {
+    return true;
+  }
+  const address = definition.addresses?.[token.blockchain];
+  if (address && token.tokenAddress) {
+    return address.toLowerCase() === token.tokenAddress.toLowerCase();
+  }
+  if (token.isNative && !token.tokenAddress) {
+    return !!definition.native?.includes(token.blockchain);
+  }
+  if (!definition.configured || tokenId || address) {
+    return false;
+  }
+  return !!token.symbol && symbolsOf(definition).includes(token.symbol.toUpperCase());
+}
+
+function symbolsOf(definition: TokenDefinition): string[] {
+  return [definition.symbol, ...(definition.aliases || [])].map((symbol) => symbol.toUpperCase());
+}
+
+/**
+ * Find the balance of a token by Circle token ID, symbol or alias
+ * @throws AmbiguousTokenError if the symbol matches more than one balance
+ */
+export function findBalance(balances: Balance[], query: string): Balance | undefined {
+  const byId = balances.find((balance) => balance.token.id === query);
+  if (byId) {
+    return byId;
+  }
+
+  const symbol = query.trim().toUpperCase();
+  const definition = findTokenDefinition(query);
+  const matches = definition
+    ? balances.filter((balance) => matchesToken(balance.token, definition))
+    : // Tokens the registry doesn't know are only known by their symbol
+      balances.filter((balance) => balance.token.symbol?.toUpperCase() === symbol);
+
+  if (matches.length > 1) {
+    throw new AmbiguousTokenError(symbol, matches.map((balance) => balance.token.id));
+  }
+  return matches[0];
+}
+
+/**
+ * Canonical symbol and display name of a Circle token
+ */
+export function describeToken(token: Token): { symbol: string; name: string } {
+  const definition = listTokens().find((known) => matchesToken(token, known));
+  return {
+    symbol: definition?.symbol || token.symbol || token.id,
+    name: definition?.name || token.name || token.symbol || token.id,
+  };
+}
@@ -0,0 +1,125 @@
+/**
+ * Wallet Types
+ *
+ * Shapes follow the Circle developer-controlled wallets API so every provider
+ * returns the same data the routes, tools and marketplace already consume.
+ */
+
+import type {
+  Balance,
+  EstimateTransactionFeeData,
+  Transaction,
+  TransactionState,
+  Wallet,
+  WalletSet,
+} from "@circle-fin/developer-controlled-wallets";
+
+export type WalletProviderName = "circle" | "memory";
+
+export type FeeLevel = "LOW" | "MEDIUM" | "HIGH";
+
+export interface TransactionQuery {
+  walletIds: string[];
+  txType?: "INBOUND" | "OUTBOUND";
+  state?: string;
+  destinationAddress?: string;
+  from?: string; // ISO 8601 date, inclusive
+  to?: string; // ISO 8601 date, inclusive
+  pageSize?: number;
+  pageBefore?: string; // Transaction ID: return the newer transactions before it
+  pageAfter?: string; // Transaction ID: return the older transactions after it
+}
+
+/**
+ * Filters accepted by walletManager.listTransactions
+ * Results are ordered newest first; pass the ID of the last transaction as pageAfter for the next page
+ */
+export interface TransactionFilters extends Omit<TransactionQuery, "walletIds" | "txType"> {
+  transactionType?: "INBOUND" | "OUTBOUND";
+  tokenId?: string;
+}
+
+// Name and reference ID Circle stores with a wallet
+export interface WalletMetadataInput {
+  name?: string;
+  refId?: string;
+}
+
+export interface TransferInput {
+  walletId: string;
+  tokenId: string;
+  destinationAddress: string;
+  amount: string;
+  feeLevel: FeeLevel;
+  idempotencyKey: string;
+}
+
+export type FeeEstimateInput = Pick<TransferInput, "walletId" | "tokenId" | "destinationAddress" | "amount">;
+
+export interface FeeLevelEstimate {
+  feeLevel: FeeLevel;
+  networkFee: string; // Paid in the blockchain's native token (feeTokenSymbol)
+  totalCost?: string; // Amount + network fee, when the fee is paid in the transferred token
+}
+
+/**
+ * Cost preview of a transfer at each fee level
+ */
+export interface TransferFeeEstimate {
+  amount: string;
+  tokenSymbol: string;
+  feeTokenSymbol: string;
+  levels: FeeLevelEstimate[];
+}
+
+export interface TransferResult {
+  id: string;
+  state: TransactionState;
+}
+
+/**
+ * Backend holding the wallets: Circle in production, an in-memory simulation for development and tests
+ */
+export interface WalletProvider {
+  name: WalletProviderName;
+  createWalletSet(name: string): Promise<WalletSet | undefined>;
+  createWallets(
+    walletSetId: string,
+    blockchains: string[],
+    count: number,
+    accountType: "SCA" | "EOA",
+    metadata?: WalletMetadataInput
+  ): Promise<Wallet[] | undefined>;
+  listWalletSets(): Promise<WalletSet[] | undefined>;
+  getWallet(walletId: string): Promise<Wallet | undefined>;
+  listWallets(walletSetId?: string): Promise<Wallet[] | undefined>;
+  updateWallet(walletId: string, metadata: WalletMetadataInput): Promise<Wallet | undefined>;
+  getWalletBalance(walletId: string, tokenAddress?: string): Promise<Balance[] | undefined>;
+  listTransactions(query: TransactionQuery): Promise<Transaction[] | undefined>;
+  getTransaction(transactionId: string): Promise<Transaction | undefined>;
+  createTransfer(input: TransferInput): Promise<TransferResult | undefined>;
+  estimateTransferFee(input: FeeEstimateInput): Promise<EstimateTransactionFeeData | undefined>;
+  // Public key (base64 DER) that signs webhook notifications, when the provider sends any
+  getNotificationPublicKey?(keyId: string): Promise<string | undefined>;
+}
+
+/**
+ * Seed data for the in-memory provider (see fixtures/wallets.example.json)
+ */
+export interface WalletFixture {
+  wallets: {
+    id: string;
+    address?: string;
+    blockchain?: string;
+    walletSetId?: string;
+    name?: string;
+    balances?: {
+      tokenId: string;
+      symbol: string;
+      amount: string;
+      decimals?: number;
+      tokenAddress?: string;
+      name?: string;
+    }[];
+  }[];
+}
@@ -1,30 +1,157 @@
 /**
  * Wallet Manager Module
  * 
- * Handles Circle Developer-Controlled Wallet operations.
- * The SDK automatically handles Entity Secret ciphertext rotation.
+ * Handles wallet operations through the configured provider (WALLET_PROVIDER):
+ * - circle: Circle Developer-Controlled Wallets (default)
+ * - memory: In-memory simulation for development and tests
  */
 
-import { initiateDeveloperControlledWalletsClient } from "@circle-fin/developer-controlled-wallets";
 import dotenv from "dotenv";
+import { evaluateTransfer, requiresSpendingHistory, PolicyViolationError, POLICY_DECIMALS } from "../policy/policy";
+import { OutgoingTransfer, PolicyDecision } from "../policy/types";
+import type { Balance, Token, Transaction } from "@circle-fin/developer-controlled-wallets";
+import { AddressValidationError, validateAddress } from "./address";
+import { TokenNotFoundError, describeToken, findBalance } from "./tokens";
+import {
+  InvalidAmountError,
+  MAX_TOKEN_DECIMALS,
+  addAmounts,
+  balanceAmount,
+  compareAmounts,
+  formatAmount,
+  parseAmount,
+} from "./amount";
+import {
+  FeeLevel,
+  FeeLevelEstimate,
+  TransactionFilters,
+  TransactionQuery,
+  TransferFeeEstimate,
+  WalletMetadataInput,
+  WalletProvider,
+  WalletProviderName,
+} from "./types";
+import { createCircleWalletProvider } from "./circleProvider";
+import { createMemoryWalletProvider } from "./memoryProvider";
+import { createLogger } from "../logging/logger";
+import { getDependencies } from "../dependencies";
+import { secondsSince, walletProviderCallDuration, walletProviderCalls } from "../metrics/metrics";
 
 dotenv.config();
 
-const API_KEY = process.env.CIRCLE_API_KEY;
-const ENTITY_SECRET = process.env.CIRCLE_ENTITY_SECRET;
+const log = createLogger("wallet");
 
-if (!API_KEY || !ENTITY_SECRET) {
-  throw new Error(
-    "Missing required environment variables: CIRCLE_API_KEY and CIRCLE_ENTITY_SECRET must be set"
-  );
+const WALLET_PROVIDER = (process.env.WALLET_PROVIDER || "circle") as WalletProviderName;
+
+if (WALLET_PROVIDER === "circle" && (!process.env.CIRCLE_API_KEY || !process.env.CIRCLE_ENTITY_SECRET)) {
+  log.warn("CIRCLE_API_KEY or CIRCLE_ENTITY_SECRET not set in .env. Wallet operations will fail (set WALLET_PROVIDER=memory to work offline).");
+}
+
+const DEFAULT_TRANSACTION_PAGE_SIZE = 10;
+const MAX_TRANSACTION_PAGE_SIZE = 50; // Circle API maximum
+
+// Pages read at most when filtering transactions by token
+const MAX_TOKEN_FILTER_PAGES = 10;
+
+let provider: WalletProvider | undefined;
+
+// Providers passed to createApp, instrumented once
+const instrumentedProviders = new WeakMap<WalletProvider, WalletProvider>();
+
+/**
+ * Error thrown when the wallet provider fails, keeping the HTTP status and error code it answered with
+ * (the Circle SDK rejects with the API response) so callers can tell rejected requests from outages
+ */
+export class WalletProviderError extends Error {
+  readonly status?: number;
+  readonly providerCode?: string | number;
+
+  constructor(action: string, cause: any) {
+    super(`${action}: ${cause?.response?.data?.message || cause?.message || cause}`);
+    this.name = "WalletProviderError";
+    this.status = cause?.response?.status;
+    this.providerCode = cause?.response?.data?.code;
+  }
+}
+
+/**
+ * Error thrown when a wallet doesn't exist
+ */
+export class WalletNotFoundError extends Error {
+  constructor(walletId: string) {
+    super(`Wallet ${walletId} not found`);
+    this.name = "WalletNotFoundError";
+  }
 }
 
-// Initialize the Circle SDK client
-// The SDK automatically handles Entity Secret ciphertext rotation for each request
-export const circleClient = initiateDeveloperControlledWalletsClient({
-  apiKey: API_KEY,
-  entitySecret: ENTITY_SECRET,
-});
+/**
+ * Wrap a provider so every call is logged with its duration (at debug level, failures at warn)
+ * under the provider's module name, e.g. LOG_LEVELS=circle=debug, and counted in the metrics
+ */
+function instrumentProvider(walletProvider: WalletProvider): WalletProvider {
+  const providerLog = createLogger(walletProvider.name);
+  const instrumented: Record<string, unknown> = { ...walletProvider };
+
+  for (const [method, fn] of Object.entries(walletProvider)) {
+    if (typeof fn !== "function") continue;
+    instrumented[method] = async (...args: unknown[]) => {
+      const startedAt = Date.now();
+      const observe = (outcome: "success" | "error") => {
+        walletProviderCalls.inc({ provider: walletProvider.name, method, outcome });
+        walletProviderCallDuration.observe({ provider: walletProvider.name, method }, secondsSince(startedAt));
+      };
+      try {
+        const result = await fn.apply(walletProvider, args);
+        observe("success");
+        providerLog.debug(`${method} succeeded`, { method, durationMs: Date.now() - startedAt });
+        return result;
+      } catch (error: any) {
+        observe("error");
+        providerLog.warn(`${method} failed`, {
+          method,
+          durationMs: Date.now() - startedAt,
+          status: error?.response?.status,
+          providerCode: error?.response?.data?.code,
+          error,
+        });
+        throw error;
+      }
+    };
+  }
+
+  return instrumented as unknown as WalletProvider;
+}
+
+/**
+ * Get the wallet provider of the app handling the request, else the configured one (created on first use)
+ * @throws Error if the provider is unknown or misconfigured
+ */
+export function getWalletProvider(): WalletProvider {
+  const appProvider = getDependencies().walletProvider;
+  if (appProvider) {
+    let instrumented = instrumentedProviders.get(appProvider);
+    if (!instrumented) {
+      instrumented = instrumentProvider(appProvider);
+      instrumentedProviders.set(appProvider, instrumented);
+    }
+    return instrumented;
+  }
+
+  if (!provider) {
+    switch (WALLET_PROVIDER) {
+      case "circle":
+        provider = instrumentProvider(createCircleWalletProvider());
+        break;
+      case "memory":
+        provider = instrumentProvider(createMemoryWalletProvider());
+        log.info("Using the in-memory wallet provider (no Circle calls are made)");
+        break;
+      default:
+        throw new Error(`Unknown WALLET_PROVIDER "${WALLET_PROVIDER}". Use one of: circle, memory.`);
+    }
+  }
+  return provider;
+}
 
 /**
  * Create a new wallet set
@@ -32,12 +159,9 @@ export const circleClient = initiateDeveloperControlledWalletsClient({
  */
 export async function createWalletSet(name: string) {
   try {
-    const response = await circleClient.createWalletSet({
-      name,
-    });
-    return response.data?.walletSet;
+    return await getWalletProvider().createWalletSet(name);
   } catch (error: any) {
-    throw new Error(`Failed to create wallet set: ${error.message || error}`);
+    throw new WalletProviderError("Failed to create wallet set", error);
   }
 }
 
@@ -47,23 +171,41 @@ export async function createWalletSet(name: string) {
  * @param blockchains - Array of blockchain codes (e.g., ["ARC-TESTNET"])
  * @param count - Number of wallets to create
  * @param accountType - "SCA" (Smart Contract Account) or "EOA" (Externally Owned Account)
+ * @param metadata - Name and reference ID given to every created wallet
  */
 export async function createWallets(
   walletSetId: string,
   blockchains: string[],
   count: number = 1,
-  accountType: "SCA" | "EOA" = "SCA"
+  accountType: "SCA" | "EOA" = "SCA",
+  metadata?: WalletMetadataInput
 ) {
   try {
-    const response = await circleClient.createWallets({
-      walletSetId,
-      blockchains: blockchains as any, // SDK expects specific blockchain types
-      count,
-      accountType,
-    });
-    return response.data?.wallets;
+    return await getWalletProvider().createWallets(walletSetId, blockchains, count, accountType, metadata);
+  } catch (error: any) {
+    throw new WalletProviderError("Failed to create wallets", error);
+  }
+}
+
+/**
+ * List all wallet sets
+ */
+export async function listWalletSets() {
+  try {
+    return await getWalletProvider().listWalletSets();
+  } catch (error: any) {
+    throw new WalletProviderError("Failed to list wallet sets", error);
+  }
+}
+
+/**
+ * Set the name and/or reference ID of a wallet
+ */
+export async function updateWallet(walletId: string, metadata: WalletMetadataInput) {
+  try {
+    return await getWalletProvider().updateWallet(walletId, metadata);
   } catch (error: any) {
-    throw new Error(`Failed to create wallets: ${error.message || error}`);
+    throw new WalletProviderError("Failed to update wallet", error);
   }
 }
 
@@ -72,12 +214,9 @@ export async function createWallets(
  */
 export async function getWallet(walletId: string) {
   try {
-    const response = await circleClient.getWallet({
-      id: walletId,
-    });
-    return response.data?.wallet;
+    return await getWalletProvider().getWallet(walletId);
   } catch (error: any) {
-    throw new Error(`Failed to get wallet: ${error.message || error}`);
+    throw new WalletProviderError("Failed to get wallet", error);
   }
 }
 
@@ -86,12 +225,9 @@ export async function getWallet(walletId: string) {
  */
 export async function listWallets(walletSetId: string) {
   try {
-    const response = await circleClient.listWallets({
-      walletSetId,
-    });
-    return response.data?.wallets;
+    return await getWalletProvider().listWallets(walletSetId);
   } catch (error: any) {
-    throw new Error(`Failed to list wallets: ${error.message || error}`);
+    throw new WalletProviderError("Failed to list wallets", error);
   }
 }
 
@@ -100,36 +236,74 @@ export async function listWallets(walletSetId: string) {
  */
 export async function getWalletBalance(walletId: string, tokenAddress?: string) {
   try {
-    const response = await circleClient.getWalletTokenBalance({
-      id: walletId,
-      ...(tokenAddress && { tokenAddresses: [tokenAddress] }),
-    });
-    return response.data?.tokenBalances;
+    return await getWalletProvider().getWalletBalance(walletId, tokenAddress);
   } catch (error: any) {
-    throw new Error(`Failed to get wallet balance: ${error.message || error}`);
+    throw new WalletProviderError("Failed to get wallet balance", error);
   }
 }
 
 /**
- * List transactions for one or more wallets
+ * Find the balance of a token in a wallet
+ * @param token - Circle token ID, or a symbol from the token registry (e.g., "EURC", "ETH")
+ * @throws TokenNotFoundError listing the wallet's tokens if it holds none of the requested token
+ */
+export async function resolveToken(walletId: string, token: string): Promise<Balance> {
+  const balances = (await getWalletBalance(walletId)) || [];
+  const balance = findBalance(balances, token);
+  if (!balance) {
+    throw tokenNotFound(`No ${token} balance found in wallet ${walletId}`, balances);
+  }
+  return balance;
+}
+
+function tokenNotFound(message: string, balances: Balance[]): TokenNotFoundError {
+  const available = balances.map((b) => describeToken(b.token).symbol);
+  return new TokenNotFoundError(`${message}. Available tokens: ${available.join(", ") || "none"}`, available);
+}
+
+/**
+ * List transactions for one or more wallets, newest first
  * @param walletIds - Array of wallet IDs to get transactions for
- * @param transactionType - Optional filter: "INBOUND" or "OUTBOUND"
- * @param state - Optional filter: transaction state (e.g., "COMPLETED", "CONFIRMED", "PENDING")
+ * @param filters - Optional filters:
+ *   - transactionType: "INBOUND" or "OUTBOUND"
+ *   - state: transaction state (e.g., "COMPLETE", "CONFIRMED", "FAILED")
+ *   - from, to: ISO 8601 date range (inclusive)
+ *   - tokenId, destinationAddress: only transfers of this token / to this address
+ *   - pageSize: page size (default: 10, max: 50)
+ *   - pageAfter: ID of the last transaction of the previous page, to get older transactions
+ *   - pageBefore: ID of the first transaction of the current page, to get newer transactions
  */
-export async function listTransactions(
-  walletIds: string[],
-  transactionType?: "INBOUND" | "OUTBOUND",
-  state?: string
-) {
+export async function listTransactions(walletIds: string[], filters: TransactionFilters = {}) {
+  const { transactionType, tokenId, ...query } = filters;
+  const pageSize = Math.min(filters.pageSize || DEFAULT_TRANSACTION_PAGE_SIZE, MAX_TRANSACTION_PAGE_SIZE);
+
   try {
-    const response = await circleClient.listTransactions({
-      walletIds,
-      ...(transactionType && { transactionType: transactionType as any }), // SDK expects specific type
-      ...(state && { state: state as any }), // SDK expects specific TransactionState type
-    });
-    return response.data?.transactions;
+    const request: TransactionQuery = { ...query, walletIds, txType: transactionType, pageSize };
+    if (!tokenId) {
+      return await getWalletProvider().listTransactions(request);
+    }
+
+    // Circle can't filter by token: keep reading in the same direction until the page is full
+    const matches: Transaction[] = [];
+    for (let i = 0; i < MAX_TOKEN_FILTER_PAGES; i++) {
+      const page = (await getWalletProvider().listTransactions(request)) || [];
+      const pageMatches = page.filter((tx) => tx.tokenId === tokenId);
+      if (request.pageBefore) {
+        matches.unshift(...pageMatches);
+      } else {
+        matches.push(...pageMatches);
+      }
+      if (page.length < pageSize || matches.length >= pageSize) break;
+
+      if (request.pageBefore) {
+        request.pageBefore = page[0].id;
+      } else {
+        request.pageAfter = page[page.length - 1].id;
+      }
+    }
+    return request.pageBefore ? matches.slice(-pageSize) : matches.slice(0, pageSize);
   } catch (error: any) {
-    throw new Error(`Failed to list transactions: ${error.message || error}`);
+    throw new WalletProviderError("Failed to list transactions", error);
   }
 }
 
@@ -138,12 +312,9 @@ export async function listTransactions(
  */
 export async function getTransaction(transactionId: string) {
   try {
-    const response = await circleClient.getTransaction({
-      id: transactionId,
-    });
-    return response.data?.transaction;
+    return await getWalletProvider().getTransaction(transactionId);
   } catch (error: any) {
-    throw new Error(`Failed to get transaction: ${error.message || error}`);
+    throw new WalletProviderError("Failed to get transaction", error);
   }
 }
 
@@ -152,49 +323,245 @@ export async function getTransaction(transactionId: string) {
  */
 export async function listAllWallets() {
   try {
-    const response = await circleClient.listWallets({});
-    return response.data?.wallets;
+    return await getWalletProvider().listWallets();
   } catch (error: any) {
-    throw new Error(`Failed to list wallets: ${error.message || error}`);
+    throw new WalletProviderError("Failed to list wallets", error);
   }
 }
 
+// Transaction states that never moved funds and don't count towards spending limits
+const NON_SPENDING_STATES = ["FAILED", "CANCELLED", "DENIED"];
+
+// Pages of outgoing transfers read at most for the spending history; beyond it the transfer is refused
+const MAX_SPENDING_HISTORY_PAGES = 20;
+
+/**
+ * Evaluate a transfer against the source wallet's spending policy
+ * @param token - Circle token ID, or a symbol from the token registry (e.g., "USDC")
+ */
+export async function evaluateTransferPolicy(
+  walletId: string,
+  token: string,
+  destinationAddress: string,
+  amount: string
+): Promise<PolicyDecision> {
+  const balance = await resolveToken(walletId, token);
+  return checkTransferPolicy(walletId, balance.token, destinationAddress, amount);
+}
+
+/**
+ * Evaluate a transfer of a wallet token against the spending policy
+ * Fetches the wallet's outgoing transfers of the last 7 days when daily/weekly caps apply
+ */
+async function checkTransferPolicy(
+  walletId: string,
+  token: Token,
+  destinationAddress: string,
+  amount: string
+): Promise<PolicyDecision> {
+  let recentOutgoing: OutgoingTransfer[] = [];
+
+  if (requiresSpendingHistory(walletId, token)) {
+    try {
+      const since = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString();
+      const transactions: Transaction[] = [];
+      let pageAfter: string | undefined;
+
+      // Walk all pages of the last 7 days
+      for (let pages = 0; ; pages++) {
+        if (pages === MAX_SPENDING_HISTORY_PAGES) {
+          throw new Error(`more than ${MAX_SPENDING_HISTORY_PAGES} pages of outgoing transfers`);
+        }
+        const page =
+          (await getWalletProvider().listTransactions({
+            walletIds: [walletId],
+            txType: "OUTBOUND",
+            from: since,
+            pageSize: MAX_TRANSACTION_PAGE_SIZE,
+            pageAfter,
+          })) || [];
+        transactions.push(...page);
+        if (page.length < MAX_TRANSACTION_PAGE_SIZE) break;
+
+        const lastId = page[page.length - 1].id;
+        if (lastId === pageAfter) {
+          throw new Error("the transaction cursor did not advance");
+        }
+        pageAfter = lastId;
+      }
+
+      recentOutgoing = transactions
+        .filter((tx) => tx.tokenId === token.id && !NON_SPENDING_STATES.includes(tx.state))
+        .map((tx) => ({
+          amount: (tx.amounts || []).reduce(
+            (total, value) => addAmounts(total, parseAmount(value, POLICY_DECIMALS)),
+            parseAmount("0", POLICY_DECIMALS)
+          ),
+          createDate: new Date(tx.createDate),
+        }));
+    } catch (error: any) {
+      throw new WalletProviderError("Failed to load spending history", error);
+    }
+  }
+
+  return evaluateTransfer({ walletId, token, destinationAddress, amount }, recentOutgoing);
+}
+
+// Tail of each wallet's queue of transfers
+const walletQueues = new Map<string, Promise<unknown>>();
+
+/**
+ * Run the transfers of a wallet one at a time, so two transfers can't both pass
+ * the spending policy before either is submitted
+ */
+async function runExclusive<T>(walletId: string, run: () => Promise<T>): Promise<T> {
+  const result = (walletQueues.get(walletId) || Promise.resolve()).then(run);
+  const tail = result.catch(() => undefined);
+  walletQueues.set(walletId, tail);
+  try {
+    return await result;
+  } finally {
+    if (walletQueues.get(walletId) === tail) {
+      walletQueues.delete(walletId);
+    }
+  }
+}
+
+/**
+ * Check a transfer before it is estimated or sent
+ * @returns the destination and amount normalized, with the balance of the transferred token
+ * @throws WalletNotFoundError, or TokenNotFoundError if the wallet doesn't hold the token
+ * @throws AddressValidationError if the destination isn't a valid address for the wallet's blockchain
+ * @throws InvalidAmountError if the amount is malformed, too precise for the token or above the balance
+ */
+async function prepareTransfer(walletId: string, tokenId: string, destinationAddress: string, amount: string) {
+  const wallet = await getWallet(walletId);
+  if (!wallet) {
+    throw new WalletNotFoundError(walletId);
+  }
+  const destination = validateAddress(destinationAddress, wallet.blockchain, wallet.address);
+  if (!destination.valid) {
+    throw new AddressValidationError(destination.issues);
+  }
+
+  const balances = (await getWalletBalance(walletId)) || [];
+  const balance = findBalance(balances, tokenId);
+  if (!balance) {
+    throw tokenNotFound(`Token ${tokenId} not found in wallet ${walletId}`, balances);
+  }
+  const available = balanceAmount(balance);
+  const transferAmount = parseAmount(amount, available.decimals);
+  if (transferAmount.units <= BigInt(0)) {
+    throw new InvalidAmountError("Amount must be greater than zero");
+  }
+  if (compareAmounts(transferAmount, available) > 0) {
+    throw new InvalidAmountError(
+      `Insufficient balance. Available: ${formatAmount(available)} ${balance.token.symbol}, requested: ${formatAmount(transferAmount)}`
+    );
+  }
+
+  return { destinationAddress: destination.address, amount: transferAmount, balance, balances };
+}
+
+/**
+ * Estimate the network fee of a transfer at each fee level
+ * @param walletId - Source wallet ID
+ * @param tokenId - Token ID to transfer, or its symbol from the token registry (e.g., "EURC")
+ * @param destinationAddress - Destination wallet address
+ * @param amount - Amount to transfer (as string, e.g., "0.01")
+ * @throws AddressValidationError if the destination isn't a valid address for the wallet's blockchain
+ * @throws InvalidAmountError if the amount is malformed, too precise for the token or above the balance
+ */
+export async function estimateTransferFee(
+  walletId: string,
+  tokenId: string,
+  destinationAddress: string,
+  amount: string
+): Promise<TransferFeeEstimate> {
+  const transfer = await prepareTransfer(walletId, tokenId, destinationAddress, amount);
+
+  let fees;
+  try {
+    fees = await getWalletProvider().estimateTransferFee({
+      walletId,
+      tokenId: transfer.balance.token.id,
+      destinationAddress: transfer.destinationAddress,
+      amount: formatAmount(transfer.amount),
+    });
+  } catch (error: any) {
+    throw new WalletProviderError("Failed to estimate transfer fee", error);
+  }
+
+  // Fees are paid in the blockchain's native token, which may be the token being sent
+  const token = transfer.balance.token;
+  const feeToken = token.isNative ? token : transfer.balances.find((b) => b.token.isNative)?.token;
+  const levels: FeeLevelEstimate[] = [];
+  for (const feeLevel of ["LOW", "MEDIUM", "HIGH"] as FeeLevel[]) {
+    const networkFee = fees?.[feeLevel.toLowerCase() as "low" | "medium" | "high"]?.networkFee;
+    if (!networkFee) continue;
+    levels.push({
+      feeLevel,
+      networkFee,
+      ...(token.isNative && {
+        totalCost: formatAmount(addAmounts(transfer.amount, parseAmount(networkFee, MAX_TOKEN_DECIMALS))),
+      }),
+    });
+  }
+
+  return {
+    amount: formatAmount(transfer.amount),
+    tokenSymbol: describeToken(token).symbol,
+    feeTokenSymbol: feeToken?.symbol || "native token",
+    levels,
+  };
+}
+
 /**
  * Transfer tokens from one wallet to another
  * @param walletId - Source wallet ID
- * @param tokenId - Token ID to transfer (from wallet balance)
+ * @param tokenId - Token ID to transfer, or its symbol from the token registry (e.g., "EURC")
  * @param destinationAddress - Destination wallet address
  * @param amount - Amount to transfer (as string, e.g., "0.01")
  * @param feeLevel - Fee level: "LOW", "MEDIUM", or "HIGH" (default: "MEDIUM")
  * @param idempotencyKey - Optional UUID v4 idempotency key (auto-generated if not provided)
+ * @throws AddressValidationError if the destination isn't a valid address for the wallet's blockchain
+ * @throws InvalidAmountError if the amount is malformed, too precise for the token or above the balance
+ * @throws PolicyViolationError if the wallet's spending policy rejects the transfer
  */
 export async function transferTokens(
   walletId: string,
   tokenId: string,
   destinationAddress: string,
   amount: string,
-  feeLevel: "LOW" | "MEDIUM" | "HIGH" = "MEDIUM",
+  feeLevel: FeeLevel = "MEDIUM",
   idempotencyKey?: string
 ) {
-  try {
-    // Generate idempotency key if not provided
-    const idempotency = idempotencyKey || crypto.randomUUID();
+  return runExclusive(walletId, async () => {
+    const transfer = await prepareTransfer(walletId, tokenId, destinationAddress, amount);
+    const token = transfer.balance.token;
+    destinationAddress = transfer.destinationAddress;
+    amount = formatAmount(transfer.amount);
 
-    const response = await circleClient.createTransaction({
-      walletId,
-      tokenId,
-      destinationAddress,
-      amount: [amount], // SDK expects 'amount' (singular) as array
-      fee: {
-        type: "level",
-        config: {
-          feeLevel,
-        },
-      },
-      idempotencyKey: idempotency,
-    });
-    return response.data;
-  } catch (error: any) {
-    throw new Error(`Failed to transfer tokens: ${error.message || error}`);
-  }
-}
\ No newline at end of file
+    // Enforce the spending policy before anything is sent to the provider
+    const decision = await checkTransferPolicy(walletId, token, destinationAddress, amount);
+    if (!decision.allowed) {
+      throw new PolicyViolationError(decision.reasons);
+    }
+
+    try {
+      // Generate idempotency key if not provided
+      const idempotency = idempotencyKey || crypto.randomUUID();
+
+      return await getWalletProvider().createTransfer({
+        walletId,
+        tokenId: token.id,
+        destinationAddress,
+        amount,
+        feeLevel,
+        idempotencyKey: idempotency,
+      });
+    } catch (error: any) {
+      throw new WalletProviderError("Failed to transfer tokens", error);
+    }
+  });
+}
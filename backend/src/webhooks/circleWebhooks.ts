@@ -0,0 +1,159 @@
+/**
+ * Circle Webhooks
+ *
+ * Verifies Circle notification signatures, stores each notification once and
+ * dispatches transaction updates on the wallet event bus.
+ */
+
+import { createVerify } from 'crypto';
+import dotenv from 'dotenv';
+import { getDatabase } from '../db/database';
+import { getWalletProvider } from '../wallet/walletManager';
+import { walletEvents } from './events';
+import { CircleNotification, TransactionEvent } from './types';
+import { createLogger } from '../logging/logger';
+
+dotenv.config();
+
+const log = createLogger('webhooks');
+
+// Static public key (base64 DER) trusted for every key ID, e.g. to replay recorded payloads offline
+const CIRCLE_WEBHOOK_PUBLIC_KEY = process.env.CIRCLE_WEBHOOK_PUBLIC_KEY;
+
+// Circle transaction states that mean an outbound transfer will never settle
+const FAILED_TRANSACTION_STATES = ['FAILED', 'CANCELLED', 'DENIED'];
+
+/**
+ * Public keys by key ID (Circle rotates keys rarely, so they are cached for the process lifetime)
+ */
+const publicKeys = new Map<string, string>();
+
+async function getPublicKey(keyId: string): Promise<string | undefined> {
+  if (CIRCLE_WEBHOOK_PUBLIC_KEY) {
+    return CIRCLE_WEBHOOK_PUBLIC_KEY;
+  }
+  if (!publicKeys.has(keyId)) {
+    const publicKey = await getWalletProvider().getNotificationPublicKey?.(keyId);
+    if (publicKey) {
+      publicKeys.set(keyId, publicKey);
+    }
+  }
+  return publicKeys.get(keyId);
+}
+
+/**
+ * Verify the X-Circle-Signature of a notification (ECDSA with SHA-256 over the raw body)
+ */
+export async function verifyNotificationSignature(
+  rawBody: Buffer,
+  signature: string,
+  keyId: string
+): Promise<boolean> {
+  const publicKey = await getPublicKey(keyId);
+  if (!publicKey) {
+    return false;
+  }
+
+  try {
+    return createVerify('SHA256')
+      .update(rawBody)
+      .verify({ key: Buffer.from(publicKey, 'base64'), format: 'der', type: 'spki' }, signature, 'base64');
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Extract the transaction update of a transactions.* notification
+ */
+function toTransactionEvent(notification: CircleNotification): TransactionEvent | undefined {
+  const transaction = notification.notification;
+  if (!notification.notificationType.startsWith('transactions.') || !transaction?.id || !transaction.state) {
+    return undefined;
+  }
+
+  return {
+    notificationId: notification.notificationId,
+    transactionId: transaction.id,
+    walletId: transaction.walletId,
+    transactionType: transaction.transactionType,
+    state: transaction.state,
+    tokenId: transaction.tokenId,
+    amounts: transaction.amounts || [],
+    txHash: transaction.txHash,
+    destinationAddress: transaction.destinationAddress,
+    occurredAt: new Date(transaction.updateDate || notification.timestamp || Date.now()),
+  };
+}
+
+/**
+ * Store a verified notification and dispatch its transaction update
+ * @returns duplicate: true when the notification was already processed (Circle retries deliveries)
+ */
+export function processNotification(notification: CircleNotification): { duplicate: boolean; event?: TransactionEvent } {
+  const db = getDatabase();
+  const event = toTransactionEvent(notification);
+
+  const inserted = db.transaction(() => {
+    const result = db
+      .prepare(`
+        INSERT OR IGNORE INTO webhook_notifications (notification_id, subscription_id, notification_type, payload, received_at)
+        VALUES (?, ?, ?, ?, ?)
+      `)
+      .run(
+        notification.notificationId,
+        notification.subscriptionId ?? null,
+        notification.notificationType,
+        JSON.stringify(notification),
+        new Date().toISOString()
+      );
+    if (result.changes === 0) {
+      return false;
+    }
+
+    if (event) {
+      db.prepare(`
+        INSERT INTO transaction_events (notification_id, transaction_id, wallet_id, transaction_type, state, token_id, amounts, tx_hash, occurred_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        event.notificationId,
+        event.transactionId,
+        event.walletId ?? null,
+        event.transactionType ?? null,
+        event.state,
+        event.tokenId ?? null,
+        JSON.stringify(event.amounts),
+        event.txHash ?? null,
+        event.occurredAt.toISOString()
+      );
+    }
+    return true;
+  })();
+
+  if (!inserted) {
+    return { duplicate: true };
+  }
+
+  if (event) {
+    dispatchTransactionEvent(event);
+  }
+  return { duplicate: false, event };
+}
+
+/**
+ * Emit the internal event matching a transaction update, if any
+ */
+function dispatchTransactionEvent(event: TransactionEvent) {
+  try {
+    if (event.transactionType === 'INBOUND' && event.state === 'COMPLETE') {
+      walletEvents.emit('inbound_received', event);
+    } else if (event.transactionType === 'OUTBOUND' && event.state === 'COMPLETE') {
+      walletEvents.emit('outbound_completed', event);
+    } else if (event.transactionType === 'OUTBOUND' && FAILED_TRANSACTION_STATES.includes(event.state)) {
+      walletEvents.emit('outbound_failed', event);
+    }
+  } catch (error: any) {
+    // A failing subscriber must not make Circle retry an already stored notification
+    log.error('Webhook subscriber failed', { transactionId: event.transactionId, error });
+  }
+}
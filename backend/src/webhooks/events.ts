@@ -0,0 +1,11 @@
+/**
+ * Wallet Events
+ *
+ * In-process event bus for transaction updates received from Circle.
+ * Subscribe with walletEvents.on('inbound_received' | 'outbound_completed' | 'outbound_failed', handler).
+ */
+
+import { EventEmitter } from 'events';
+import { WalletEventMap } from './types';
+
+export const walletEvents = new EventEmitter<WalletEventMap>();
@@ -0,0 +1,41 @@
+/**
+ * Webhook Type Definitions
+ */
+
+/**
+ * Circle notification envelope
+ * See https://developers.circle.com/w3s/web3-services-notifications-quickstart
+ */
+export interface CircleNotification {
+  subscriptionId: string;
+  notificationId: string;
+  notificationType: string; // e.g. "transactions.inbound", "transactions.outbound", "webhooks.test"
+  notification: any;
+  timestamp: string;
+  version: number;
+}
+
+/**
+ * Transaction state change carried by a transactions.* notification
+ */
+export interface TransactionEvent {
+  notificationId: string;
+  transactionId: string;
+  walletId?: string;
+  transactionType?: 'INBOUND' | 'OUTBOUND';
+  state: string;
+  tokenId?: string;
+  amounts: string[];
+  txHash?: string;
+  destinationAddress?: string;
+  occurredAt: Date;
+}
+
+/**
+ * Internal events other modules can subscribe to
+ */
+export interface WalletEventMap {
+  inbound_received: [TransactionEvent];
+  outbound_completed: [TransactionEvent];
+  outbound_failed: [TransactionEvent];
+}
@@ -0,0 +1,56 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { toChecksumAddress, validateAddress } from '../src/wallet/address';
+
+// Test vectors of EIP-55
+const CHECKSUMMED = [
+  '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed',
+  '0xfB6916095ca1df60bB79Ce92cE3Ea74c37c5d359',
+  '0xdbF03B407c01E7cD3CBea99509d93f8DDDC8C6FB',
+  '0xD1220A0cf47c7B9Be7A2E6BA89F429762e7b9aDb',
+];
+
+const codes = (address: string, blockchain: string = 'ARC-TESTNET', sourceAddress?: string) =>
+  validateAddress(address, blockchain, sourceAddress).issues.map((issue) => issue.code);
+
+describe('address validation', () => {
+  it('computes EIP-55 checksums', () => {
+    for (const address of CHECKSUMMED) {
+      assert.equal(toChecksumAddress(address.toLowerCase()), address);
+    }
+  });
+
+  it('accepts EVM addresses with a valid checksum or none, and normalizes them', () => {
+    for (const address of CHECKSUMMED) {
+      assert.deepEqual(validateAddress(address, 'ETH-SEPOLIA'), { valid: true, issues: [], address });
+      assert.equal(validateAddress(address.toLowerCase(), 'ETH-SEPOLIA').address, address);
+      assert.equal(validateAddress(`0x${address.slice(2).toUpperCase()}`, 'ETH-SEPOLIA').valid, true);
+    }
+  });
+
+  it('rejects mistyped and malformed EVM addresses', () => {
+    // One letter's case flipped
+    assert.deepEqual(codes('0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAeD'), ['INVALID_CHECKSUM']);
+    assert.deepEqual(codes('0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeA'), ['INVALID_FORMAT']);
+    assert.deepEqual(codes('5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed'), ['INVALID_FORMAT']);
+    assert.deepEqual(codes('0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAeg'), ['INVALID_FORMAT']);
+  });
+
+  it('flags the zero address and transfers to the source wallet', () => {
+    assert.deepEqual(codes(`0x${'0'.repeat(40)}`), ['ZERO_ADDRESS']);
+    assert.deepEqual(codes(CHECKSUMMED[0], 'ARC-TESTNET', CHECKSUMMED[0].toLowerCase()), ['SELF_TRANSFER']);
+  });
+
+  it('validates addresses of non-EVM chains', () => {
+    assert.deepEqual(codes('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', 'SOL-DEVNET'), []);
+    assert.deepEqual(codes('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt10', 'SOL-DEVNET'), ['INVALID_FORMAT']);
+    assert.deepEqual(codes('11111111111111111111111111111111', 'SOL-DEVNET'), ['ZERO_ADDRESS']);
+    assert.deepEqual(codes(CHECKSUMMED[0], 'SOL-DEVNET'), ['INVALID_FORMAT']);
+
+    assert.equal(validateAddress('0xA1', 'APTOS-TESTNET').address, '0xa1');
+    assert.deepEqual(codes('0x0', 'APTOS-TESTNET'), ['ZERO_ADDRESS']);
+
+    assert.deepEqual(codes('alice.testnet', 'NEAR-TESTNET'), []);
+    assert.deepEqual(codes('Alice..near', 'NEAR-TESTNET'), ['INVALID_FORMAT']);
+  });
+});
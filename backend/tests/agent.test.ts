@@ -0,0 +1,126 @@
+import './setup';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { z } from 'zod';
+import { DynamicStructuredTool, StructuredToolInterface } from '@langchain/core/tools';
+import { testDependencies, USER_WALLET_ID } from './helpers';
+import { processMessage } from '../src/agent/agent';
+import { ScriptedStep, ScriptedChatModel } from '../src/agent/scriptedModel';
+import { AgentStreamEvent, ProcessMessageOptions } from '../src/agent/types';
+import { checkWalletBalanceTool } from '../src/agent/tools/wallet.tools';
+import { withDependencies } from '../src/dependencies';
+
+// Records the wallets it was invoked with
+const invokedWith: string[][] = [];
+const sweepTool = new DynamicStructuredTool({
+  name: 'sweep_wallets',
+  description: 'Move funds from several wallets into one',
+  schema: z.object({
+    sourceWalletIds: z.array(z.string()),
+    targetWalletId: z.string(),
+  }),
+  func: async ({ sourceWalletIds, targetWalletId }) => {
+    invokedWith.push([...sourceWalletIds, targetWalletId]);
+    return 'Swept';
+  },
+});
+
+/**
+ * Process a message with a model replaying the steps
+ */
+function runScript(steps: ScriptedStep[], options: ProcessMessageOptions = {}, tools: StructuredToolInterface[] = [sweepTool]) {
+  const chatModel = () => new ScriptedChatModel({ turns: [{ steps }] });
+  return withDependencies(testDependencies({ chatModel }), () => processMessage('sweep', 'wallet-mine', tools, options));
+}
+
+function runTurn(args: Record<string, any>) {
+  return runScript([{ toolCalls: [{ name: 'sweep_wallets', args }] }, { content: 'Done.' }], {
+    allowedWalletIds: ['wallet-mine', 'wallet-savings'],
+  });
+}
+
+describe('agent wallet guard', () => {
+  it('runs tool calls on the user\'s wallets', async () => {
+    const response = await runTurn({ sourceWalletIds: ['wallet-savings'], targetWalletId: 'wallet-mine' });
+    assert.equal(response.toolCalls[0].error, undefined);
+    assert.deepEqual(invokedWith, [['wallet-savings', 'wallet-mine']]);
+  });
+
+  it('refuses tool calls naming another wallet in any wallet argument', async () => {
+    invokedWith.length = 0;
+    for (const args of [
+      { sourceWalletIds: ['wallet-savings', 'wallet-other'], targetWalletId: 'wallet-mine' },
+      { sourceWalletIds: ['wallet-savings'], targetWalletId: 'wallet-other' },
+    ]) {
+      const response = await runTurn(args);
+      assert.equal(response.toolCalls[0].error, true);
+      assert.match(response.toolCalls[0].output, /Wallet wallet-other not found among the user's wallets/);
+    }
+    assert.deepEqual(invokedWith, []);
+  });
+});
+
+describe('agent streaming', () => {
+  it('emits tool progress and the answer as the turn runs', async () => {
+    const events: AgentStreamEvent[] = [];
+    const response = await runScript(
+      [{ toolCalls: [{ name: 'sweep_wallets', args: { sourceWalletIds: ['wallet-savings'], targetWalletId: 'wallet-mine' } }] }, { content: 'Done.' }],
+      { onEvent: (event) => events.push(event) }
+    );
+
+    assert.deepEqual(events, [
+      {
+        type: 'tool_start',
+        id: 'scripted_0_0',
+        name: 'sweep_wallets',
+        args: { sourceWalletIds: ['wallet-savings'], targetWalletId: 'wallet-mine' },
+      },
+      { type: 'tool_end', id: 'scripted_0_0', name: 'sweep_wallets', result: 'Swept' },
+      { type: 'token', content: 'Done.' },
+    ]);
+    assert.equal(response.message, 'Done.');
+  });
+
+  it('reports failed tools as errors', async () => {
+    const events: AgentStreamEvent[] = [];
+    await runScript([{ toolCalls: [{ name: 'sweep_wallets', args: { sourceWalletIds: 'wallet-savings' } }] }, { content: 'Sorry.' }], {
+      onEvent: (event) => events.push(event),
+    });
+
+    const toolEnd = events.find((event) => event.type === 'tool_end');
+    assert.equal(toolEnd?.type === 'tool_end' && toolEnd.error, true);
+  });
+});
+
+describe('agent responses', () => {
+  it('returns the structured results of the tool calls', async () => {
+    const response = await runScript(
+      [{ toolCalls: [{ name: 'check_wallet_balance', args: { walletId: USER_WALLET_ID } }] }, { content: 'You have 25 USDC.' }],
+      {},
+      [checkWalletBalanceTool]
+    );
+
+    assert.equal(response.message, 'You have 25 USDC.');
+    assert.equal(response.provider, 'scripted');
+    assert.equal(response.error, undefined);
+    assert.deepEqual(response.actions, [{ type: 'balance', balances: [{ tokenId: 'memory-usdc', symbol: 'USDC', amount: '25' }] }]);
+    assert.equal(response.toolCalls[0].name, 'check_wallet_balance');
+    assert.match(response.toolCalls[0].output, /25 USDC/);
+    assert.ok(response.toolCalls[0].durationMs >= 0);
+  });
+
+  it('answers with the last tool output when the model says nothing', async () => {
+    const response = await runScript([
+      { toolCalls: [{ name: 'sweep_wallets', args: { sourceWalletIds: [], targetWalletId: 'wallet-mine' } }] },
+      { content: '' },
+    ]);
+    assert.equal(response.message, 'Swept');
+    assert.deepEqual(response.actions, []);
+  });
+
+  it('reports tools the model made up', async () => {
+    const response = await runScript([{ toolCalls: [{ name: 'drain_wallet', args: {} }] }, { content: 'Sorry.' }]);
+    assert.equal(response.toolCalls[0].error, true);
+    assert.equal(response.toolCalls[0].output, 'Tool drain_wallet not found');
+  });
+});
@@ -0,0 +1,47 @@
+import './setup';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Balance } from '@circle-fin/developer-controlled-wallets';
+import { addAmounts, balanceAmount, compareAmounts, formatAmount, InvalidAmountError, parseAmount } from '../src/wallet/amount';
+
+describe('token amounts', () => {
+  it('parses decimal strings into smallest units', () => {
+    assert.deepEqual(parseAmount('0.15'), { units: BigInt(150000), decimals: 6 });
+    assert.deepEqual(parseAmount(' 12 ', 2), { units: BigInt(1200), decimals: 2 });
+    assert.deepEqual(parseAmount('1.000000000000000001', 18), { units: BigInt('1000000000000000001'), decimals: 18 });
+    // Trailing zeros beyond the token's precision are not a loss of precision
+    assert.deepEqual(parseAmount('0.1500000'), { units: BigInt(150000), decimals: 6 });
+  });
+
+  it('rejects malformed amounts and amounts more precise than the token', () => {
+    for (const invalid of ['', '-1', '1e-7', '.5', '1.', '0x10', 'ten', '1,5']) {
+      assert.throws(() => parseAmount(invalid), InvalidAmountError, invalid);
+    }
+    assert.throws(() => parseAmount('0.0000001'), /more than 6 decimal places/);
+  });
+
+  it('formats amounts without trailing zeros', () => {
+    assert.equal(formatAmount({ units: BigInt(150000), decimals: 6 }), '0.15');
+    assert.equal(formatAmount({ units: BigInt(5), decimals: 6 }), '0.000005');
+    assert.equal(formatAmount({ units: BigInt(2000000), decimals: 6 }), '2');
+    assert.equal(formatAmount({ units: BigInt(0), decimals: 0 }), '0');
+  });
+
+  it('adds and compares amounts of different precision without rounding', () => {
+    // 0.1 + 0.2 is 0.30000000000000004 with numbers
+    const sum = addAmounts(parseAmount('0.1'), parseAmount('0.2', 18));
+    assert.equal(formatAmount(sum), '0.3');
+    assert.equal(sum.decimals, 18);
+
+    assert.equal(compareAmounts(sum, parseAmount('0.3', 2)), 0);
+    assert.equal(compareAmounts(parseAmount('0.15'), parseAmount('0.2')), -1);
+    assert.equal(compareAmounts(parseAmount('1'), parseAmount('0.999999999999999999', 18)), 1);
+  });
+
+  it('reads balances with the decimals of their token', () => {
+    const balance = (token: Partial<Balance['token']>, amount: string) => ({ token, amount, updateDate: '' }) as Balance;
+    assert.deepEqual(balanceAmount(balance({ symbol: 'ETH', decimals: 18 }, '0.5')), parseAmount('0.5', 18));
+    // Registry decimals when the token doesn't report them
+    assert.equal(balanceAmount(balance({ symbol: 'USDC' }, '1.25')).decimals, 6);
+  });
+});
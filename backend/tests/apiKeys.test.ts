@@ -0,0 +1,85 @@
+import './setup';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash } from 'crypto';
+import {
+  hasScope,
+  isApiKey,
+  issueApiKey,
+  listApiKeys,
+  revokeApiKey,
+  rotateApiKey,
+  verifyApiKey,
+} from '../src/apiKeys/apiKeys';
+import { createUser } from '../src/users/users';
+import { getDatabase } from '../src/db/database';
+
+const user = createUser('keys@example.com', 'correct-horse-battery');
+
+describe('API keys', () => {
+  it('stores only the SHA-256 hash of the secret', () => {
+    const { apiKey, key } = issueApiKey({ name: 'reporting', scopes: ['read'] });
+    assert.match(key, /^wk_[0-9a-f]{16}_[A-Za-z0-9_-]{43}$/);
+
+    const { key_hash } = getDatabase().prepare('SELECT key_hash FROM api_keys WHERE id = ?').get(apiKey.id) as any;
+    const secret = key.split('_').slice(2).join('_');
+    assert.equal(key_hash, createHash('sha256').update(secret).digest('hex'));
+    assert.doesNotMatch(JSON.stringify(getDatabase().prepare('SELECT * FROM api_keys').all()), new RegExp(secret));
+  });
+
+  it('verifies issued keys and the bootstrap key', () => {
+    const { apiKey, key } = issueApiKey({ name: 'bot', userId: user.id, scopes: ['read', 'transfer'], walletIds: ['wallet-1'] });
+
+    const verified = verifyApiKey(key)!;
+    assert.equal(verified.id, apiKey.id);
+    assert.deepEqual(verified.walletIds, ['wallet-1']);
+    assert.ok(verified.lastUsedAt);
+
+    assert.equal(verifyApiKey(`${key.slice(0, -1)}${key.endsWith('A') ? 'B' : 'A'}`), undefined);
+    assert.equal(verifyApiKey('wk_unknown'), undefined);
+    assert.equal(verifyApiKey('test-admin-key')?.id, 'env');
+
+    assert.equal(isApiKey(key), true);
+    assert.equal(isApiKey('test-admin-key'), true);
+    assert.equal(isApiKey('session-token'), false);
+  });
+
+  it('grants scopes, with admin granting all of them', () => {
+    const reader = issueApiKey({ name: 'reader', scopes: ['read'] }).apiKey;
+    const admin = issueApiKey({ name: 'admin', scopes: ['admin'] }).apiKey;
+    assert.equal(hasScope(reader, 'read'), true);
+    assert.equal(hasScope(reader, 'transfer'), false);
+    assert.equal(hasScope(admin, 'transfer'), true);
+  });
+
+  it('refuses expired and revoked keys', () => {
+    const expired = issueApiKey({ name: 'expired', scopes: ['read'], expiresAt: new Date(Date.now() - 1000) });
+    assert.equal(verifyApiKey(expired.key), undefined);
+
+    const revoked = issueApiKey({ name: 'revoked', scopes: ['read'] });
+    assert.ok(revokeApiKey(revoked.apiKey.id)?.revokedAt);
+    assert.equal(verifyApiKey(revoked.key), undefined);
+    assert.equal(revokeApiKey('missing'), undefined);
+  });
+
+  it('rotates a key into a new secret with the same settings', () => {
+    const owner = createUser('rotation@example.com', 'correct-horse-battery');
+    const expiresAt = new Date(Date.now() + 60 * 60 * 1000);
+    const original = issueApiKey({ name: 'payouts', userId: owner.id, scopes: ['transfer'], walletIds: ['wallet-2'], expiresAt });
+
+    const rotated = rotateApiKey(original.apiKey.id)!;
+    assert.notEqual(rotated.apiKey.id, original.apiKey.id);
+    assert.equal(verifyApiKey(original.key), undefined);
+
+    const verified = verifyApiKey(rotated.key)!;
+    assert.deepEqual(
+      [verified.name, verified.userId, verified.scopes, verified.walletIds, verified.expiresAt],
+      ['payouts', owner.id, ['transfer'], ['wallet-2'], expiresAt]
+    );
+    assert.equal(rotateApiKey(original.apiKey.id), undefined);
+    assert.deepEqual(
+      listApiKeys(owner.id).map((apiKey) => apiKey.id).sort(),
+      [original.apiKey.id, rotated.apiKey.id].sort()
+    );
+  });
+});
@@ -0,0 +1,72 @@
+import './setup';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import request from 'supertest';
+import { listAgentTurns, recordAgentTurn } from '../src/agent/audit';
+import { AgentResponse, AgentToolCall } from '../src/agent/types';
+import { ScriptedChatModel } from '../src/agent/scriptedModel';
+import { getDatabase } from '../src/db/database';
+import { createTestApp, loginAs, RECIPIENT_ADDRESS, USER_WALLET_ID } from './helpers';
+
+function response(message: string, toolCalls: AgentToolCall[] = []): AgentResponse {
+  return { message, toolCalls, actions: [], provider: 'scripted', model: 'scripted' };
+}
+
+const balanceCall: AgentToolCall = {
+  id: 'call-1',
+  name: 'check_wallet_balance',
+  args: { walletId: 'wallet-a' },
+  output: 'Wallet balances: 1 USDC',
+  result: { type: 'balance', balances: [{ tokenId: 'usdc', symbol: 'USDC', amount: '1' }] },
+  durationMs: 3,
+};
+
+describe('agent audit trail', () => {
+  it('stores turns with their tool calls', () => {
+    const startedAt = new Date('2026-03-01T10:00:00Z');
+    const failedCall: AgentToolCall = { id: 'call-2', name: 'transfer_tokens', args: {}, output: 'Error: no', error: true, durationMs: 1 };
+    const entry = recordAgentTurn(
+      { sessionId: 'session-a', walletId: 'wallet-a', request: 'What is my balance?', startedAt },
+      response('You have 1 USDC.', [balanceCall, failedCall])
+    )!;
+
+    const [stored] = listAgentTurns({ walletId: 'wallet-a' });
+    assert.equal(stored.id, entry.id);
+    assert.equal(stored.sessionId, 'session-a');
+    assert.equal(stored.response, 'You have 1 USDC.');
+    assert.deepEqual(stored.createdAt, startedAt);
+    assert.deepEqual(stored.toolCalls, [balanceCall, failedCall]);
+  });
+
+  it('filters turns by wallets, tool and date, most recent first', () => {
+    recordAgentTurn({ walletId: 'wallet-b', request: 'Hi', startedAt: new Date('2026-03-02T10:00:00Z') }, response('Hello'));
+    recordAgentTurn(
+      { walletId: 'wallet-b', request: 'Balance?', startedAt: new Date('2026-03-03T10:00:00Z') },
+      response('1 USDC', [balanceCall])
+    );
+
+    const requests = (filter: Parameters<typeof listAgentTurns>[0]) => listAgentTurns(filter).map((turn) => turn.request);
+    assert.deepEqual(requests({ walletIds: ['wallet-a', 'wallet-b'] }), ['Balance?', 'Hi', 'What is my balance?']);
+    assert.deepEqual(requests({ walletIds: [] }), []);
+    assert.deepEqual(requests({ tool: 'check_wallet_balance' }), ['Balance?', 'What is my balance?']);
+    assert.deepEqual(requests({ from: new Date('2026-03-02T00:00:00Z'), to: new Date('2026-03-02T23:59:59Z') }), ['Hi']);
+    assert.deepEqual(requests({ limit: 1 }), ['Balance?']);
+  });
+
+  it('records failed tool calls as errors', async () => {
+    const args = { walletId: USER_WALLET_ID, token: 'USDC', destinationAddress: RECIPIENT_ADDRESS, amount: '1000' };
+    const app = createTestApp({
+      chatModel: () =>
+        new ScriptedChatModel({ turns: [{ steps: [{ toolCalls: [{ name: 'transfer_tokens', args }] }, { content: 'Not enough USDC.' }] }] }),
+    });
+    const user = await loginAs(app, 'auditor@example.com', [USER_WALLET_ID]);
+
+    const response = await request(app).post('/api/chat').set(user).send({ message: 'Send 1000 USDC' }).expect(200);
+    const [toolCall] = response.body.data.toolCalls;
+    assert.equal(toolCall.error, true);
+    assert.match(toolCall.output, /^Error: Insufficient balance/);
+
+    const { error } = getDatabase().prepare("SELECT error FROM agent_tool_calls WHERE name = 'transfer_tokens' AND tool_call_id = ?").get(toolCall.id) as { error: number };
+    assert.equal(error, 1);
+  });
+});
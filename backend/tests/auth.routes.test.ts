@@ -0,0 +1,49 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import request from 'supertest';
+import { Express } from 'express';
+import { ADMIN_API_KEY, createTestApp } from './helpers';
+import { issueApiKey } from '../src/apiKeys/apiKeys';
+
+const credentials = { email: 'session@example.com', password: 'correct-horse-battery' };
+
+describe('auth routes', () => {
+  let app: Express;
+  let userId: string;
+
+  before(async () => {
+    app = createTestApp();
+    const response = await request(app).post('/api/auth/register').set('X-API-Key', ADMIN_API_KEY).send(credentials).expect(201);
+    userId = response.body.data.user.id;
+  });
+
+  it('POST /api/auth/register refuses an email that is already registered', async () => {
+    const response = await request(app).post('/api/auth/register').set('X-API-Key', ADMIN_API_KEY).send(credentials).expect(409);
+    assert.equal(response.body.code, 'CONFLICT');
+  });
+
+  it('POST /api/auth/login rejects a wrong password', async () => {
+    const response = await request(app)
+      .post('/api/auth/login')
+      .set('X-API-Key', ADMIN_API_KEY)
+      .send({ ...credentials, password: 'wrong-password' })
+      .expect(401);
+    assert.equal(response.body.code, 'UNAUTHORIZED');
+  });
+
+  it('POST /api/auth/logout ends the session', async () => {
+    const login = await request(app).post('/api/auth/login').set('X-API-Key', ADMIN_API_KEY).send(credentials).expect(200);
+    const session = { 'X-API-Key': ADMIN_API_KEY, Authorization: `Bearer ${login.body.data.token}` };
+
+    await request(app).get('/api/auth/me').set(session).expect(200);
+    await request(app).post('/api/auth/logout').set(session).expect(200);
+    await request(app).get('/api/auth/me').set(session).expect(401);
+  });
+
+  it('POST /api/auth/logout answers 400 to a user\'s API key, which has no session', async () => {
+    const { key } = issueApiKey({ name: 'cli', userId, scopes: ['read'] });
+
+    const response = await request(app).post('/api/auth/logout').set('X-API-Key', key).expect(400);
+    assert.equal(response.body.code, 'VALIDATION_ERROR');
+  });
+});
@@ -0,0 +1,165 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import request from 'supertest';
+import { Express } from 'express';
+import { createTestApp, loginAs, OTHER_WALLET_ID, RECIPIENT_ADDRESS, USER_WALLET_ID } from './helpers';
+
+/**
+ * Parse a Server-Sent Events body into its events
+ */
+function parseEvents(body: string): { event: string; data: any }[] {
+  return body
+    .split('\n\n')
+    .filter((block) => block.trim())
+    .map((block) => {
+      const event = block.match(/^event: (.*)$/m)![1];
+      const data = JSON.parse(block.match(/^data: (.*)$/m)![1]);
+      return { event, data };
+    });
+}
+
+describe('chat routes', () => {
+  let app: Express;
+  let user: Record<string, string>;
+  let other: Record<string, string>;
+  let sessionId: string;
+
+  before(async () => {
+    app = createTestApp();
+    user = await loginAs(app, 'chatter@example.com', [USER_WALLET_ID]);
+    other = await loginAs(app, 'other@example.com', [OTHER_WALLET_ID]);
+  });
+
+  it('POST /api/chat answers with the tool calls and their results', async () => {
+    const response = await request(app).post('/api/chat').set(user).send({ message: 'What is my balance?' }).expect(200);
+    const { data } = response.body;
+
+    assert.equal(data.response, 'You have 25 USDC.');
+    assert.deepEqual(
+      data.toolCalls.map((toolCall: any) => toolCall.name),
+      ['check_wallet_balance']
+    );
+    assert.equal(data.actions[0].type, 'balance');
+    sessionId = data.sessionId;
+  });
+
+  it('POST /api/chat continues a session and rejects other users\' sessions and wallets', async () => {
+    const response = await request(app).post('/api/chat').set(user).send({ message: 'Hi', sessionId }).expect(200);
+    assert.equal(response.body.data.sessionId, sessionId);
+
+    await request(app).post('/api/chat').set(other).send({ message: 'Hi', sessionId }).expect(404);
+    await request(app).post('/api/chat').set(user).send({ message: 'Hi', walletId: OTHER_WALLET_ID }).expect(404);
+
+    const empty = await request(app).post('/api/chat').set(user).send({ message: '' }).expect(400);
+    assert.equal(empty.body.code, 'VALIDATION_ERROR');
+  });
+
+  it('POST /api/chat/stream streams the turn as Server-Sent Events', async () => {
+    const response = await request(app)
+      .post('/api/chat/stream')
+      .set(user)
+      .send({ message: 'What is my balance?' })
+      .buffer(true)
+      .parse((res, callback) => {
+        let body = '';
+        res.on('data', (chunk: Buffer) => (body += chunk.toString()));
+        res.on('end', () => callback(null, body));
+      })
+      .expect(200)
+      .expect('Content-Type', /text\/event-stream/);
+
+    const events = parseEvents(response.body);
+    assert.equal(events[0].event, 'session');
+    assert.ok(events.some(({ event, data }) => event === 'tool_end' && data.name === 'check_wallet_balance'));
+    const final = events[events.length - 1];
+    assert.equal(final.event, 'final');
+    assert.equal(final.data.response, 'You have 25 USDC.');
+  });
+
+  it('confirms a transfer proposed by the agent', async () => {
+    const chat = await request(app).post('/api/chat').set(user).send({ message: 'Send 1 USDC' }).expect(200);
+    const [pendingAction] = chat.body.data.pendingActions;
+    assert.equal(pendingAction.type, 'transfer');
+    assert.equal(pendingAction.details.destinationAddress, RECIPIENT_ADDRESS);
+
+    const fetched = await request(app).get(`/api/chat/actions/${pendingAction.id}`).set(user).expect(200);
+    assert.equal(fetched.body.data.status, 'pending');
+    await request(app).get(`/api/chat/actions/${pendingAction.id}`).set(other).expect(404);
+
+    const confirmed = await request(app).post(`/api/chat/actions/${pendingAction.id}/confirm`).set(user).expect(200);
+    assert.equal(confirmed.body.data.status, 'confirmed');
+    assert.ok(confirmed.body.data.result.transactionId);
+
+    const again = await request(app).post(`/api/chat/actions/${pendingAction.id}/confirm`).set(user).expect(409);
+    assert.equal(again.body.code, 'CONFLICT');
+  });
+
+  it('rejects a purchase proposed by the agent', async () => {
+    const chat = await request(app).post('/api/chat').set(user).send({ message: 'Buy e-book 1' }).expect(200);
+    const [pendingAction] = chat.body.data.pendingActions;
+    assert.equal(pendingAction.type, 'purchase');
+
+    await request(app).post(`/api/chat/actions/${pendingAction.id}/reject`).set(other).expect(404);
+    const rejected = await request(app).post(`/api/chat/actions/${pendingAction.id}/reject`).set(user).expect(200);
+    assert.equal(rejected.body.data.status, 'rejected');
+
+    const session = await request(app).get(`/api/chat/sessions/${chat.body.data.sessionId}`).set(user).expect(200);
+    const lastMessage = session.body.data.messages[session.body.data.messages.length - 1];
+    assert.match(lastMessage.content, /rejected the purchase/);
+  });
+
+  it('GET /api/chat/audit lists the user\'s agent turns', async () => {
+    const response = await request(app)
+      .get('/api/chat/audit')
+      .query({ tool: 'check_wallet_balance' })
+      .set(user)
+      .expect(200);
+    assert.equal(response.body.data.length, 2);
+    assert.equal(response.body.data[0].walletId, USER_WALLET_ID);
+
+    const foreign = await request(app).get('/api/chat/audit').set(other).expect(200);
+    assert.equal(foreign.body.data.length, 0);
+
+    await request(app).get('/api/chat/audit').query({ limit: 0 }).set(user).expect(400);
+  });
+
+  it('GET /api/chat/sessions lists and returns the user\'s sessions', async () => {
+    const list = await request(app).get('/api/chat/sessions').set(user).expect(200);
+    assert.ok(list.body.data.some((session: any) => session.id === sessionId && session.messageCount === 4));
+    const otherList = await request(app).get('/api/chat/sessions').set(other).expect(200);
+    assert.equal(otherList.body.data.length, 0);
+
+    const session = await request(app).get(`/api/chat/sessions/${sessionId}`).set(user).expect(200);
+    assert.equal(session.body.data.messages[0].content, 'What is my balance?');
+    await request(app).get(`/api/chat/sessions/${sessionId}`).set(other).expect(404);
+  });
+
+  it('DELETE /api/chat/sessions/:sessionId deletes a session', async () => {
+    await request(app).delete(`/api/chat/sessions/${sessionId}`).set(other).expect(404);
+
+    const response = await request(app).delete(`/api/chat/sessions/${sessionId}`).set(user).expect(200);
+    assert.deepEqual(response.body.data, { sessionId, deleted: true });
+    await request(app).get(`/api/chat/sessions/${sessionId}`).set(user).expect(404);
+  });
+
+  it('asks users without wallets to create one', async () => {
+    const walletless = await loginAs(app, 'new@example.com');
+    const response = await request(app).post('/api/chat').set(walletless).send({ message: 'Hi' }).expect(400);
+    assert.match(response.body.error, /no wallets/);
+  });
+
+  it('POST /api/chat rejects switching the wallet of a session', async () => {
+    // Last, since it moves both wallets to a new user
+    const owner = await loginAs(app, 'switcher@example.com', [USER_WALLET_ID, OTHER_WALLET_ID]);
+    const first = await request(app).post('/api/chat').set(owner).send({ message: 'Hi', walletId: USER_WALLET_ID }).expect(200);
+    const sessionOnUserWallet = first.body.data.sessionId;
+
+    await request(app).post('/api/chat').set(owner).send({ message: 'Hi', sessionId: sessionOnUserWallet, walletId: USER_WALLET_ID }).expect(200);
+    const response = await request(app)
+      .post('/api/chat')
+      .set(owner)
+      .send({ message: 'Hi', sessionId: sessionOnUserWallet, walletId: OTHER_WALLET_ID })
+      .expect(400);
+    assert.equal(response.body.code, 'VALIDATION_ERROR');
+  });
+});
@@ -0,0 +1,32 @@
+import './setup';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { errorBody, toApiError } from '../src/middleware/errors';
+import { InvalidAmountError } from '../src/wallet/amount';
+import { AmbiguousTokenError, TokenNotFoundError } from '../src/wallet/tokens';
+import { WalletNotFoundError, WalletProviderError } from '../src/wallet/walletManager';
+
+describe('error mapping', () => {
+  it('maps domain errors to their code and status', () => {
+    assert.equal(toApiError(new InvalidAmountError('Invalid amount: ten')).status, 400);
+    assert.equal(toApiError(new WalletNotFoundError('w1')).code, 'NOT_FOUND');
+
+    const missingToken = toApiError(new TokenNotFoundError('No EURC balance found in wallet w1', ['USDC']));
+    assert.equal(missingToken.code, 'VALIDATION_ERROR');
+    assert.deepEqual(missingToken.details, { availableTokens: ['USDC'] });
+
+    assert.deepEqual(toApiError(new AmbiguousTokenError('FOO', ['a', 'b'])).details, { tokenIds: ['a', 'b'] });
+  });
+
+  it('keeps the status of wallet provider failures', () => {
+    const rejected = toApiError(new WalletProviderError('Failed to transfer tokens', { response: { status: 400, data: { code: 155201 } } }));
+    assert.equal(rejected.code, 'PROVIDER_REJECTED');
+    assert.deepEqual(rejected.details, { providerCode: 155201 });
+    assert.equal(toApiError(new WalletProviderError('Failed to list wallets', new Error('socket hang up'))).code, 'PROVIDER_ERROR');
+  });
+
+  it('answers unexpected errors with a generic message', () => {
+    const body = errorBody(toApiError(new Error('SQLITE_ERROR: no such table: users (/srv/data/wallet.db)')));
+    assert.deepEqual(body, { success: false, error: 'Internal server error', code: 'INTERNAL_ERROR' });
+  });
+});
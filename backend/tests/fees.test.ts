@@ -0,0 +1,55 @@
+import './setup';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { estimateTransferFee } from '../src/wallet/walletManager';
+import { createMemoryWalletProvider } from '../src/wallet/memoryProvider';
+import { AddressValidationError } from '../src/wallet/address';
+import { InvalidAmountError } from '../src/wallet/amount';
+import { withDependencies } from '../src/dependencies';
+
+const RECIPIENT = '0x4444444444444444444444444444444444444444';
+
+// USDC is the gas token of Arc
+const walletProvider = createMemoryWalletProvider({
+  wallets: [
+    {
+      id: 'wallet-a',
+      balances: [
+        { tokenId: 'usdc', symbol: 'USDC', amount: '10', decimals: 6 },
+        { tokenId: 'eurc', symbol: 'EURC', amount: '5', decimals: 6, tokenAddress: '0x89B50855Aa3bE2F677cD6303Cec089B5F319D72a' },
+      ],
+    },
+  ],
+});
+
+function estimate(token: string, amount: string, destinationAddress: string = RECIPIENT) {
+  return withDependencies({ walletProvider }, () => estimateTransferFee('wallet-a', token, destinationAddress, amount));
+}
+
+describe('transfer fee estimation', () => {
+  it('adds the fee to the total when it is paid in the token sent', async () => {
+    assert.deepEqual(await estimate('USDC', '1.5'), {
+      amount: '1.5',
+      tokenSymbol: 'USDC',
+      feeTokenSymbol: 'USDC',
+      levels: [
+        { feeLevel: 'LOW', networkFee: '0.0005', totalCost: '1.5005' },
+        { feeLevel: 'MEDIUM', networkFee: '0.001', totalCost: '1.501' },
+        { feeLevel: 'HIGH', networkFee: '0.002', totalCost: '1.502' },
+      ],
+    });
+  });
+
+  it('quotes the fee in the native token for other tokens', async () => {
+    const fees = await estimate('eurc', '2');
+    assert.equal(fees.tokenSymbol, 'EURC');
+    assert.equal(fees.feeTokenSymbol, 'USDC');
+    assert.deepEqual(fees.levels[0], { feeLevel: 'LOW', networkFee: '0.0005' });
+  });
+
+  it('validates the transfer before estimating', async () => {
+    await assert.rejects(estimate('USDC', '1', '0x1234'), AddressValidationError);
+    await assert.rejects(estimate('USDC', '11'), InvalidAmountError);
+    await assert.rejects(estimate('USDC', '0'), /greater than zero/);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Test Helpers
+ *
+ * Builds the app with a seeded in-memory wallet provider and a scripted chat model,
+ * and logs users in with wallets of the fixture.
+ */
+
+import './setup';
+import request from 'supertest';
+import { Express } from 'express';
+import { AppDependencies, createApp } from '../src/app';
+import { createMemoryWalletProvider } from '../src/wallet/memoryProvider';
+import { WalletFixture } from '../src/wallet/types';
+import { ChatScript, ScriptedChatModel } from '../src/agent/scriptedModel';
+import { assignWallet } from '../src/users/ownership';
+
+export const ADMIN_API_KEY = 'test-admin-key';
+
+export const USER_WALLET_ID = 'wallet-user';
+export const OTHER_WALLET_ID = 'wallet-other';
+export const MARKETPLACE_ADDRESS = '0x2222222222222222222222222222222222222222';
+export const RECIPIENT_ADDRESS = '0x4444444444444444444444444444444444444444';
+
+const WALLET_FIXTURE: WalletFixture = {
+  wallets: [
+    {
+      id: USER_WALLET_ID,
+      name: 'Primary',
+      address: '0x1111111111111111111111111111111111111111',
+      balances: [{ tokenId: 'memory-usdc', symbol: 'USDC', amount: '25', decimals: 6 }],
+    },
+    { id: 'wallet-marketplace', address: MARKETPLACE_ADDRESS },
+    {
+      id: OTHER_WALLET_ID,
+      address: '0x3333333333333333333333333333333333333333',
+      balances: [{ tokenId: 'memory-usdc', symbol: 'USDC', amount: '5', decimals: 6 }],
+    },
+  ],
+};
+
+const CHAT_SCRIPT: ChatScript = {
+  turns: [
+    {
+      match: 'balance',
+      steps: [
+        { toolCalls: [{ name: 'check_wallet_balance', args: { walletId: '{{walletId}}' } }] },
+        { content: 'You have 25 USDC.' },
+      ],
+    },
+    {
+      match: 'send',
+      steps: [
+        {
+          toolCalls: [
+            {
+              name: 'transfer_tokens',
+              args: { walletId: '{{walletId}}', token: 'USDC', destinationAddress: RECIPIENT_ADDRESS, amount: '1' },
+            },
+          ],
+        },
+        { content: 'Please confirm the transfer.' },
+      ],
+    },
+    {
+      match: 'buy',
+      steps: [
+        { toolCalls: [{ name: 'purchase_ebook', args: { walletId: '{{walletId}}', ebookId: '1' } }] },
+        { content: 'Please confirm the purchase.' },
+      ],
+    },
+    { steps: [{ content: 'Hello from the test assistant.' }] },
+  ],
+};
+
+/**
+ * Test services: the seeded wallet provider and the scripted chat model, unless overridden
+ */
+export function testDependencies(dependencies: AppDependencies = {}): AppDependencies {
+  return {
+    walletProvider: createMemoryWalletProvider(WALLET_FIXTURE),
+    chatModel: (config) => new ScriptedChatModel(CHAT_SCRIPT, config.walletId),
+    ...dependencies,
+  };
+}
+
+/**
+ * The app with test services; each test file runs in its own process with its own in-memory database
+ */
+export function createTestApp(dependencies: AppDependencies = {}): Express {
+  return createApp(testDependencies(dependencies));
+}
+
+/**
+ * Register a user owning the given wallets
+ * @returns Headers authenticating as that user
+ */
+export async function loginAs(app: Express, email: string, walletIds: string[] = []) {
+  const response = await request(app)
+    .post('/api/auth/register')
+    .set('X-API-Key', ADMIN_API_KEY)
+    .send({ email, password: 'correct-horse-battery' })
+    .expect(201);
+
+  walletIds.forEach((walletId) => assignWallet(response.body.data.user.id, walletId));
+  return { 'X-API-Key': ADMIN_API_KEY, Authorization: `Bearer ${response.body.data.token}` };
+}
+
+/**
+ * Retry a check until it passes (e.g. while a simulated transfer settles)
+ */
+export async function eventually<T>(check: () => Promise<T>, timeoutMs: number = 2000): Promise<T> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    try {
+      return await check();
+    } catch (error) {
+      if (Date.now() > deadline) throw error;
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+  }
+}
@@ -0,0 +1,83 @@
+import './setup';
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+// Read when the logging modules load, so they are imported below
+process.env.LOG_REDACT = 'addresses,messages';
+process.env.LOG_LEVELS = 'test=debug';
+
+type Redaction = typeof import('../src/logging/redaction');
+type Logging = typeof import('../src/logging/logger');
+
+const ADDRESS = '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed';
+
+describe('log redaction', () => {
+  let redaction: Redaction;
+  let logging: Logging;
+
+  before(async () => {
+    redaction = await import('../src/logging/redaction');
+    logging = await import('../src/logging/logger');
+  });
+
+  it('removes credentials from fields and strings', () => {
+    assert.deepEqual(
+      redaction.redact({
+        password: 'correct-horse-battery',
+        headers: { authorization: 'Bearer abc', 'x-api-key': 'test-admin-key' },
+        apiKeyId: '0123456789abcdef',
+        token: 'session-token',
+      }),
+      {
+        password: '[REDACTED]',
+        headers: { authorization: '[REDACTED]', 'x-api-key': '[REDACTED]' },
+        apiKeyId: '0123456789abcdef',
+        token: '[REDACTED]',
+      }
+    );
+
+    const text = 'Failed with wk_0123456789abcdef_secret-part, Bearer eyJhbGciOi.x.y and test-admin-key';
+    assert.equal(redaction.redactString(text), 'Failed with [REDACTED], [REDACTED] and [REDACTED]');
+  });
+
+  it('shortens addresses and hides chat content when configured', () => {
+    assert.deepEqual(redaction.redact({ destinationAddress: ADDRESS, message: 'send 5 USDC', note: `to ${ADDRESS}` }), {
+      destinationAddress: '0x5aAe…eAed',
+      message: '[REDACTED 11 chars]',
+      note: 'to 0x5aAe…eAed',
+    });
+  });
+
+  it('keeps the name and message of errors and cuts off deep payloads', () => {
+    const error = redaction.redact(new Error('Invalid key test-admin-key')) as Record<string, string>;
+    assert.equal(error.name, 'Error');
+    assert.equal(error.message, 'Invalid key [REDACTED]');
+
+    const deep = { a: { b: { c: { d: { e: { f: { g: 1 } } } } } } };
+    assert.deepEqual(redaction.redact(deep), { a: { b: { c: { d: { e: { f: '[Truncated]' } } } } } });
+  });
+
+  it('writes one redacted JSON line per entry with the request context', () => {
+    const lines: string[] = [];
+    const write = process.stdout.write;
+    process.stdout.write = ((chunk: string) => {
+      lines.push(chunk);
+      return true;
+    }) as typeof process.stdout.write;
+    try {
+      logging.withLogContext({ requestId: 'req-1' }, () =>
+        logging.createLogger('test').info('Transfer requested', { apiKey: 'test-admin-key', amount: '1' })
+      );
+      logging.createLogger('other').info('Below the level of other modules');
+    } finally {
+      process.stdout.write = write;
+    }
+
+    assert.equal(lines.length, 1);
+    const entry = JSON.parse(lines[0]);
+    assert.deepEqual(
+      { ...entry, time: undefined },
+      { time: undefined, level: 'info', module: 'test', msg: 'Transfer requested', requestId: 'req-1', apiKey: '[REDACTED]', amount: '1' }
+    );
+  });
+});
@@ -0,0 +1,128 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import request from 'supertest';
+import { Express } from 'express';
+import { eventually, loginAs, OTHER_WALLET_ID, testDependencies, USER_WALLET_ID } from './helpers';
+import { AppDependencies, createApp } from '../src/app';
+import { withDependencies } from '../src/dependencies';
+import { processPurchase } from '../src/marketplace/marketplace';
+import { listOrders } from '../src/marketplace/orders';
+import { TransferResult } from '../src/wallet/types';
+import { getAllEbooks } from '../src/marketplace/catalog';
+import { EBook } from '../src/marketplace/types';
+
+const CATALOG: EBook[] = [
+  { id: 'b1', title: 'Testing Express', author: 'Ada Tester', price: '0.50', description: 'Routes under test.', category: 'Programming' },
+  { id: 'b2', title: 'Stablecoins', author: 'Grace Ledger', price: '1.25', description: 'Digital dollars.', category: 'Finance' },
+];
+
+describe('marketplace routes', () => {
+  const dependencies: AppDependencies = testDependencies({ ebookCatalog: CATALOG });
+  let app: Express;
+  let user: Record<string, string>;
+  let orderId: string;
+
+  before(async () => {
+    app = createApp(dependencies);
+    user = await loginAs(app, 'reader@example.com', [USER_WALLET_ID]);
+    await loginAs(app, 'other@example.com', [OTHER_WALLET_ID]);
+  });
+
+  it('GET /api/marketplace/ebooks lists the catalog', async () => {
+    const response = await request(app).get('/api/marketplace/ebooks').set(user).expect(200);
+    assert.deepEqual(
+      response.body.data.map((ebook: EBook) => ebook.id),
+      ['b1', 'b2']
+    );
+  });
+
+  it('GET /api/marketplace/ebooks/search matches title, author and category', async () => {
+    const response = await request(app).get('/api/marketplace/ebooks/search').query({ q: 'finance' }).set(user).expect(200);
+    assert.deepEqual(
+      response.body.data.map((ebook: EBook) => ebook.id),
+      ['b2']
+    );
+
+    const missingQuery = await request(app).get('/api/marketplace/ebooks/search').set(user).expect(400);
+    assert.equal(missingQuery.body.code, 'VALIDATION_ERROR');
+  });
+
+  it('GET /api/marketplace/ebooks/:id returns an e-book or 404', async () => {
+    const response = await request(app).get('/api/marketplace/ebooks/b1').set(user).expect(200);
+    assert.equal(response.body.data.title, 'Testing Express');
+
+    const missing = await request(app).get('/api/marketplace/ebooks/nope').set(user).expect(404);
+    assert.equal(missing.body.code, 'NOT_FOUND');
+  });
+
+  it('GET /api/marketplace/config describes the marketplace', async () => {
+    const response = await request(app).get('/api/marketplace/config').set(user).expect(200);
+    assert.equal(response.body.data.currency, 'USDC');
+    assert.equal(response.body.data.totalEbooks, 2);
+  });
+
+  it('requires a wallet of the user for wallet queries', async () => {
+    const missingWallet = await request(app).get('/api/marketplace/purchased').set(user).expect(400);
+    assert.equal(missingWallet.body.code, 'VALIDATION_ERROR');
+
+    await request(app).get('/api/marketplace/orders').query({ walletId: OTHER_WALLET_ID }).set(user).expect(404);
+  });
+
+  it('fulfills an order once its payment settles', async () => {
+    // Called directly, so with the app's services but outside a request
+    const purchase = await withDependencies(dependencies, () => processPurchase('b1', USER_WALLET_ID, 'USDC'));
+    assert.ok(purchase.success, purchase.message);
+    orderId = purchase.orderId!;
+
+    const orders = await request(app).get('/api/marketplace/orders').query({ walletId: USER_WALLET_ID }).set(user).expect(200);
+    assert.deepEqual(
+      orders.body.data.map((order: any) => order.id),
+      [orderId]
+    );
+
+    await eventually(async () => {
+      const response = await request(app).get(`/api/marketplace/orders/${orderId}`).set(user).expect(200);
+      assert.equal(response.body.data.status, 'fulfilled');
+    });
+
+    const purchased = await request(app).get('/api/marketplace/purchased').query({ walletId: USER_WALLET_ID }).set(user).expect(200);
+    assert.deepEqual(
+      purchased.body.data.map((ebook: EBook) => ebook.id),
+      ['b1']
+    );
+
+    const owned = await request(app)
+      .get('/api/marketplace/ebooks/b1/purchased')
+      .query({ walletId: USER_WALLET_ID })
+      .set(user)
+      .expect(200);
+    assert.deepEqual(owned.body.data, { ebookId: 'b1', purchased: true });
+  });
+
+  it('fails the order when the payment has no transaction ID', async () => {
+    const walletProvider = { ...dependencies.walletProvider!, createTransfer: async () => ({}) as TransferResult };
+    const purchase = await withDependencies({ ...dependencies, walletProvider }, () => processPurchase('b1', OTHER_WALLET_ID, 'USDC'));
+    assert.equal(purchase.success, false);
+    assert.match(purchase.message, /no transaction ID/);
+
+    const [order] = listOrders(OTHER_WALLET_ID);
+    assert.equal(order.status, 'failed');
+    assert.equal(order.transactionId, undefined);
+  });
+
+  it('hides orders of other users', async () => {
+    const other = await loginAs(app, 'snoop@example.com');
+    await request(app).get(`/api/marketplace/orders/${orderId}`).set(other).expect(404);
+  });
+
+  it('keeps the catalog of each app apart', async () => {
+    const other = createApp(testDependencies({ ebookCatalog: [{ ...CATALOG[1], id: 'b3' }] }));
+    const ids = async (target: Express) =>
+      (await request(target).get('/api/marketplace/ebooks').set(user).expect(200)).body.data.map((ebook: EBook) => ebook.id);
+
+    assert.deepEqual(await ids(other), ['b3']);
+    assert.deepEqual(await ids(app), ['b1', 'b2']);
+    // Outside a request, the built-in catalog
+    assert.notDeepEqual(getAllEbooks(), CATALOG);
+  });
+});
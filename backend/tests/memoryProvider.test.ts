@@ -0,0 +1,85 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { eventually } from './helpers';
+import { createMemoryWalletProvider } from '../src/wallet/memoryProvider';
+import { TransferInput } from '../src/wallet/types';
+
+const SENDER_ADDRESS = '0x1111111111111111111111111111111111111111';
+const RECEIVER_ADDRESS = '0x2222222222222222222222222222222222222222';
+
+function createProvider() {
+  return createMemoryWalletProvider({
+    wallets: [
+      { id: 'sender', address: SENDER_ADDRESS, balances: [{ tokenId: 'usdc', symbol: 'USDC', amount: '10', decimals: 6 }] },
+      { id: 'receiver', address: RECEIVER_ADDRESS },
+    ],
+  });
+}
+
+function transfer(amount: string, idempotencyKey: string = crypto.randomUUID()): TransferInput {
+  return { walletId: 'sender', tokenId: 'usdc', destinationAddress: RECEIVER_ADDRESS, amount, feeLevel: 'MEDIUM', idempotencyKey };
+}
+
+async function balanceOf(provider: ReturnType<typeof createProvider>, walletId: string) {
+  return (await provider.getWalletBalance(walletId))!.map((balance) => balance.amount);
+}
+
+describe('in-memory wallet provider', () => {
+  it('seeds wallets and balances from the fixture', async () => {
+    const provider = createProvider();
+    const wallet = await provider.getWallet('sender');
+    assert.equal(wallet?.address, SENDER_ADDRESS);
+    assert.equal(wallet?.blockchain, 'ARC-TESTNET');
+    assert.deepEqual(await balanceOf(provider, 'sender'), ['10']);
+    await assert.rejects(provider.getWallet('missing'), /Wallet missing not found/);
+  });
+
+  it('settles a transfer and credits our destination wallet', async () => {
+    const provider = createProvider();
+    const { id, state } = (await provider.createTransfer(transfer('2.5')))!;
+    assert.equal(state, 'INITIATED');
+    // Reserved right away
+    assert.deepEqual(await balanceOf(provider, 'sender'), ['7.5']);
+
+    await eventually(async () => assert.equal((await provider.getTransaction(id))?.state, 'COMPLETE'));
+    assert.deepEqual(await balanceOf(provider, 'receiver'), ['2.5']);
+
+    const inbound = await provider.listTransactions({ walletIds: ['receiver'] });
+    assert.deepEqual(inbound?.map((tx) => [tx.transactionType, tx.amounts]), [['INBOUND', ['2.5']]]);
+  });
+
+  it('replays transfers with the same idempotency key', async () => {
+    const provider = createProvider();
+    const first = await provider.createTransfer(transfer('1', 'key-1'));
+    const second = await provider.createTransfer(transfer('1', 'key-1'));
+    assert.equal(second?.id, first?.id);
+    assert.deepEqual(await balanceOf(provider, 'sender'), ['9']);
+  });
+
+  it('fails transfers above the balance', async () => {
+    const provider = createProvider();
+    const { id } = (await provider.createTransfer(transfer('11')))!;
+
+    const failed = await eventually(async () => {
+      const transaction = (await provider.getTransaction(id))!;
+      assert.equal(transaction.state, 'FAILED');
+      return transaction;
+    });
+    assert.equal(failed.errorReason, 'INSUFFICIENT_TOKEN');
+    assert.deepEqual(await balanceOf(provider, 'sender'), ['10']);
+    await assert.rejects(provider.createTransfer(transfer('0')), /greater than zero/);
+  });
+
+  it('creates wallet sets and wallets', async () => {
+    const provider = createProvider();
+    const walletSet = (await provider.createWalletSet('Savings'))!;
+    const created = (await provider.createWallets(walletSet.id, ['ARC-TESTNET', 'ETH-SEPOLIA'], 1, 'SCA', { name: 'Spare' }))!;
+
+    assert.deepEqual(
+      created.map((wallet) => [wallet.blockchain, wallet.name]),
+      [['ARC-TESTNET', 'Spare'], ['ETH-SEPOLIA', 'Spare']]
+    );
+    assert.equal((await provider.listWallets(walletSet.id))?.length, 2);
+    await assert.rejects(provider.createWallets('missing', ['ARC-TESTNET'], 1, 'SCA'), /Wallet set missing not found/);
+  });
+});
@@ -0,0 +1,42 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import request from 'supertest';
+import { Express } from 'express';
+import { ADMIN_API_KEY, createTestApp, loginAs, USER_WALLET_ID } from './helpers';
+
+describe('metrics route', () => {
+  let app: Express;
+  let user: Record<string, string>;
+
+  before(async () => {
+    app = createTestApp();
+    user = await loginAs(app, 'observer@example.com', [USER_WALLET_ID]);
+  });
+
+  it('GET /metrics requires an admin API key', async () => {
+    const response = await request(app).get('/metrics').expect(401);
+    assert.equal(response.body.code, 'UNAUTHORIZED');
+  });
+
+  it('GET /metrics records requests, provider calls, agent turns and tool calls', async () => {
+    await request(app).get(`/api/wallets/${USER_WALLET_ID}/balance`).set(user).expect(200);
+    await request(app).post('/api/chat').set(user).send({ message: 'What is my balance?' }).expect(200);
+
+    const response = await request(app)
+      .get('/metrics')
+      .set('Authorization', `Bearer ${ADMIN_API_KEY}`)
+      .expect('Content-Type', /text\/plain/)
+      .expect(200);
+
+    assert.match(
+      response.text,
+      /http_request_duration_seconds_count\{method="GET",route="\/api\/wallets\/:walletId\/balance",status="200"\} 1/
+    );
+    assert.match(response.text, /wallet_provider_calls_total\{provider="memory",method="getWalletBalance",outcome="success"\} [1-9]/);
+    assert.match(response.text, /agent_turns_total\{provider="scripted",outcome="success"\} 1/);
+    assert.match(response.text, /agent_tool_calls_total\{tool="check_wallet_balance",outcome="success"\} 1/);
+    assert.match(response.text, /llm_request_duration_seconds_count\{provider="scripted",model="[^"]+",outcome="success"\} 2/);
+    // No IDs or addresses in labels
+    assert.doesNotMatch(response.text, new RegExp(USER_WALLET_ID));
+  });
+});
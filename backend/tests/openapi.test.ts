@@ -0,0 +1,113 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import request from 'supertest';
+import { Express } from 'express';
+import { createTestApp, loginAs, USER_WALLET_ID } from './helpers';
+import { buildOpenApiDocument, OPERATIONS } from '../src/openapi/document';
+import { userAuth } from '../src/middleware/auth';
+import { balanceModel, chatTurnModel, spendingPolicyModel, walletModel } from '../src/openapi/schemas';
+
+// API routes left out of the document: admin and key management, webhooks and the docs themselves
+const UNDOCUMENTED = /^\/(keys|admin|webhooks|hello|openapi\.json|docs)(\/|$)/;
+
+interface RouteInfo {
+  route: string; // "post /chat/actions/{actionId}/confirm"
+  scopes: string[][];
+  session: boolean;
+}
+
+/**
+ * Routes of the app under /api, with the scope checks and user authentication each one goes through
+ */
+function apiRoutes(app: Express): RouteInfo[] {
+  const routes: RouteInfo[] = [];
+
+  const walk = (stack: any[], prefix: string, inherited: any[]) => {
+    const middlewares = [...inherited];
+    for (const layer of stack) {
+      if (layer.route) {
+        const handlers = [...middlewares, ...layer.route.stack.map((routeLayer: any) => routeLayer.handle)];
+        for (const method of Object.keys(layer.route.methods)) {
+          routes.push({
+            route: `${method} ${prefix}${layer.route.path === '/' ? '' : layer.route.path}`.replace(/:(\w+)/g, '{$1}'),
+            scopes: handlers.filter((handler) => handler.scopes).map((handler) => handler.scopes),
+            session: handlers.includes(userAuth),
+          });
+        }
+      } else if (layer.handle.stack) {
+        // Mounted router: /^\/api\/wallets\/?(?=\/|$)/i → /api/wallets
+        const mountPath = layer.regexp.fast_slash ? '' : layer.regexp.source.replace('\\/?(?=\\/|$)', '').replace('^', '').replace(/\\\//g, '/');
+        walk(layer.handle.stack, prefix + mountPath, middlewares);
+      } else {
+        middlewares.push(layer.handle);
+      }
+    }
+  };
+  walk((app as any)._router.stack, '', []);
+
+  return routes
+    .filter((info) => info.route.split(' ')[1].startsWith('/api/'))
+    .map((info) => ({ ...info, route: info.route.replace(' /api/', ' /') }))
+    .filter((info) => !UNDOCUMENTED.test(info.route.split(' ')[1]));
+}
+
+// Models type dates as z.date(), sent as ISO 8601 strings (the *At fields)
+function withDates(data: unknown) {
+  return JSON.parse(JSON.stringify(data), (key, value) => (key.endsWith('At') && typeof value === 'string' ? new Date(value) : value));
+}
+
+describe('OpenAPI document', () => {
+  let app: Express;
+  let user: Record<string, string>;
+
+  before(async () => {
+    app = createTestApp();
+    user = await loginAs(app, 'docs@example.com', [USER_WALLET_ID]);
+  });
+
+  it('GET /api/openapi.json serves the document without an API key', async () => {
+    const response = await request(app).get('/api/openapi.json').expect(200);
+    assert.equal(response.body.openapi, '3.0.3');
+    assert.ok(response.body.paths['/wallets/{walletId}/transfer'].post);
+    assert.deepEqual(response.body.paths['/wallets/{walletId}/transfer'].post.requestBody.content['application/json'].schema, {
+      $ref: '#/components/schemas/TransferRequest',
+    });
+    assert.ok(response.body.components.schemas.Wallet);
+  });
+
+  it('GET /api/docs serves the docs UI', async () => {
+    const response = await request(app).get('/api/docs/').expect(200);
+    assert.match(response.text, /swagger-ui/);
+  });
+
+  it('documents the responses the routes send', async () => {
+    const wallets = await request(app).get('/api/wallets').set(user).expect(200);
+    walletModel.array().parse(wallets.body.data);
+
+    const balance = await request(app).get(`/api/wallets/${USER_WALLET_ID}/balance`).set(user).expect(200);
+    balanceModel.array().parse(balance.body.data);
+
+    const policy = await request(app).put(`/api/policies/${USER_WALLET_ID}`).set(user).send({ dailyLimit: '5' }).expect(200);
+    spendingPolicyModel.parse(withDates(policy.body.data));
+
+    const turn = await request(app).post('/api/chat').set(user).send({ message: 'What is my balance?' }).expect(200);
+    chatTurnModel.parse(withDates(turn.body.data));
+  });
+
+  it('documents every API route with the scopes and login it requires', () => {
+    const documented = OPERATIONS.map((operation) => ({
+      route: `${operation.method} ${operation.path}`,
+      scopes: operation.scopes || [],
+      session: operation.session !== false,
+    }));
+    const byRoute = (a: RouteInfo, b: RouteInfo) => a.route.localeCompare(b.route);
+    assert.deepEqual(apiRoutes(app).sort(byRoute), documented.sort(byRoute));
+  });
+
+  it('openapi.json is up to date (regenerate with npm run generate:api-client)', () => {
+    const committed = JSON.parse(fs.readFileSync(path.join(__dirname, '../openapi.json'), 'utf8'));
+    assert.deepEqual(committed, JSON.parse(JSON.stringify(buildOpenApiDocument())));
+  });
+});
@@ -0,0 +1,44 @@
+import './setup';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyTransactionState, createOrder, getOrder, transitionOrder } from '../src/marketplace/orders';
+import { listPurchases } from '../src/marketplace/purchases';
+
+function submittedOrder(walletId: string) {
+  const order = createOrder({ ebookId: 'b1', walletId, price: '0.5', tokenId: 'memory-usdc', tokenSymbol: 'USDC' });
+  return transitionOrder(order, 'payment_submitted', { transactionId: crypto.randomUUID() });
+}
+
+describe('purchase orders', () => {
+  it('only allows transitions of the order lifecycle', () => {
+    const order = createOrder({ ebookId: 'b1', walletId: 'wallet-lifecycle', price: '0.5', tokenId: 'memory-usdc' });
+    assert.throws(() => transitionOrder(order, 'fulfilled'), /cannot move from created to fulfilled/);
+    assert.equal(getOrder(order.id)!.status, 'created');
+  });
+
+  it('checks transitions against the stored status, not a stale copy', () => {
+    const order = submittedOrder('wallet-stale');
+    const stale = { ...order };
+    transitionOrder(order, 'failed', { failureReason: 'Payment transaction failed' });
+
+    assert.throws(() => transitionOrder(stale, 'paid'), /cannot move from failed to paid/);
+    assert.equal(getOrder(order.id)!.status, 'failed');
+  });
+
+  it('settles an order once when the webhook and the poller both apply it', () => {
+    const order = submittedOrder('wallet-settle');
+    const fromWebhook = { ...order };
+    const fromPoller = { ...order };
+
+    assert.equal(applyTransactionState(fromWebhook, 'COMPLETE', '0xabc').status, 'fulfilled');
+    assert.equal(applyTransactionState(fromPoller, 'COMPLETE', '0xabc').status, 'fulfilled');
+    assert.equal(listPurchases('wallet-settle').length, 1);
+  });
+
+  it('fails an order whose payment was denied, and ignores later states', () => {
+    const order = submittedOrder('wallet-denied');
+    assert.equal(applyTransactionState(order, 'DENIED').failureReason, 'Payment transaction denied');
+    assert.equal(applyTransactionState({ ...order, status: 'payment_submitted' }, 'COMPLETE').status, 'failed');
+    assert.equal(listPurchases('wallet-denied').length, 0);
+  });
+});
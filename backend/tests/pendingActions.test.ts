@@ -0,0 +1,54 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { RECIPIENT_ADDRESS, testDependencies, USER_WALLET_ID } from './helpers';
+import { confirmPendingAction, createPendingAction, getPendingAction, rejectPendingAction } from '../src/agent/pendingActions';
+import { withDependencies } from '../src/dependencies';
+
+const dependencies = testDependencies();
+
+function proposeTransfer(amount: string) {
+  return createPendingAction('transfer', USER_WALLET_ID, {
+    tokenId: 'memory-usdc',
+    tokenSymbol: 'USDC',
+    amount,
+    destinationAddress: RECIPIENT_ADDRESS,
+    feeLevel: 'MEDIUM',
+  });
+}
+
+describe('pending actions', () => {
+  it('executes a transfer once confirmed, and only once', async () => {
+    const action = proposeTransfer('1');
+    assert.equal(action.status, 'pending');
+    assert.equal(action.expiresAt.getTime() - action.createdAt.getTime(), 300 * 1000);
+
+    const confirmed = await withDependencies(dependencies, () => confirmPendingAction(action.id));
+    assert.equal(confirmed.status, 'confirmed');
+    assert.ok(confirmed.result?.transactionId);
+    assert.equal(confirmed.result?.receipt?.type, 'transfer_submitted');
+
+    await assert.rejects(confirmPendingAction(action.id), /is confirmed and can no longer be changed/);
+  });
+
+  it('records a transfer that fails', async () => {
+    const action = proposeTransfer('1000');
+    const failed = await withDependencies(dependencies, () => confirmPendingAction(action.id));
+    assert.equal(failed.status, 'failed');
+    assert.ok(failed.result?.message);
+  });
+
+  it('rejects an action without executing it', () => {
+    const action = proposeTransfer('1');
+    assert.equal(rejectPendingAction(action.id).status, 'rejected');
+    assert.throws(() => rejectPendingAction(action.id), /is rejected/);
+    assert.throws(() => rejectPendingAction('missing'), /Action missing not found/);
+  });
+
+  it('expires actions that were not confirmed in time', async () => {
+    const action = proposeTransfer('1');
+    action.expiresAt = new Date(Date.now() - 1);
+
+    assert.equal(getPendingAction(action.id)?.status, 'expired');
+    await assert.rejects(confirmPendingAction(action.id), /is expired/);
+  });
+});
@@ -0,0 +1,168 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import request from 'supertest';
+import { Express } from 'express';
+import type { Token } from '@circle-fin/developer-controlled-wallets';
+import { createTestApp, loginAs, RECIPIENT_ADDRESS } from './helpers';
+import { evaluateTransfer, getPolicy, POLICY_DECIMALS, setPolicy, spendingPolicySchema } from '../src/policy/policy';
+import { parseAmount } from '../src/wallet/amount';
+import { createMemoryWalletProvider } from '../src/wallet/memoryProvider';
+import { evaluateTransferPolicy, WalletProviderError } from '../src/wallet/walletManager';
+import { WalletProvider } from '../src/wallet/types';
+import { withDependencies } from '../src/dependencies';
+import { issueApiKey } from '../src/apiKeys/apiKeys';
+import { findUserByEmail } from '../src/users/users';
+
+const WALLET_ID = 'wallet-policy';
+const EURC_ARC = '0x89B50855Aa3bE2F677cD6303Cec089B5F319D72a';
+
+const usdc = { id: 'memory-usdc', symbol: 'USDC', blockchain: 'ARC-TESTNET', isNative: true } as Token;
+const eurc = { id: 'memory-eurc', symbol: 'EURC', blockchain: 'ARC-TESTNET', isNative: false, tokenAddress: EURC_ARC } as Token;
+
+function transfer(token: Token, amount: string, walletId: string = 'wallet-unit') {
+  return { walletId, token, destinationAddress: RECIPIENT_ADDRESS, amount };
+}
+
+describe('spending policy', () => {
+  it('takes limits as decimal strings, validated when the policy is written', () => {
+    const policy = spendingPolicySchema.parse({ maxPerTransaction: '2.50', dailyLimit: '0.0000001' });
+    assert.equal(policy.maxPerTransaction, '2.5');
+    assert.equal(policy.dailyLimit, '0.0000001');
+    assert.equal(policy.token, 'USDC');
+
+    for (const invalid of [1e-7, '1e-7', '0', '-1', 'ten']) {
+      assert.equal(spendingPolicySchema.safeParse({ maxPerTransaction: invalid }).success, false, String(invalid));
+    }
+  });
+
+  it('stores policies in the database', () => {
+    setPolicy('wallet-stored', spendingPolicySchema.parse({ weeklyLimit: '10', denylist: [RECIPIENT_ADDRESS] }));
+    const stored = getPolicy('wallet-stored')!;
+    assert.equal(stored.weeklyLimit, '10');
+    assert.deepEqual(stored.denylist, [RECIPIENT_ADDRESS]);
+    assert.ok(stored.createdAt instanceof Date);
+  });
+
+  it('checks amounts against limits in the policy token', () => {
+    setPolicy('wallet-unit', spendingPolicySchema.parse({ maxPerTransaction: '1', dailyLimit: '3' }));
+
+    assert.deepEqual(evaluateTransfer(transfer(usdc, '1')), { allowed: true, reasons: [] });
+    assert.deepEqual(evaluateTransfer(transfer(usdc, '1.5')).reasons, [
+      'Amount 1.5 USDC exceeds the per-transaction limit of 1 USDC',
+    ]);
+
+    const now = new Date();
+    const spent = [{ amount: parseAmount('2.5', POLICY_DECIMALS), createDate: new Date(now.getTime() - 60 * 60 * 1000) }];
+    assert.match(evaluateTransfer(transfer(usdc, '1'), spent, now).reasons[0], /Daily limit of 3 USDC would be exceeded \(already sent 2.5 USDC/);
+  });
+
+  it('refuses transfers when the spending history never ends', async () => {
+    setPolicy('wallet-history', spendingPolicySchema.parse({ dailyLimit: '3' }));
+    const memory = createMemoryWalletProvider({
+      wallets: [{ id: 'wallet-history', balances: [{ tokenId: 'memory-usdc', symbol: 'USDC', amount: '25', decimals: 6 }] }],
+    });
+    // Full pages of outgoing transfers, each page starting again at the same cursor or moving on forever
+    const fullPage = (first: number) =>
+      Array.from({ length: 50 }, (_, i) => ({ id: `tx-${first + i}`, tokenId: 'memory-usdc', state: 'COMPLETE', amounts: ['0'], createDate: new Date().toISOString() }));
+    let calls = 0;
+    for (const listTransactions of [async () => fullPage(0), async () => fullPage(50 * calls++)]) {
+      const walletProvider = { ...memory, listTransactions } as WalletProvider;
+      const error = await withDependencies({ walletProvider }, () =>
+        evaluateTransferPolicy('wallet-history', 'USDC', RECIPIENT_ADDRESS, '1')
+      ).catch((e) => e);
+      assert.ok(error instanceof WalletProviderError, String(error));
+      assert.match(error.message, /^Failed to load spending history/);
+    }
+    assert.equal(calls, 20);
+  });
+
+  it('refuses other tokens when the policy has amount limits', () => {
+    setPolicy('wallet-unit', spendingPolicySchema.parse({ maxPerTransaction: '1' }));
+    assert.match(evaluateTransfer(transfer(eurc, '0.5')).reasons[0], /limits are in USDC; transfers of EURC are not allowed/);
+
+    setPolicy('wallet-unit', spendingPolicySchema.parse({ token: 'EURC', maxPerTransaction: '1' }));
+    assert.equal(evaluateTransfer(transfer(eurc, '0.5')).allowed, true);
+
+    setPolicy('wallet-unit', spendingPolicySchema.parse({ denylist: ['0x0000000000000000000000000000000000000000'] }));
+    assert.equal(evaluateTransfer(transfer(eurc, '100')).allowed, true);
+  });
+
+  it('applies address rules and quiet hours', () => {
+    setPolicy('wallet-unit', spendingPolicySchema.parse({ allowlist: [RECIPIENT_ADDRESS] }));
+    assert.equal(evaluateTransfer(transfer(usdc, '1')).allowed, true);
+    assert.equal(evaluateTransfer({ ...transfer(usdc, '1'), destinationAddress: '0x5555555555555555555555555555555555555555' }).allowed, false);
+
+    setPolicy('wallet-unit', spendingPolicySchema.parse({ quietHours: { start: '22:00', end: '07:00', timezone: 'UTC' } }));
+    assert.equal(evaluateTransfer(transfer(usdc, '1'), [], new Date('2026-01-01T23:30:00Z')).allowed, false);
+    assert.equal(evaluateTransfer(transfer(usdc, '1'), [], new Date('2026-01-01T12:00:00Z')).allowed, true);
+  });
+});
+
+describe('policy routes', () => {
+  let app: Express;
+  let user: Record<string, string>;
+
+  before(async () => {
+    app = createTestApp({
+      walletProvider: createMemoryWalletProvider({
+        wallets: [
+          {
+            id: WALLET_ID,
+            address: '0x1111111111111111111111111111111111111111',
+            balances: [
+              { tokenId: 'memory-usdc', symbol: 'USDC', amount: '25', decimals: 6 },
+              { tokenId: 'memory-eurc', symbol: 'EURC', amount: '10', decimals: 6, tokenAddress: EURC_ARC },
+            ],
+          },
+        ],
+      }),
+    });
+    user = await loginAs(app, 'policies@example.com', [WALLET_ID]);
+  });
+
+  it('PUT /api/policies/:walletId rejects numeric limits', async () => {
+    const response = await request(app).put(`/api/policies/${WALLET_ID}`).set(user).send({ dailyLimit: 1e-7 }).expect(400);
+    assert.equal(response.body.code, 'VALIDATION_ERROR');
+  });
+
+  it('PUT and DELETE /api/policies/:walletId need the admin scope', async () => {
+    const { key } = issueApiKey({ name: 'payouts', userId: findUserByEmail('policies@example.com')!.id, scopes: ['read', 'transfer'] });
+    const transferKey = { 'X-API-Key': key };
+
+    const response = await request(app).put(`/api/policies/${WALLET_ID}`).set(transferKey).send({ dailyLimit: '1000' }).expect(403);
+    assert.equal(response.body.code, 'FORBIDDEN');
+    await request(app).delete(`/api/policies/${WALLET_ID}`).set(transferKey).expect(403);
+    await request(app).get(`/api/policies/${WALLET_ID}`).set(transferKey).expect(404);
+  });
+
+  it('concurrent transfers can not both pass the daily cap', async () => {
+    await request(app).put(`/api/policies/${WALLET_ID}`).set(user).send({ dailyLimit: '3' }).expect(200);
+
+    const send = () =>
+      request(app)
+        .post(`/api/wallets/${WALLET_ID}/transfer`)
+        .set(user)
+        .send({ tokenId: 'USDC', destinationAddress: RECIPIENT_ADDRESS, amount: '2' });
+    const statuses = (await Promise.all([send(), send()])).map((response) => response.status).sort();
+    assert.deepEqual(statuses, [200, 403]);
+  });
+
+  it('POST /api/policies/:walletId/evaluate resolves token symbols', async () => {
+    const response = await request(app)
+      .post(`/api/policies/${WALLET_ID}/evaluate`)
+      .set(user)
+      .send({ tokenId: 'USDC', destinationAddress: RECIPIENT_ADDRESS, amount: '2' })
+      .expect(200);
+    assert.equal(response.body.data.allowed, false);
+    assert.match(response.body.data.reasons[0], /already sent 2 USDC/);
+  });
+
+  it('transfers of another token are rejected', async () => {
+    const response = await request(app)
+      .post(`/api/wallets/${WALLET_ID}/transfer`)
+      .set(user)
+      .send({ tokenId: 'EURC', destinationAddress: RECIPIENT_ADDRESS, amount: '5' })
+      .expect(403);
+    assert.equal(response.body.code, 'POLICY_VIOLATION');
+  });
+});
@@ -0,0 +1,61 @@
+import './setup';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { AIMessage, HumanMessage } from '@langchain/core/messages';
+import { createChatModel, getProviderConfigError, resolveAgentConfig } from '../src/agent/providers';
+import { loadChatScript, ScriptedChatModel } from '../src/agent/scriptedModel';
+
+const SCRIPT_FILE = path.join(__dirname, '../fixtures/scripted-llm.example.json');
+
+describe('LLM providers', () => {
+  it('fills the agent config from the environment', () => {
+    const config = resolveAgentConfig({ walletId: 'wallet-a' });
+    assert.equal(config.provider, 'scripted');
+    assert.equal(config.model, 'scripted');
+    assert.equal(config.temperature, 0);
+    assert.equal(config.walletId, 'wallet-a');
+
+    assert.equal(resolveAgentConfig({ provider: 'openai', temperature: 0.5 }).model, 'llama3.1');
+  });
+
+  it('reports what a provider is missing', () => {
+    assert.match(getProviderConfigError(resolveAgentConfig({ provider: 'scripted' }))!, /SCRIPTED_LLM_FILE/);
+    assert.match(getProviderConfigError(resolveAgentConfig({ provider: 'mystery' as any }))!, /Unknown LLM_PROVIDER "mystery"/);
+    assert.equal(getProviderConfigError(resolveAgentConfig({ provider: 'openai' })), null);
+    assert.throws(() => createChatModel({ provider: 'scripted' }), /SCRIPTED_LLM_FILE/);
+  });
+
+  it('creates the scripted model from SCRIPTED_LLM_FILE', () => {
+    process.env.SCRIPTED_LLM_FILE = SCRIPT_FILE;
+    try {
+      assert.ok(createChatModel({ provider: 'scripted' }) instanceof ScriptedChatModel);
+    } finally {
+      delete process.env.SCRIPTED_LLM_FILE;
+    }
+  });
+});
+
+describe('scripted model', () => {
+  const model = new ScriptedChatModel(loadChatScript(SCRIPT_FILE), 'wallet-a');
+
+  it('replays the steps of the first matching turn', async () => {
+    const question = new HumanMessage('What is my balance?');
+    const first = await model.invoke([question]);
+    assert.deepEqual(first.tool_calls?.map((toolCall) => [toolCall.name, toolCall.args]), [
+      ['check_wallet_balance', { walletId: 'wallet-a' }],
+    ]);
+
+    const second = await model.invoke([question, new AIMessage({ content: '', tool_calls: first.tool_calls })]);
+    assert.equal(second.content, 'I checked your wallet balance for you.');
+  });
+
+  it('falls back to the turn without a match', async () => {
+    const response = await model.invoke([new HumanMessage('Hi')]);
+    assert.match(String(response.content), /scripted wallet assistant/);
+  });
+
+  it('rejects files without turns', () => {
+    assert.throws(() => loadChatScript(path.join(__dirname, '../fixtures/tokens.example.json')), /expected a "turns" array/);
+  });
+});
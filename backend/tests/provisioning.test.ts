@@ -0,0 +1,56 @@
+import './setup';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createWalletsSchema, updateWalletSchema } from '../src/routes/wallet.routes';
+import { createWallets, createWalletSet, updateWallet, WalletProviderError } from '../src/wallet/walletManager';
+import { createMemoryWalletProvider } from '../src/wallet/memoryProvider';
+import { WalletProvider } from '../src/wallet/types';
+import { withDependencies } from '../src/dependencies';
+
+describe('wallet provisioning', () => {
+  it('defaults to one smart contract account and drops blank metadata', () => {
+    assert.deepEqual(createWalletsSchema.parse({ walletSetId: 'set-1', blockchains: ['ARC-TESTNET'], name: '  ' }), {
+      walletSetId: 'set-1',
+      blockchains: ['ARC-TESTNET'],
+      count: 1,
+      accountType: 'SCA',
+      name: undefined,
+    });
+  });
+
+  it('rejects requests without blockchains or with too many wallets', () => {
+    for (const body of [
+      { walletSetId: 'set-1', blockchains: [] },
+      { walletSetId: 'set-1', blockchains: ['ARC-TESTNET'], count: 21 },
+      { walletSetId: 'set-1', blockchains: ['ARC-TESTNET'], accountType: 'MPC' },
+      { blockchains: ['ARC-TESTNET'] },
+    ]) {
+      assert.equal(createWalletsSchema.safeParse(body).success, false, JSON.stringify(body));
+    }
+    assert.equal(updateWalletSchema.safeParse({ name: ' ' }).success, false);
+    assert.deepEqual(updateWalletSchema.parse({ refId: ' user-7 ' }), { refId: 'user-7' });
+  });
+
+  it('creates wallet sets and named wallets through the provider', async () => {
+    const walletProvider = createMemoryWalletProvider({ wallets: [] });
+    await withDependencies({ walletProvider }, async () => {
+      const walletSet = (await createWalletSet('Savings'))!;
+      const [wallet] = (await createWallets(walletSet.id, ['ARC-TESTNET'], 1, 'EOA', { name: 'Rainy day' }))!;
+      assert.equal(wallet.walletSetId, walletSet.id);
+      assert.equal(wallet.name, 'Rainy day');
+
+      assert.equal((await updateWallet(wallet.id, { refId: 'user-7' }))?.refId, 'user-7');
+    });
+  });
+
+  it('keeps the status and code of provider failures', async () => {
+    const rejection = { response: { status: 422, data: { code: 155201, message: 'Wallet set not found' } } };
+    const walletProvider = { ...createMemoryWalletProvider(), createWallets: () => Promise.reject(rejection) } as WalletProvider;
+
+    const error = await withDependencies({ walletProvider }, () => createWallets('set-1', ['ARC-TESTNET'])).catch((e) => e);
+    assert.ok(error instanceof WalletProviderError);
+    assert.equal(error.message, 'Failed to create wallets: Wallet set not found');
+    assert.equal(error.status, 422);
+    assert.equal(error.providerCode, 155201);
+  });
+});
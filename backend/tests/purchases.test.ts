@@ -0,0 +1,34 @@
+import './setup';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { hasPurchased, listPurchases, recordPurchase } from '../src/marketplace/purchases';
+
+function purchase(walletId: string, ebookId: string) {
+  return recordPurchase({ ebookId, walletId, price: '0.15', tokenId: 'usdc', tokenSymbol: 'USDC', transactionId: `tx-${ebookId}` });
+}
+
+describe('purchase ledger', () => {
+  it('records purchases per wallet, oldest first', () => {
+    const first = purchase('wallet-a', '1');
+    purchase('wallet-a', '2');
+    purchase('wallet-b', '3');
+
+    const purchases = listPurchases('wallet-a');
+    assert.deepEqual(
+      purchases.map((entry) => entry.ebookId),
+      ['1', '2']
+    );
+    assert.equal(purchases[0].id, first.id);
+    assert.equal(purchases[0].price, '0.15');
+    assert.equal(purchases[0].transactionId, 'tx-1');
+    assert.deepEqual(purchases[0].createdAt, first.createdAt);
+    assert.equal(purchases[0].orderId, undefined);
+  });
+
+  it('answers whether a wallet owns an e-book', () => {
+    purchase('wallet-c', '4');
+    assert.equal(hasPurchased('wallet-c', '4'), true);
+    assert.equal(hasPurchased('wallet-c', '5'), false);
+    assert.equal(hasPurchased('wallet-d', '4'), false);
+  });
+});
@@ -0,0 +1,100 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import request from 'supertest';
+import { Express } from 'express';
+import { ADMIN_API_KEY, createTestApp, loginAs, USER_WALLET_ID } from './helpers';
+import { createMemoryRateLimitStore } from '../src/rateLimit/memoryStore';
+import { RateLimitStore } from '../src/rateLimit/types';
+import { consumeRateLimit } from '../src/rateLimit/rateLimit';
+import { withDependencies } from '../src/dependencies';
+
+// Two requests per bucket key, whatever the configured limits
+const memoryStore = createMemoryRateLimitStore();
+const consumedKeys: string[] = [];
+const strictStore: RateLimitStore = {
+  name: 'strict',
+  consume(key, _rule, now) {
+    consumedKeys.push(key);
+    return memoryStore.consume(key, { burst: 2, perMinute: 1 }, now);
+  },
+  refund(key) {
+    return memoryStore.refund(key, { burst: 2, perMinute: 1 });
+  },
+};
+
+const credentials = (email: string) => ({ email, password: 'correct-horse-battery' });
+
+describe('in-memory token buckets', () => {
+  it('allows a burst, then refills at the sustained rate', async () => {
+    const store = createMemoryRateLimitStore();
+    const rule = { burst: 2, perMinute: 6 };
+    const start = 1_000_000;
+
+    assert.deepEqual(await store.consume('client', rule, start), { allowed: true, remaining: 1, retryAfterMs: 0 });
+    assert.deepEqual(await store.consume('client', rule, start), { allowed: true, remaining: 0, retryAfterMs: 0 });
+    assert.deepEqual(await store.consume('client', rule, start), { allowed: false, remaining: 0, retryAfterMs: 10000 });
+    // Another key has its own bucket
+    assert.equal((await store.consume('other', rule, start)).allowed, true);
+
+    assert.equal((await store.consume('client', rule, start + 5000)).retryAfterMs, 5000);
+    assert.equal((await store.consume('client', rule, start + 10000)).allowed, true);
+  });
+
+  it('takes nothing from the other buckets of a refused request', async () => {
+    const rateLimitStore = createMemoryRateLimitStore();
+    // One request per minute, for every bucket key
+    const store: RateLimitStore = {
+      name: 'single',
+      consume: (key, _rule, now) => rateLimitStore.consume(key, { burst: 1, perMinute: 1 }, now),
+      refund: (key) => rateLimitStore.refund(key, { burst: 1, perMinute: 1 }),
+    };
+
+    await withDependencies({ rateLimitStore: store }, async () => {
+      assert.equal((await consumeRateLimit('read', ['ip:noisy'])).allowed, true);
+      for (let i = 0; i < 3; i++) {
+        assert.equal((await consumeRateLimit('read', ['user:alice', 'ip:noisy'])).allowed, false);
+      }
+      // Alice's bucket is still full from another address
+      assert.equal((await consumeRateLimit('read', ['user:alice', 'ip:home'])).allowed, true);
+    });
+  });
+});
+
+describe('rate limits', () => {
+  let app: Express;
+  let user: Record<string, string>;
+
+  before(async () => {
+    app = createTestApp({ rateLimitStore: strictStore });
+    user = await loginAs(app, 'limited@example.com', [USER_WALLET_ID]);
+  });
+
+  it('limits registration and login per IP address, in their own bucket', async () => {
+    assert.equal(consumedKeys.length, 1);
+    assert.match(consumedKeys[0], /^auth:ip:/);
+
+    const login = await request(app)
+      .post('/api/auth/login')
+      .set('X-API-Key', ADMIN_API_KEY)
+      .send(credentials('limited@example.com'))
+      .expect(200);
+    assert.equal(login.headers['ratelimit-remaining'], '0');
+
+    const limited = await request(app)
+      .post('/api/auth/login')
+      .set('X-API-Key', ADMIN_API_KEY)
+      .send(credentials('someone-else@example.com'))
+      .expect(429);
+    assert.equal(limited.body.code, 'RATE_LIMITED');
+    assert.equal(limited.body.details.bucket, 'auth');
+    assert.ok(Number(limited.headers['retry-after']) > 0);
+  });
+
+  it('counts other routes per user and IP address', async () => {
+    consumedKeys.length = 0;
+    await request(app).get('/api/wallets').set(user).expect(200);
+    assert.equal(consumedKeys.length, 2);
+    assert.match(consumedKeys[0], /^read:user:/);
+    assert.match(consumedKeys[1], /^read:ip:/);
+  });
+});
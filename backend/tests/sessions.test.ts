@@ -0,0 +1,46 @@
+import './setup';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { appendMessages, createSession, deleteSession, getSession, listSessions } from '../src/agent/sessions';
+
+describe('conversation sessions', () => {
+  it('creates, lists and deletes sessions per wallet', () => {
+    const first = createSession('wallet-a');
+    const second = createSession('wallet-b');
+    appendMessages(first, { role: 'user', content: 'Hello' });
+
+    assert.equal(getSession(first.id), first);
+    assert.deepEqual(
+      listSessions('wallet-a').map((session) => session.id),
+      [first.id]
+    );
+    // Most recently updated first
+    assert.equal(listSessions()[0].id, first.id);
+
+    assert.equal(deleteSession(second.id), true);
+    assert.equal(deleteSession(second.id), false);
+    assert.equal(getSession(second.id), undefined);
+  });
+
+  it('keeps the latest messages and folds older ones into the summary', () => {
+    const session = createSession('wallet-a');
+    for (let i = 1; i <= 22; i++) {
+      appendMessages(session, { role: i % 2 ? 'user' : 'agent', content: `message ${i}` });
+    }
+
+    assert.equal(session.messages.length, 20);
+    assert.equal(session.messages[0].content, 'message 3');
+    assert.ok(session.messages.every((message) => message.timestamp instanceof Date));
+    assert.equal(session.summary, '- User: message 1\n- Assistant: message 2');
+  });
+
+  it('shortens long messages in the summary', () => {
+    const session = createSession('wallet-a');
+    appendMessages(session, { role: 'user', content: `${'a'.repeat(400)}\n\nend` });
+    for (let i = 0; i < 20; i++) {
+      appendMessages(session, { role: 'agent', content: 'ok' });
+    }
+
+    assert.equal(session.summary, `- User: ${'a'.repeat(300)}...`);
+  });
+});
@@ -0,0 +1,19 @@
+/**
+ * Test Environment
+ *
+ * Imported first by every test file: configuration is read when modules load.
+ */
+
+process.env.DATABASE_PATH = ':memory:';
+process.env.API_KEY_SECRET = 'test-admin-key';
+process.env.WALLET_PROVIDER = 'memory';
+process.env.LLM_PROVIDER = 'scripted';
+process.env.MARKETPLACE_WALLET_ADDRESS = '0x2222222222222222222222222222222222222222';
+process.env.MEMORY_WALLET_STEP_MS = '5';
+process.env.LOG_LEVEL = 'error';
+
+// Requests of a test file must not be limited
+for (const bucket of ['CHAT', 'TRANSFER', 'AUTH', 'READ']) {
+  process.env[`RATE_LIMIT_${bucket}_BURST`] = '1000';
+  process.env[`RATE_LIMIT_${bucket}_PER_MINUTE`] = '1000';
+}
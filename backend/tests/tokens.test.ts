@@ -0,0 +1,83 @@
+import './setup';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { Balance, Token } from '@circle-fin/developer-controlled-wallets';
+import { AmbiguousTokenError, findBalance, findTokenDefinition, loadRegistry, matchesToken } from '../src/wallet/tokens';
+
+const USDC_SEPOLIA = '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238';
+
+function token(fields: Partial<Token> & { id: string }): Token {
+  return { blockchain: 'ETH-SEPOLIA', isNative: false, createDate: '', updateDate: '', ...fields } as Token;
+}
+
+function balance(fields: Partial<Token> & { id: string }): Balance {
+  return { token: token(fields), amount: '1', updateDate: '' };
+}
+
+function withRegistryFile(content: string, run: () => void) {
+  const filePath = path.join(os.tmpdir(), `tokens-${process.pid}-${Date.now()}.json`);
+  fs.writeFileSync(filePath, content);
+  process.env.TOKEN_REGISTRY_FILE = filePath;
+  try {
+    run();
+  } finally {
+    delete process.env.TOKEN_REGISTRY_FILE;
+    fs.unlinkSync(filePath);
+  }
+}
+
+describe('token registry', () => {
+  const usdc = findTokenDefinition('usdc-testnet')!;
+
+  it('matches known tokens by contract address, not by symbol', () => {
+    assert.equal(usdc.symbol, 'USDC');
+    assert.ok(matchesToken(token({ id: 'a', symbol: 'USDC', tokenAddress: USDC_SEPOLIA.toLowerCase() }), usdc));
+    assert.ok(!matchesToken(token({ id: 'b', symbol: 'USDC', tokenAddress: '0x000000000000000000000000000000000000dEaD' }), usdc));
+    // No address listed for the blockchain: the symbol alone is not enough
+    assert.ok(!matchesToken(token({ id: 'c', symbol: 'USDC', blockchain: 'UNKNOWN-CHAIN' as Token['blockchain'], tokenAddress: '0xabc' }), usdc));
+  });
+
+  it('matches native tokens on the blockchains they are the gas token of', () => {
+    const eth = findTokenDefinition('ETH')!;
+    assert.ok(matchesToken(token({ id: 'eth', symbol: 'ETH', isNative: true }), eth));
+    assert.ok(!matchesToken(token({ id: 'eth', symbol: 'ETH', isNative: true, blockchain: 'MATIC-AMOY' }), eth));
+    assert.ok(matchesToken(token({ id: 'arc-usdc', symbol: 'USDC', isNative: true, blockchain: 'ARC-TESTNET' }), usdc));
+  });
+
+  it('findBalance ignores tokens that only reuse a known symbol', () => {
+    const spoofed = balance({ id: 'spoofed', symbol: 'USDC', tokenAddress: '0x000000000000000000000000000000000000dEaD' });
+    const real = balance({ id: 'real', symbol: 'USDC', tokenAddress: USDC_SEPOLIA });
+    assert.equal(findBalance([spoofed], 'USDC'), undefined);
+    assert.equal(findBalance([spoofed, real], 'USDC')?.token.id, 'real');
+    assert.equal(findBalance([spoofed, real], 'spoofed')?.token.id, 'spoofed');
+  });
+
+  it('findBalance refuses a symbol that matches several balances', () => {
+    const balances = [balance({ id: 'one', symbol: 'FOO', tokenAddress: '0x1' }), balance({ id: 'two', symbol: 'FOO', tokenAddress: '0x2' })];
+    assert.throws(
+      () => findBalance(balances, 'foo'),
+      (error: unknown) => error instanceof AmbiguousTokenError && error.tokenIds.join() === 'one,two'
+    );
+  });
+
+  it('configured tokens fall back to the symbol where they list no address', () => {
+    withRegistryFile(
+      JSON.stringify({ tokens: [{ symbol: 'DEMO', name: 'Demo', decimals: 18, addresses: { 'ETH-SEPOLIA': '0x1' } }] }),
+      () => {
+        const demo = loadRegistry().find((definition) => definition.symbol === 'DEMO')!;
+        assert.ok(demo.configured);
+        assert.ok(matchesToken(token({ id: 'd', symbol: 'DEMO', blockchain: 'MATIC-AMOY', tokenAddress: '0x9' }), demo));
+        assert.ok(!matchesToken(token({ id: 'd', symbol: 'DEMO', tokenAddress: '0x9' }), demo));
+      }
+    );
+  });
+
+  it('rejects a registry file that does not match the format', () => {
+    withRegistryFile(JSON.stringify({ token: [] }), () => {
+      assert.throws(() => loadRegistry(), /Failed to load token registry .*tokens/);
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import './setup';
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { listTransactions } from '../src/wallet/walletManager';
+import { createMemoryWalletProvider } from '../src/wallet/memoryProvider';
+import { TransactionFilters } from '../src/wallet/types';
+import { withDependencies } from '../src/dependencies';
+
+const RECIPIENT = '0x4444444444444444444444444444444444444444';
+const OTHER_RECIPIENT = '0x5555555555555555555555555555555555555555';
+
+const walletProvider = createMemoryWalletProvider({
+  wallets: [
+    {
+      id: 'wallet-a',
+      balances: [
+        { tokenId: 'usdc', symbol: 'USDC', amount: '100', decimals: 6 },
+        { tokenId: 'eurc', symbol: 'EURC', amount: '100', decimals: 6, tokenAddress: '0x89B50855Aa3bE2F677cD6303Cec089B5F319D72a' },
+      ],
+    },
+  ],
+});
+
+// Amounts of the listed transactions, newest first
+function amounts(filters: TransactionFilters) {
+  return withDependencies({ walletProvider }, async () =>
+    ((await listTransactions(['wallet-a'], filters)) || []).map((tx) => tx.amounts![0])
+  );
+}
+
+describe('transaction listing', () => {
+  let ids: string[];
+
+  before(async () => {
+    // Amounts 1 to 6: EURC for 2 and 5, and 6 to another recipient
+    ids = [];
+    for (let i = 1; i <= 6; i++) {
+      const transfer = await walletProvider.createTransfer({
+        walletId: 'wallet-a',
+        tokenId: i === 2 || i === 5 ? 'eurc' : 'usdc',
+        destinationAddress: i === 6 ? OTHER_RECIPIENT : RECIPIENT,
+        amount: String(i),
+        feeLevel: 'LOW',
+        idempotencyKey: crypto.randomUUID(),
+      });
+      ids.push(transfer!.id);
+    }
+  });
+
+  it('pages through the transactions with cursors', async () => {
+    assert.deepEqual(await amounts({ pageSize: 2 }), ['6', '5']);
+    assert.deepEqual(await amounts({ pageSize: 2, pageAfter: ids[4] }), ['4', '3']);
+    assert.deepEqual(await amounts({ pageSize: 2, pageBefore: ids[2] }), ['5', '4']);
+  });
+
+  it('fills pages of one token across provider pages', async () => {
+    assert.deepEqual(await amounts({ tokenId: 'eurc', pageSize: 2 }), ['5', '2']);
+    assert.deepEqual(await amounts({ tokenId: 'usdc', pageSize: 2, pageAfter: ids[3] }), ['3', '1']);
+  });
+
+  it('filters by destination, type and date', async () => {
+    assert.deepEqual(await amounts({ destinationAddress: OTHER_RECIPIENT.toUpperCase().replace('0X', '0x') }), ['6']);
+    assert.deepEqual(await amounts({ transactionType: 'INBOUND' }), []);
+    assert.deepEqual(await amounts({ from: new Date(Date.now() + 60 * 1000).toISOString() }), []);
+    assert.equal((await amounts({ to: new Date().toISOString() })).length, 6);
+  });
+});
@@ -0,0 +1,69 @@
+import './setup';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  authenticateUser,
+  createUser,
+  createUserSession,
+  deleteUserSession,
+  findUserByEmail,
+  getSessionUser,
+  UserExistsError,
+} from '../src/users/users';
+import { assignWallet, assignWalletSet, listOwnedWalletIds, ownsWallet, ownsWalletSet } from '../src/users/ownership';
+import { getDatabase } from '../src/db/database';
+
+describe('user accounts', () => {
+  it('registers users once per email, case-insensitively', () => {
+    const user = createUser(' Alice@Example.com ', 'correct-horse-battery');
+    assert.equal(user.email, 'alice@example.com');
+    assert.equal(findUserByEmail('ALICE@example.com')?.id, user.id);
+    assert.throws(() => createUser('alice@example.com', 'another-password'), UserExistsError);
+  });
+
+  it('stores only a salted hash of the password', () => {
+    const user = createUser('bob@example.com', 'correct-horse-battery');
+    const { password_hash } = getDatabase().prepare('SELECT password_hash FROM users WHERE id = ?').get(user.id) as any;
+    assert.match(password_hash, /^scrypt\$[0-9a-f]{32}\$[0-9a-f]{128}$/);
+
+    assert.equal(authenticateUser('bob@example.com', 'correct-horse-battery')?.id, user.id);
+    assert.equal(authenticateUser('bob@example.com', 'wrong-password'), undefined);
+    assert.equal(authenticateUser('nobody@example.com', 'correct-horse-battery'), undefined);
+  });
+
+  it('resolves sessions until they expire or end', () => {
+    const user = createUser('carol@example.com', 'correct-horse-battery');
+    const session = createUserSession(user.id);
+    assert.equal(getSessionUser(session.token)?.id, user.id);
+    assert.equal(getSessionUser('unknown-token'), undefined);
+    // Only the hash of the token is stored
+    assert.equal(getDatabase().prepare('SELECT 1 FROM user_sessions WHERE token_hash = ?').get(session.token), undefined);
+
+    deleteUserSession(session.token);
+    assert.equal(getSessionUser(session.token), undefined);
+
+    const expired = createUserSession(user.id);
+    getDatabase().prepare('UPDATE user_sessions SET expires_at = ?').run(new Date(Date.now() - 1000).toISOString());
+    assert.equal(getSessionUser(expired.token), undefined);
+  });
+});
+
+describe('wallet ownership', () => {
+  it('gives each wallet a single owner', () => {
+    const alice = createUser('owner-a@example.com', 'correct-horse-battery');
+    const bob = createUser('owner-b@example.com', 'correct-horse-battery');
+
+    assignWallet(alice.id, 'wallet-1');
+    assignWallet(alice.id, 'wallet-2');
+    assert.deepEqual(listOwnedWalletIds(alice.id), ['wallet-1', 'wallet-2']);
+    assert.equal(ownsWallet(bob.id, 'wallet-1'), false);
+
+    assignWallet(bob.id, 'wallet-1');
+    assert.equal(ownsWallet(bob.id, 'wallet-1'), true);
+    assert.deepEqual(listOwnedWalletIds(alice.id), ['wallet-2']);
+
+    assignWalletSet(alice.id, 'set-1');
+    assert.equal(ownsWalletSet(alice.id, 'set-1'), true);
+    assert.equal(ownsWalletSet(bob.id, 'set-1'), false);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import request from 'supertest';
+import { z } from 'zod';
+import { ADMIN_API_KEY, createTestApp } from './helpers';
+import { ApiError } from '../src/middleware/errors';
+import { commaSeparatedList, isoDate, parseRequest, requiredString, transferRequestSchema } from '../src/middleware/validation';
+
+describe('request validation', () => {
+  it('lists every invalid field', () => {
+    assert.throws(
+      () => parseRequest(transferRequestSchema, { tokenId: '  ' }),
+      (error: ApiError) => {
+        assert.ok(error instanceof ApiError);
+        assert.equal(error.code, 'VALIDATION_ERROR');
+        assert.deepEqual(error.details, {
+          issues: ['tokenId: tokenId is required', 'destinationAddress: destinationAddress is required', 'amount: amount is required'],
+        });
+        assert.equal(error.message, (error.details as { issues: string[] }).issues.join('; '));
+        return true;
+      }
+    );
+  });
+
+  it('returns the parsed values, reading a missing input as empty', () => {
+    assert.deepEqual(parseRequest(transferRequestSchema, { tokenId: ' USDC ', destinationAddress: '0xabc', amount: 1.5 }), {
+      tokenId: 'USDC',
+      destinationAddress: '0xabc',
+      amount: '1.5',
+    });
+    assert.deepEqual(parseRequest(z.object({ walletId: z.string().optional() }), undefined), {});
+    assert.throws(() => parseRequest(z.object({ name: requiredString('name') }), undefined), /name: name is required/);
+  });
+
+  it('parses dates and comma-separated lists', () => {
+    assert.deepEqual(isoDate.parse('2026-01-02T03:04:05Z'), new Date('2026-01-02T03:04:05Z'));
+    assert.equal(isoDate.safeParse('yesterday').success, false);
+
+    assert.deepEqual(commaSeparatedList.parse(' a, b,,c '), ['a', 'b', 'c']);
+    assert.equal(commaSeparatedList.safeParse(' , ').success, false);
+  });
+
+  it('answers malformed JSON bodies with the error envelope', async () => {
+    const response = await request(createTestApp())
+      .post('/api/auth/login')
+      .set('X-API-Key', ADMIN_API_KEY)
+      .set('Content-Type', 'application/json')
+      .send('{"email":')
+      .expect(400);
+    assert.equal(response.body.success, false);
+    assert.equal(response.body.code, 'VALIDATION_ERROR');
+  });
+});
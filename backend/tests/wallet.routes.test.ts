@@ -0,0 +1,183 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import request from 'supertest';
+import { Express } from 'express';
+import { createTestApp, eventually, loginAs, OTHER_WALLET_ID, RECIPIENT_ADDRESS, USER_WALLET_ID } from './helpers';
+
+describe('wallet routes', () => {
+  let app: Express;
+  let user: Record<string, string>;
+
+  before(async () => {
+    app = createTestApp();
+    user = await loginAs(app, 'wallets@example.com', [USER_WALLET_ID]);
+    await loginAs(app, 'other@example.com', [OTHER_WALLET_ID]);
+  });
+
+  it('requires an API key and a login', async () => {
+    const missingKey = await request(app).get('/api/wallets').expect(401);
+    assert.equal(missingKey.body.code, 'UNAUTHORIZED');
+
+    await request(app).get('/api/wallets').set('X-API-Key', user['X-API-Key']).expect(401);
+  });
+
+  it('GET /api/wallets lists only the user\'s wallets', async () => {
+    const response = await request(app).get('/api/wallets').set(user).expect(200);
+    assert.deepEqual(
+      response.body.data.map((wallet: any) => wallet.id),
+      [USER_WALLET_ID]
+    );
+  });
+
+  it('GET /api/wallets/:walletId returns an owned wallet and hides others', async () => {
+    const response = await request(app).get(`/api/wallets/${USER_WALLET_ID}`).set(user).expect(200);
+    assert.equal(response.body.data.name, 'Primary');
+
+    const foreign = await request(app).get(`/api/wallets/${OTHER_WALLET_ID}`).set(user).expect(404);
+    assert.equal(foreign.body.code, 'NOT_FOUND');
+  });
+
+  it('PATCH /api/wallets/:walletId renames a wallet', async () => {
+    const response = await request(app)
+      .patch(`/api/wallets/${USER_WALLET_ID}`)
+      .set(user)
+      .send({ name: 'Savings' })
+      .expect(200);
+    assert.equal(response.body.data.name, 'Savings');
+
+    const empty = await request(app).patch(`/api/wallets/${USER_WALLET_ID}`).set(user).send({}).expect(400);
+    assert.equal(empty.body.code, 'VALIDATION_ERROR');
+  });
+
+  it('POST /api/wallets/sets and POST /api/wallets provision wallets the user owns', async () => {
+    const walletSet = await request(app).post('/api/wallets/sets').set(user).send({ name: 'Team' }).expect(201);
+    const walletSetId = walletSet.body.data.id;
+
+    const sets = await request(app).get('/api/wallets/sets').set(user).expect(200);
+    assert.deepEqual(
+      sets.body.data.map((set: any) => set.id),
+      [walletSetId]
+    );
+
+    const created = await request(app)
+      .post('/api/wallets')
+      .set(user)
+      .send({ walletSetId, blockchains: ['ARC-TESTNET'], count: 2, name: 'Ops' })
+      .expect(201);
+    assert.equal(created.body.data.length, 2);
+
+    const inSet = await request(app).get('/api/wallets').query({ walletSetId }).set(user).expect(200);
+    assert.equal(inSet.body.data.length, 2);
+  });
+
+  it('POST /api/wallets rejects wallet sets of other users and invalid bodies', async () => {
+    const unknownSet = await request(app)
+      .post('/api/wallets')
+      .set(user)
+      .send({ walletSetId: 'memory-wallet-set', blockchains: ['ARC-TESTNET'] })
+      .expect(404);
+    assert.equal(unknownSet.body.code, 'NOT_FOUND');
+
+    const invalid = await request(app).post('/api/wallets').set(user).send({ walletSetId: 'x', blockchains: [] }).expect(400);
+    assert.equal(invalid.body.code, 'VALIDATION_ERROR');
+  });
+
+  it('GET /api/wallets/:walletId/balance returns the token balances', async () => {
+    const response = await request(app).get(`/api/wallets/${USER_WALLET_ID}/balance`).set(user).expect(200);
+    assert.equal(response.body.data[0].token.symbol, 'USDC');
+    assert.equal(response.body.data[0].amount, '25');
+  });
+
+  it('POST /api/wallets/:walletId/transfer/estimate estimates each fee level', async () => {
+    const response = await request(app)
+      .post(`/api/wallets/${USER_WALLET_ID}/transfer/estimate`)
+      .set(user)
+      .send({ tokenId: 'USDC', destinationAddress: RECIPIENT_ADDRESS, amount: '2' })
+      .expect(200);
+    assert.equal(response.body.data.amount, '2');
+    assert.ok(response.body.data.levels.length > 0);
+  });
+
+  it('POST /api/wallets/:walletId/transfer validates the destination and amount', async () => {
+    const badAddress = await request(app)
+      .post(`/api/wallets/${USER_WALLET_ID}/transfer`)
+      .set(user)
+      .send({ tokenId: 'USDC', destinationAddress: '0x123', amount: '1' })
+      .expect(400);
+    assert.equal(badAddress.body.code, 'INVALID_ADDRESS');
+
+    const badAmount = await request(app)
+      .post(`/api/wallets/${USER_WALLET_ID}/transfer`)
+      .set(user)
+      .send({ tokenId: 'USDC', destinationAddress: RECIPIENT_ADDRESS, amount: 'ten' })
+      .expect(400);
+    assert.equal(badAmount.body.code, 'INVALID_AMOUNT');
+
+    const missingToken = await request(app)
+      .post(`/api/wallets/${USER_WALLET_ID}/transfer`)
+      .set(user)
+      .send({ tokenId: 'EURC', destinationAddress: RECIPIENT_ADDRESS, amount: '1' })
+      .expect(400);
+    assert.equal(missingToken.body.code, 'VALIDATION_ERROR');
+    assert.deepEqual(missingToken.body.details, { availableTokens: ['USDC'] });
+
+    await request(app)
+      .post(`/api/wallets/${OTHER_WALLET_ID}/transfer`)
+      .set(user)
+      .send({ tokenId: 'USDC', destinationAddress: RECIPIENT_ADDRESS, amount: '1' })
+      .expect(404);
+  });
+
+  it('transfers tokens and lists the transaction', async () => {
+    const transfer = await request(app)
+      .post(`/api/wallets/${USER_WALLET_ID}/transfer`)
+      .set(user)
+      .send({ tokenId: 'USDC', destinationAddress: RECIPIENT_ADDRESS, amount: '2' })
+      .expect(200);
+    const transactionId = transfer.body.data.id;
+    assert.ok(transactionId);
+
+    const transaction = await eventually(async () => {
+      const response = await request(app).get(`/api/wallets/transactions/${transactionId}`).set(user).expect(200);
+      assert.equal(response.body.data.state, 'COMPLETE');
+      return response.body.data;
+    });
+    assert.equal(transaction.walletId, USER_WALLET_ID);
+
+    const history = await request(app)
+      .get(`/api/wallets/${USER_WALLET_ID}/transactions`)
+      .query({ transactionType: 'OUTBOUND' })
+      .set(user)
+      .expect(200);
+    assert.deepEqual(
+      history.body.data.map((tx: any) => tx.id),
+      [transactionId]
+    );
+
+    const all = await request(app)
+      .get('/api/wallets/transactions/all')
+      .query({ walletIds: USER_WALLET_ID })
+      .set(user)
+      .expect(200);
+    assert.equal(all.body.data.length, 1);
+
+    const balance = await request(app).get(`/api/wallets/${USER_WALLET_ID}/balance`).set(user).expect(200);
+    assert.equal(balance.body.data[0].amount, '23');
+  });
+
+  it('GET /api/wallets/transactions/all rejects other users\' wallets and bad filters', async () => {
+    const foreign = await request(app)
+      .get('/api/wallets/transactions/all')
+      .query({ walletIds: `${USER_WALLET_ID},${OTHER_WALLET_ID}` })
+      .set(user)
+      .expect(404);
+    assert.equal(foreign.body.code, 'NOT_FOUND');
+
+    const badFilter = await request(app)
+      .get(`/api/wallets/${USER_WALLET_ID}/transactions`)
+      .query({ pageSize: 500 })
+      .set(user)
+      .expect(400);
+    assert.equal(badFilter.body.code, 'VALIDATION_ERROR');
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { createSign, generateKeyPairSync } from 'crypto';
+import request from 'supertest';
+import { createTestApp } from './helpers';
+import { processNotification, verifyNotificationSignature } from '../src/webhooks/circleWebhooks';
+import { walletEvents } from '../src/webhooks/events';
+import { CircleNotification, TransactionEvent } from '../src/webhooks/types';
+import { createMemoryWalletProvider } from '../src/wallet/memoryProvider';
+import { withDependencies } from '../src/dependencies';
+
+const { privateKey, publicKey } = generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+const PUBLIC_KEY = publicKey.export({ format: 'der', type: 'spki' }).toString('base64');
+
+// Circle's public keys come from the wallet provider
+const walletProvider = {
+  ...createMemoryWalletProvider(),
+  getNotificationPublicKey: async (keyId: string) => (keyId === 'key-1' ? PUBLIC_KEY : undefined),
+};
+
+const OUTBOUND: CircleNotification = JSON.parse(
+  fs.readFileSync(path.join(__dirname, '../fixtures/webhooks/outbound-complete.json'), 'utf-8')
+);
+
+function sign(body: Buffer): string {
+  return createSign('SHA256').update(body).sign(privateKey, 'base64');
+}
+
+function verify(body: Buffer, signature: string, keyId: string) {
+  return withDependencies({ walletProvider }, () => verifyNotificationSignature(body, signature, keyId));
+}
+
+describe('Circle webhooks', () => {
+  it('verifies signatures over the raw body with the key of the key ID', async () => {
+    const body = Buffer.from(JSON.stringify(OUTBOUND));
+    const signature = sign(body);
+
+    assert.equal(await verify(body, signature, 'key-1'), true);
+    assert.equal(await verify(Buffer.from(JSON.stringify({ ...OUTBOUND, version: 3 })), signature, 'key-1'), false);
+    assert.equal(await verify(body, signature, 'key-2'), false);
+    assert.equal(await verify(body, 'not a signature', 'key-1'), false);
+  });
+
+  it('stores each notification once and dispatches its transaction update', () => {
+    const events: TransactionEvent[] = [];
+    walletEvents.on('outbound_completed', (event) => events.push(event));
+
+    const first = processNotification(OUTBOUND);
+    assert.equal(first.duplicate, false);
+    assert.equal(first.event?.transactionId, OUTBOUND.notification.id);
+    assert.deepEqual(first.event?.occurredAt, new Date('2025-01-15T10:00:12Z'));
+
+    assert.deepEqual(processNotification(OUTBOUND), { duplicate: true });
+    assert.equal(events.length, 1);
+  });
+
+  it('dispatches failed outbound transfers', () => {
+    const events: TransactionEvent[] = [];
+    walletEvents.on('outbound_failed', (event) => events.push(event));
+
+    processNotification({
+      ...OUTBOUND,
+      notificationId: 'failed-notification',
+      notification: { ...OUTBOUND.notification, id: 'failed-transaction', state: 'DENIED' },
+    });
+    assert.deepEqual(
+      events.map((event) => event.transactionId),
+      ['failed-transaction']
+    );
+  });
+
+  it('POST /api/webhooks/circle accepts signed notifications only', async () => {
+    const app = createTestApp({ walletProvider });
+    const body = JSON.stringify({ ...OUTBOUND, notificationId: 'route-notification' });
+
+    const unsigned = await request(app).post('/api/webhooks/circle').set('Content-Type', 'application/json').send(body).expect(401);
+    assert.equal(unsigned.body.code, 'UNAUTHORIZED');
+
+    const response = await request(app)
+      .post('/api/webhooks/circle')
+      .set('Content-Type', 'application/json')
+      .set('X-Circle-Signature', sign(Buffer.from(body)))
+      .set('X-Circle-Key-Id', 'key-1')
+      .send(body)
+      .expect(200);
+    assert.deepEqual(response.body.data, { notificationId: 'route-notification', duplicate: false });
+  });
+});
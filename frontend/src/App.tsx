@@ -1,14 +1,39 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { Sidebar } from './components/Sidebar';
 import { ChatInterface } from './components/ChatInterface';
 import { DashboardView } from './components/DashboardView';
 import { Marketplace } from './components/Marketplace';
+import { LoginForm } from './components/LoginForm';
+import { AUTH_EXPIRED_EVENT, User, authApi, getAuthToken } from './services/api';
 
 function App() {
+  const [user, setUser] = useState<User | null>(null);
+  const [checkingSession, setCheckingSession] = useState(!!getAuthToken());
   const [currentView, setCurrentView] = useState('chat');
   const [selectedWalletId, setSelectedWalletId] = useState<string | null>(null);
   const [refreshKey, setRefreshKey] = useState(0);
 
+  // Resume the stored session, and go back to the login screen when it expires
+  useEffect(() => {
+    if (getAuthToken()) {
+      authApi
+        .me()
+        .then(({ user }) => setUser(user))
+        .catch(() => setUser(null))
+        .finally(() => setCheckingSession(false));
+    }
+
+    const handleExpired = () => setUser(null);
+    window.addEventListener(AUTH_EXPIRED_EVENT, handleExpired);
+    return () => window.removeEventListener(AUTH_EXPIRED_EVENT, handleExpired);
+  }, []);
+
+  const handleLogout = async () => {
+    await authApi.logout();
+    setUser(null);
+    setSelectedWalletId(null);
+  };
+
   const handleTransferComplete = () => {
     setRefreshKey((prev) => prev + 1);
   };
@@ -17,6 +42,14 @@ function App() {
     setCurrentView(view);
   };
 
+  if (checkingSession) {
+    return null;
+  }
+
+  if (!user) {
+    return <LoginForm onLogin={setUser} />;
+  }
+
   return (
     <div className="app">
       <Sidebar
@@ -43,8 +76,16 @@ function App() {
             background: 'white',
             borderBottom: '1px solid rgba(0,0,0,0.08)',
             zIndex: 100,
+            display: 'flex',
+            justifyContent: 'flex-end',
+            alignItems: 'center',
+            gap: '1rem',
           }}
         >
+          <span style={{ fontSize: '0.875rem', color: 'var(--secondary)' }}>{user.email}</span>
+          <button onClick={handleLogout} style={{ width: 'auto', padding: '0.5rem 1rem', fontSize: '0.875rem' }}>
+            Log out
+          </button>
         </header>
 
         {/* Main Content */}
@@ -0,0 +1,93 @@
+import { AgentAction, EBook } from '../services/api';
+import { FeeEstimateTable } from './FeeEstimateTable';
+
+interface AgentActionViewProps {
+  action: AgentAction;
+}
+
+function BookCard({ ebook }: { ebook: EBook }) {
+  return (
+    <div
+      style={{
+        padding: '0.75rem',
+        borderRadius: '8px',
+        border: '1px solid rgba(0,0,0,0.1)',
+        background: 'white',
+      }}
+    >
+      <div style={{ fontWeight: 600 }}>{ebook.title}</div>
+      <div style={{ opacity: 0.75 }}>by {ebook.author}</div>
+      <div style={{ marginTop: '0.25rem', fontWeight: 500, color: 'var(--primary)' }}>{ebook.price} USDC</div>
+      {ebook.category && <div style={{ opacity: 0.6, fontSize: '0.75rem' }}>{ebook.category}</div>}
+    </div>
+  );
+}
+
+/**
+ * Render a structured agent result (books, balances, receipts) next to the text answer.
+ * Pending transfers and purchases are rendered by PendingActionCard instead.
+ */
+export function AgentActionView({ action }: AgentActionViewProps) {
+  switch (action.type) {
+    case 'ebook_list':
+      if (action.ebooks.length === 0) return null;
+      return (
+        <div
+          style={{
+            display: 'grid',
+            gridTemplateColumns: 'repeat(auto-fill, minmax(160px, 1fr))',
+            gap: '0.5rem',
+            marginTop: '0.75rem',
+            fontSize: '0.8125rem',
+          }}
+        >
+          {action.ebooks.map((ebook) => (
+            <BookCard key={ebook.id} ebook={ebook} />
+          ))}
+        </div>
+      );
+    case 'ebook_details':
+      return (
+        <div style={{ marginTop: '0.75rem', fontSize: '0.8125rem' }}>
+          <BookCard ebook={action.ebook} />
+        </div>
+      );
+    case 'balance':
+      return (
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem', marginTop: '0.75rem', fontSize: '0.875rem' }}>
+          {action.balances.map((balance) => (
+            <div
+              key={balance.tokenId}
+              style={{ padding: '0.5rem 0.75rem', borderRadius: '8px', background: 'white', border: '1px solid rgba(0,0,0,0.1)' }}
+            >
+              <strong>{balance.amount}</strong> {balance.symbol}
+            </div>
+          ))}
+        </div>
+      );
+    case 'purchase_submitted':
+      return (
+        <div style={{ marginTop: '0.5rem', fontSize: '0.8125rem', wordBreak: 'break-all' }}>
+          <div>Paid {action.ebook.price} USDC for "{action.ebook.title}", available once the payment is confirmed</div>
+          {action.orderId && <div style={{ opacity: 0.75 }}>Order ID: {action.orderId}</div>}
+          {action.transactionId && <div style={{ opacity: 0.75 }}>Transaction ID: {action.transactionId}</div>}
+        </div>
+      );
+    case 'transfer_submitted':
+      return (
+        <div style={{ marginTop: '0.5rem', fontSize: '0.8125rem', wordBreak: 'break-all' }}>
+          <div>Sent {action.amount} to {action.destinationAddress}</div>
+          {action.transactionId && <div style={{ opacity: 0.75 }}>Transaction ID: {action.transactionId}</div>}
+          {action.state && <div style={{ opacity: 0.75 }}>State: {action.state}</div>}
+        </div>
+      );
+    case 'fee_estimate':
+      return (
+        <div style={{ marginTop: '0.5rem', fontSize: '0.8125rem' }}>
+          <FeeEstimateTable estimate={action.estimate} />
+        </div>
+      );
+    default:
+      return null;
+  }
+}
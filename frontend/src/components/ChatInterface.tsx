@@ -1,11 +1,24 @@
 import { useState, useRef, useEffect } from 'react';
-import { chatApi } from '../services/api';
+import { chatApi, ApiError, ChatStreamEvent, PendingAction, AgentAction } from '../services/api';
+import { PendingActionCard } from './PendingActionCard';
+import { AgentActionView } from './AgentActionView';
+
+interface ToolCallStatus {
+  id: string;
+  name: string;
+  args: Record<string, any>;
+  status: 'running' | 'done' | 'error';
+  result?: string;
+}
 
 interface Message {
   id: string;
   role: 'user' | 'agent';
   content: string;
   timestamp: Date;
+  toolCalls?: ToolCallStatus[];
+  actions?: AgentAction[];
+  pendingActions?: PendingAction[];
 }
 
 export function ChatInterface() {
@@ -19,6 +32,7 @@ export function ChatInterface() {
   ]);
   const [input, setInput] = useState('');
   const [loading, setLoading] = useState(false);
+  const [sessionId, setSessionId] = useState<string | undefined>(undefined);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   const scrollToBottom = () => {
@@ -45,32 +59,78 @@ export function ChatInterface() {
     setInput('');
     setLoading(true);
 
+    const agentMessageId = (Date.now() + 1).toString();
+    setMessages((prev) => [
+      ...prev,
+      { id: agentMessageId, role: 'agent', content: '', timestamp: new Date(), toolCalls: [] },
+    ]);
+
+    const updateAgentMessage = (update: (message: Message) => Message) => {
+      setMessages((prev) => prev.map((m) => (m.id === agentMessageId ? update(m) : m)));
+    };
+
+    const handleEvent = (event: ChatStreamEvent) => {
+      switch (event.type) {
+        case 'session':
+          setSessionId(event.sessionId);
+          break;
+        case 'token':
+          updateAgentMessage((m) => ({ ...m, content: m.content + event.content }));
+          break;
+        case 'tool_start':
+          updateAgentMessage((m) => ({
+            ...m,
+            toolCalls: [...(m.toolCalls || []), { id: event.id, name: event.name, args: event.args, status: 'running' }],
+          }));
+          break;
+        case 'tool_end':
+          updateAgentMessage((m) => ({
+            ...m,
+            toolCalls: (m.toolCalls || []).map((tc) =>
+              tc.id === event.id ? { ...tc, status: event.error ? 'error' : 'done', result: event.result } : tc
+            ),
+          }));
+          break;
+        case 'final':
+          setSessionId(event.sessionId);
+          updateAgentMessage((m) => ({
+            ...m,
+            content: event.response,
+            actions: event.actions,
+            pendingActions: event.pendingActions,
+            timestamp: new Date(event.timestamp),
+          }));
+          break;
+        case 'error':
+          throw new ApiError(event.error, event.code, undefined, event.details);
+      }
+    };
+
     try {
       console.log('Sending message to API:', messageToSend);
-      // Call the chat API
-      const response = await chatApi.sendMessage(messageToSend);
-      console.log('Received response from API:', response);
-      
-      const agentMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        role: 'agent',
-        content: response.response,
-        timestamp: new Date(),
-      };
-      setMessages((prev) => [...prev, agentMessage]);
+      // Stream the agent's response
+      await chatApi.streamMessage(messageToSend, handleEvent, undefined, sessionId);
     } catch (error: any) {
-      const errorMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        role: 'agent',
+      updateAgentMessage((m) => ({
+        ...m,
         content: `Sorry, I encountered an error: ${error.message || 'Unknown error'}`,
         timestamp: new Date(),
-      };
-      setMessages((prev) => [...prev, errorMessage]);
+      }));
     } finally {
       setLoading(false);
     }
   };
 
+  const handleActionUpdate = (messageId: string, action: PendingAction) => {
+    setMessages((prev) =>
+      prev.map((m) =>
+        m.id === messageId
+          ? { ...m, pendingActions: (m.pendingActions || []).map((a) => (a.id === action.id ? action : a)) }
+          : m
+      )
+    );
+  };
+
   return (
     <div style={{ display: 'flex', flexDirection: 'column', height: '100vh', minHeight: 0, background: '#ffffff' }}>
       {/* Messages Area */}
@@ -130,73 +190,107 @@ export function ChatInterface() {
             </div>
           )}
 
-          {messages.map((message) => (
-            <div
-              key={message.id}
-              style={{
-                display: 'flex',
-                justifyContent: message.role === 'user' ? 'flex-end' : 'flex-start',
-                alignItems: 'flex-start',
-                gap: '0.75rem',
-              }}
-            >
-              {message.role === 'agent' && (
-                <div
-                  style={{
-                    width: '32px',
-                    height: '32px',
-                    borderRadius: '50%',
-                    background: 'var(--primary)',
-                    display: 'flex',
-                    alignItems: 'center',
-                    justifyContent: 'center',
-                    color: 'white',
-                    fontSize: '0.875rem',
-                    fontWeight: 600,
-                    flexShrink: 0,
-                  }}
-                >
-                  AI
-                </div>
-              )}
+          {messages
+            .filter((message) => message.content || message.toolCalls?.length)
+            .map((message) => (
               <div
+                key={message.id}
                 style={{
-                  maxWidth: '85%',
-                  padding: message.role === 'user' ? '0.75rem 1rem' : '1rem 1.25rem',
-                  borderRadius: message.role === 'user' ? '18px 18px 4px 18px' : '18px 18px 18px 4px',
-                  backgroundColor: message.role === 'user' ? 'var(--primary)' : '#f8f9fa',
-                  color: message.role === 'user' ? 'white' : 'var(--secondary)',
-                  wordWrap: 'break-word',
-                  fontSize: '0.9375rem',
-                  lineHeight: '1.5',
-                  boxShadow: message.role === 'user' 
-                    ? '0 1px 2px rgba(99, 102, 241, 0.2)' 
-                    : '0 1px 2px rgba(0, 0, 0, 0.05)',
+                  display: 'flex',
+                  justifyContent: message.role === 'user' ? 'flex-end' : 'flex-start',
+                  alignItems: 'flex-start',
+                  gap: '0.75rem',
                 }}
               >
-                <div style={{ whiteSpace: 'pre-wrap' }}>{message.content}</div>
-              </div>
-              {message.role === 'user' && (
+                {message.role === 'agent' && (
+                  <div
+                    style={{
+                      width: '32px',
+                      height: '32px',
+                      borderRadius: '50%',
+                      background: 'var(--primary)',
+                      display: 'flex',
+                      alignItems: 'center',
+                      justifyContent: 'center',
+                      color: 'white',
+                      fontSize: '0.875rem',
+                      fontWeight: 600,
+                      flexShrink: 0,
+                    }}
+                  >
+                    AI
+                  </div>
+                )}
                 <div
                   style={{
-                    width: '32px',
-                    height: '32px',
-                    borderRadius: '50%',
-                    background: 'var(--secondary)',
-                    display: 'flex',
-                    alignItems: 'center',
-                    justifyContent: 'center',
-                    color: 'white',
-                    fontSize: '0.875rem',
-                    fontWeight: 600,
-                    flexShrink: 0,
+                    maxWidth: '85%',
+                    padding: message.role === 'user' ? '0.75rem 1rem' : '1rem 1.25rem',
+                    borderRadius: message.role === 'user' ? '18px 18px 4px 18px' : '18px 18px 18px 4px',
+                    backgroundColor: message.role === 'user' ? 'var(--primary)' : '#f8f9fa',
+                    color: message.role === 'user' ? 'white' : 'var(--secondary)',
+                    wordWrap: 'break-word',
+                    fontSize: '0.9375rem',
+                    lineHeight: '1.5',
+                    boxShadow: message.role === 'user' 
+                      ? '0 1px 2px rgba(99, 102, 241, 0.2)' 
+                      : '0 1px 2px rgba(0, 0, 0, 0.05)',
                   }}
                 >
-                  U
+                  {message.toolCalls && message.toolCalls.length > 0 && (
+                    <div
+                      style={{
+                        display: 'flex',
+                        flexDirection: 'column',
+                        gap: '0.25rem',
+                        marginBottom: message.content ? '0.75rem' : 0,
+                        fontSize: '0.8125rem',
+                        opacity: 0.75,
+                      }}
+                    >
+                      {message.toolCalls.map((toolCall) => (
+                        <div key={toolCall.id} title={toolCall.result}>
+                          {toolCall.status === 'running' ? '⏳' : toolCall.status === 'done' ? '✓' : '✗'}{' '}
+                          <code>{toolCall.name}</code>
+                          {toolCall.result && (
+                            <span style={{ marginLeft: '0.5rem' }}>{toolCall.result}</span>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {message.content && <div style={{ whiteSpace: 'pre-wrap' }}>{message.content}</div>}
+                  {message.actions?.map((action, index) => (
+                    <AgentActionView key={index} action={action} />
+                  ))}
+                  {message.pendingActions?.map((action) => (
+                    <PendingActionCard
+                      key={action.id}
+                      action={action}
+                      onUpdate={(updated) => handleActionUpdate(message.id, updated)}
+                    />
+                  ))}
                 </div>
-              )}
-            </div>
-          ))}
+                {message.role === 'user' && (
+                  <div
+                    style={{
+                      width: '32px',
+                      height: '32px',
+                      borderRadius: '50%',
+                      background: 'var(--secondary)',
+                      display: 'flex',
+                      alignItems: 'center',
+                      justifyContent: 'center',
+                      color: 'white',
+                      fontSize: '0.875rem',
+                      fontWeight: 600,
+                      flexShrink: 0,
+                    }}
+                  >
+                    U
+                  </div>
+                )}
+              </div>
+            ))}
 
           {loading && (
             <div style={{ display: 'flex', justifyContent: 'flex-start', alignItems: 'flex-start', gap: '0.75rem' }}>
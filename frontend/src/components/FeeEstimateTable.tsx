@@ -0,0 +1,38 @@
+import { TransferFeeEstimate } from '../services/api';
+
+interface FeeEstimateTableProps {
+  estimate: TransferFeeEstimate;
+  selectedFeeLevel?: string;
+}
+
+/**
+ * Network fee and total cost of a transfer at each fee level
+ */
+export function FeeEstimateTable({ estimate, selectedFeeLevel }: FeeEstimateTableProps) {
+  return (
+    <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.875rem' }}>
+      <thead>
+        <tr style={{ textAlign: 'left', color: '#666' }}>
+          <th style={{ padding: '0.25rem 0' }}>Fee level</th>
+          <th>Network fee</th>
+          <th>Total cost</th>
+        </tr>
+      </thead>
+      <tbody>
+        {estimate.levels.map((level) => (
+          <tr key={level.feeLevel} style={{ fontWeight: level.feeLevel === selectedFeeLevel ? 'bold' : 'normal' }}>
+            <td style={{ padding: '0.25rem 0' }}>{level.feeLevel}</td>
+            <td>
+              {level.networkFee} {estimate.feeTokenSymbol}
+            </td>
+            <td>
+              {level.totalCost
+                ? `${level.totalCost} ${estimate.tokenSymbol}`
+                : `${estimate.amount} ${estimate.tokenSymbol} + ${level.networkFee} ${estimate.feeTokenSymbol}`}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
@@ -0,0 +1,100 @@
+import { useState } from 'react';
+import { authApi, User } from '../services/api';
+
+const inputStyle = {
+  width: '100%',
+  padding: '0.75rem',
+  borderRadius: '6px',
+  border: '1px solid #ddd',
+  fontSize: '1rem',
+};
+
+const labelStyle = { display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' };
+
+interface LoginFormProps {
+  onLogin: (user: User) => void;
+}
+
+/**
+ * Log in, or create an account, before using the wallets
+ */
+export function LoginForm({ onLogin }: LoginFormProps) {
+  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setLoading(true);
+      setError(null);
+      const user = mode === 'login' ? await authApi.login(email, password) : await authApi.register(email, password);
+      onLogin(user);
+    } catch (err: any) {
+      setError(err.message || (mode === 'login' ? 'Login failed' : 'Registration failed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div style={{ minHeight: '100vh', display: 'flex', alignItems: 'center', justifyContent: 'center', background: 'var(--accent)' }}>
+      <div className="card" style={{ width: '100%', maxWidth: '400px' }}>
+        <h2>{mode === 'login' ? 'Log in' : 'Create an account'}</h2>
+        <form onSubmit={handleSubmit} style={{ display: 'grid', gap: '1rem' }}>
+          <div>
+            <label style={labelStyle}>Email</label>
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              autoComplete="email"
+              style={inputStyle}
+              required
+            />
+          </div>
+
+          <div>
+            <label style={labelStyle}>Password</label>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+              minLength={mode === 'register' ? 8 : undefined}
+              style={inputStyle}
+              required
+            />
+          </div>
+
+          {error && (
+            <div style={{ padding: '0.75rem', backgroundColor: '#fee', color: '#c33', borderRadius: '6px' }}>
+              {error}
+            </div>
+          )}
+
+          <button type="submit" disabled={loading} style={{ opacity: loading ? 0.6 : 1 }}>
+            {loading ? 'Please wait...' : mode === 'login' ? 'Log in' : 'Create account'}
+          </button>
+        </form>
+
+        <div style={{ marginTop: '1rem', fontSize: '0.875rem', textAlign: 'center' }}>
+          {mode === 'login' ? "Don't have an account? " : 'Already have an account? '}
+          <a
+            href="#"
+            onClick={(e) => {
+              e.preventDefault();
+              setMode(mode === 'login' ? 'register' : 'login');
+              setError(null);
+            }}
+          >
+            {mode === 'login' ? 'Create one' : 'Log in'}
+          </a>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,16 +1,7 @@
 import { useState, useEffect } from 'react';
-import { marketplaceApi } from '../services/api';
+import { EBook, marketplaceApi } from '../services/api';
 // import dotenv from 'dotenv';
 
-interface EBook {
-  id: string;
-  title: string;
-  author: string;
-  price: number;
-  description: string;
-  category?: string;
-}
-
 interface MarketplaceProps {
   walletId?: string;
 }
@@ -0,0 +1,171 @@
+import { useState, useEffect } from 'react';
+import { Wallet, WalletSet, walletApi } from '../services/api';
+
+// Testnets wallets can be created on (Circle blockchain codes)
+const BLOCKCHAINS = ['ARC-TESTNET', 'ETH-SEPOLIA', 'MATIC-AMOY', 'AVAX-FUJI', 'BASE-SEPOLIA', 'ARB-SEPOLIA', 'SOL-DEVNET'];
+
+// Select value for creating a wallet set along with the wallet
+const NEW_WALLET_SET = '__new__';
+
+const inputStyle = {
+  width: '100%',
+  padding: '0.75rem',
+  borderRadius: '6px',
+  border: '1px solid #ddd',
+  fontSize: '1rem',
+};
+
+const labelStyle = { display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' };
+
+interface NewWalletFormProps {
+  onCreated?: (wallets: Wallet[]) => void;
+  onCancel?: () => void;
+}
+
+export function NewWalletForm({ onCreated, onCancel }: NewWalletFormProps) {
+  const [walletSets, setWalletSets] = useState<WalletSet[]>([]);
+  const [walletSetId, setWalletSetId] = useState(NEW_WALLET_SET);
+  const [walletSetName, setWalletSetName] = useState('');
+  const [blockchain, setBlockchain] = useState(BLOCKCHAINS[0]);
+  const [accountType, setAccountType] = useState<'SCA' | 'EOA'>('SCA');
+  const [name, setName] = useState('');
+  const [refId, setRefId] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    walletApi
+      .listWalletSets()
+      .then((sets) => {
+        setWalletSets(sets || []);
+        if (sets?.length) setWalletSetId(sets[0].id);
+      })
+      .catch((err: any) => setError(err.message || 'Failed to load wallet sets'));
+  }, []);
+
+  // Smart contract accounts are only available on EVM chains
+  const isSolana = blockchain.startsWith('SOL');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (walletSetId === NEW_WALLET_SET && !walletSetName.trim()) {
+      setError('Wallet set name is required');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const setId =
+        walletSetId === NEW_WALLET_SET ? (await walletApi.createWalletSet(walletSetName.trim())).id : walletSetId;
+      const wallets = await walletApi.createWallets({
+        walletSetId: setId,
+        blockchains: [blockchain],
+        accountType: isSolana ? 'EOA' : accountType,
+        name: name || undefined,
+        refId: refId || undefined,
+      });
+
+      onCreated?.(wallets);
+    } catch (err: any) {
+      setError(err.message || 'Failed to create wallet');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} style={{ display: 'grid', gap: '1rem', marginBottom: '1rem' }}>
+      <div>
+        <label style={labelStyle}>Wallet Set</label>
+        <select value={walletSetId} onChange={(e) => setWalletSetId(e.target.value)} style={inputStyle}>
+          {walletSets.map((walletSet) => (
+            <option key={walletSet.id} value={walletSet.id}>
+              {walletSet.name || walletSet.id}
+            </option>
+          ))}
+          <option value={NEW_WALLET_SET}>New wallet set...</option>
+        </select>
+      </div>
+
+      {walletSetId === NEW_WALLET_SET && (
+        <div>
+          <label style={labelStyle}>Wallet Set Name</label>
+          <input
+            type="text"
+            value={walletSetName}
+            onChange={(e) => setWalletSetName(e.target.value)}
+            placeholder="e.g., Marketplace"
+            style={inputStyle}
+            required
+          />
+        </div>
+      )}
+
+      <div>
+        <label style={labelStyle}>Blockchain</label>
+        <select value={blockchain} onChange={(e) => setBlockchain(e.target.value)} style={inputStyle}>
+          {BLOCKCHAINS.map((code) => (
+            <option key={code} value={code}>
+              {code}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label style={labelStyle}>Account Type</label>
+        <select
+          value={isSolana ? 'EOA' : accountType}
+          onChange={(e) => setAccountType(e.target.value as 'SCA' | 'EOA')}
+          disabled={isSolana}
+          style={inputStyle}
+        >
+          <option value="SCA">SCA (Smart Contract Account)</option>
+          <option value="EOA">EOA (Externally Owned Account)</option>
+        </select>
+      </div>
+
+      <div>
+        <label style={labelStyle}>Name</label>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="e.g., Personal wallet"
+          style={inputStyle}
+        />
+      </div>
+
+      <div>
+        <label style={labelStyle}>Reference ID</label>
+        <input
+          type="text"
+          value={refId}
+          onChange={(e) => setRefId(e.target.value)}
+          placeholder="Optional, e.g. your customer ID"
+          style={inputStyle}
+        />
+      </div>
+
+      {error && (
+        <div style={{ padding: '0.75rem', backgroundColor: '#fee', color: '#c33', borderRadius: '6px' }}>
+          {error}
+        </div>
+      )}
+
+      <div style={{ display: 'flex', gap: '0.5rem' }}>
+        <button type="submit" disabled={loading} style={{ opacity: loading ? 0.6 : 1 }}>
+          {loading ? 'Creating wallet...' : 'Create Wallet'}
+        </button>
+        {onCancel && (
+          <button type="button" onClick={onCancel} disabled={loading}>
+            Cancel
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
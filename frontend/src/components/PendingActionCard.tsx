@@ -0,0 +1,99 @@
+import { useState } from 'react';
+import { chatApi, PendingAction } from '../services/api';
+import { AgentActionView } from './AgentActionView';
+
+interface PendingActionCardProps {
+  action: PendingAction;
+  onUpdate: (action: PendingAction) => void;
+}
+
+const STATUS_LABELS: Record<PendingAction['status'], string> = {
+  pending: 'Awaiting your confirmation',
+  confirmed: 'Confirmed',
+  rejected: 'Rejected',
+  expired: 'Expired',
+  failed: 'Failed',
+};
+
+export function PendingActionCard({ action, onUpdate }: PendingActionCardProps) {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isExpired = action.status === 'pending' && new Date(action.expiresAt).getTime() <= Date.now();
+  const status = isExpired ? 'expired' : action.status;
+  const { details } = action;
+
+  const handleDecision = async (decision: 'confirm' | 'reject') => {
+    try {
+      setLoading(true);
+      setError(null);
+      const updated = decision === 'confirm'
+        ? await chatApi.confirmAction(action.id)
+        : await chatApi.rejectAction(action.id);
+      onUpdate(updated);
+    } catch (err: any) {
+      setError(err.message || 'Request failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        marginTop: '0.75rem',
+        padding: '1rem',
+        borderRadius: '12px',
+        border: status === 'pending' ? '1px solid var(--primary)' : '1px solid rgba(0,0,0,0.1)',
+        background: 'white',
+        fontSize: '0.875rem',
+      }}
+    >
+      <div style={{ fontWeight: 600, marginBottom: '0.5rem' }}>
+        {action.type === 'purchase' ? 'Confirm purchase' : 'Confirm transfer'}
+      </div>
+      <div style={{ display: 'grid', gap: '0.25rem', opacity: 0.85 }}>
+        {action.type === 'purchase' && (
+          <div>E-Book: "{details.ebookTitle}" by {details.ebookAuthor}</div>
+        )}
+        <div>Amount: {details.amount} {details.tokenSymbol}</div>
+        <div style={{ wordBreak: 'break-all' }}>To: {details.destinationAddress}</div>
+        <div>Fee Level: {details.feeLevel}</div>
+      </div>
+      <div style={{ marginTop: '0.75rem', fontWeight: 500 }}>{STATUS_LABELS[status]}</div>
+      {action.result && status !== 'pending' && (
+        <div style={{ marginTop: '0.25rem', opacity: 0.75, wordBreak: 'break-word' }}>{action.result.message}</div>
+      )}
+      {action.result?.receipt && <AgentActionView action={action.result.receipt} />}
+      {error && (
+        <div style={{ marginTop: '0.5rem', color: '#c33' }}>{error}</div>
+      )}
+      {status === 'pending' && (
+        <div style={{ display: 'flex', gap: '0.5rem', marginTop: '0.75rem' }}>
+          <button
+            onClick={() => handleDecision('confirm')}
+            disabled={loading}
+            style={{ width: 'auto', padding: '0.5rem 1rem', fontSize: '0.875rem', opacity: loading ? 0.6 : 1 }}
+          >
+            {loading ? 'Working...' : 'Confirm'}
+          </button>
+          <button
+            onClick={() => handleDecision('reject')}
+            disabled={loading}
+            style={{
+              width: 'auto',
+              padding: '0.5rem 1rem',
+              fontSize: '0.875rem',
+              background: 'transparent',
+              color: 'var(--secondary)',
+              border: '1px solid rgba(0,0,0,0.15)',
+              opacity: loading ? 0.6 : 1,
+            }}
+          >
+            Reject
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
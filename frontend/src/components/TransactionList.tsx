@@ -1,28 +1,19 @@
 import { useState, useEffect } from 'react';
-import { walletApi } from '../services/api';
+import { Transaction, walletApi } from '../services/api';
 
-interface Transaction {
-  id: string;
-  transactionType: string;
-  state: string;
-  blockchain: string;
-  amounts: string[];
-  txHash?: string;
-  sourceAddress?: string;
-  destinationAddress?: string;
-  createDate: string;
-  updateDate: string;
-}
+const PAGE_SIZE = 10;
 
 interface TransactionListProps {
   walletId: string;
-  transactionType?: string;
+  transactionType?: 'INBOUND' | 'OUTBOUND';
 }
 
 export function TransactionList({ walletId, transactionType }: TransactionListProps) {
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
 
   useEffect(() => {
     if (walletId) {
@@ -34,8 +25,9 @@ export function TransactionList({ walletId, transactionType }: TransactionListPr
     try {
       setLoading(true);
       setError(null);
-      const data = await walletApi.listTransactions(walletId, transactionType);
+      const data = await walletApi.listTransactions(walletId, { transactionType, pageSize: PAGE_SIZE });
       setTransactions(data || []);
+      setHasMore((data || []).length === PAGE_SIZE);
     } catch (err: any) {
       setError(err.message || 'Failed to load transactions');
     } finally {
@@ -43,6 +35,23 @@ export function TransactionList({ walletId, transactionType }: TransactionListPr
     }
   };
 
+  const loadOlderTransactions = async () => {
+    try {
+      setLoadingMore(true);
+      const data = await walletApi.listTransactions(walletId, {
+        transactionType,
+        pageSize: PAGE_SIZE,
+        pageAfter: transactions[transactions.length - 1].id,
+      });
+      setTransactions((current) => [...current, ...(data || [])]);
+      setHasMore((data || []).length === PAGE_SIZE);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load transactions');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
   const getExplorerUrl = (blockchain: string, txHash: string) => {
     if (blockchain === 'ARC-TESTNET') {
       return `https://testnet.arcscan.app/tx/${txHash}`;
@@ -126,7 +135,7 @@ export function TransactionList({ walletId, transactionType }: TransactionListPr
             </div>
             <div style={{ marginBottom: '0.5rem' }}>
               <div style={{ fontWeight: 'bold' }}>
-                {tx.amounts.join(', ')} {tx.blockchain}
+                {tx.amounts?.join(', ')} {tx.blockchain}
               </div>
               {tx.sourceAddress && (
                 <div style={{ fontSize: '0.875rem', color: '#666', wordBreak: 'break-all' }}>
@@ -157,6 +166,11 @@ export function TransactionList({ walletId, transactionType }: TransactionListPr
           </div>
         ))}
       </div>
+      {hasMore && (
+        <button onClick={loadOlderTransactions} disabled={loadingMore} style={{ marginTop: '1rem' }}>
+          {loadingMore ? 'Loading...' : 'Load older transactions'}
+        </button>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { useState } from 'react';
-import { walletApi } from '../services/api';
+import { TransferFeeEstimate, walletApi } from '../services/api';
+import { FeeEstimateTable } from './FeeEstimateTable';
 
 interface TransferFormProps {
   walletId: string;
@@ -10,10 +11,17 @@ export function TransferForm({ walletId, onTransferComplete }: TransferFormProps
   const [tokenId, setTokenId] = useState('');
   const [destinationAddress, setDestinationAddress] = useState('');
   const [amount, setAmount] = useState('');
-  const [feeLevel, setFeeLevel] = useState('MEDIUM');
+  const [feeLevel, setFeeLevel] = useState<'LOW' | 'MEDIUM' | 'HIGH'>('MEDIUM');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
+  // Cost preview of the current inputs; the transfer is only sent once it has been shown
+  const [estimate, setEstimate] = useState<TransferFeeEstimate | null>(null);
+
+  const updateField = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setEstimate(null);
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -28,6 +36,11 @@ export function TransferForm({ walletId, onTransferComplete }: TransferFormProps
       setError(null);
       setSuccess(null);
 
+      if (!estimate) {
+        setEstimate(await walletApi.estimateTransferFee(walletId, tokenId, destinationAddress, amount));
+        return;
+      }
+
       const result = await walletApi.transferTokens(
         walletId,
         tokenId,
@@ -40,6 +53,7 @@ export function TransferForm({ walletId, onTransferComplete }: TransferFormProps
       setTokenId('');
       setDestinationAddress('');
       setAmount('');
+      setEstimate(null);
       
       if (onTransferComplete) {
         setTimeout(() => {
@@ -64,7 +78,7 @@ export function TransferForm({ walletId, onTransferComplete }: TransferFormProps
           <input
             type="text"
             value={tokenId}
-            onChange={(e) => setTokenId(e.target.value)}
+            onChange={(e) => updateField(setTokenId)(e.target.value)}
             placeholder="e.g., 7adb2b7d-c9cd-5164-b2d4-b73b088274dc"
             style={{
               width: '100%',
@@ -87,7 +101,7 @@ export function TransferForm({ walletId, onTransferComplete }: TransferFormProps
           <input
             type="text"
             value={destinationAddress}
-            onChange={(e) => setDestinationAddress(e.target.value)}
+            onChange={(e) => updateField(setDestinationAddress)(e.target.value)}
             placeholder="0x..."
             style={{
               width: '100%',
@@ -107,7 +121,7 @@ export function TransferForm({ walletId, onTransferComplete }: TransferFormProps
           <input
             type="text"
             value={amount}
-            onChange={(e) => setAmount(e.target.value)}
+            onChange={(e) => updateField(setAmount)(e.target.value)}
             placeholder="0.1"
             style={{
               width: '100%',
@@ -126,7 +140,7 @@ export function TransferForm({ walletId, onTransferComplete }: TransferFormProps
           </label>
           <select
             value={feeLevel}
-            onChange={(e) => setFeeLevel(e.target.value)}
+            onChange={(e) => setFeeLevel(e.target.value as typeof feeLevel)}
             style={{
               width: '100%',
               padding: '0.75rem',
@@ -141,6 +155,15 @@ export function TransferForm({ walletId, onTransferComplete }: TransferFormProps
           </select>
         </div>
 
+        {estimate && (
+          <div style={{ padding: '0.75rem', borderRadius: '6px', border: '1px solid #ddd' }}>
+            <div style={{ fontWeight: 'bold', marginBottom: '0.5rem' }}>
+              Estimated cost of sending {estimate.amount} {estimate.tokenSymbol}
+            </div>
+            <FeeEstimateTable estimate={estimate} selectedFeeLevel={feeLevel} />
+          </div>
+        )}
+
         {error && (
           <div style={{ padding: '0.75rem', backgroundColor: '#fee', color: '#c33', borderRadius: '6px' }}>
             {error}
@@ -154,7 +177,7 @@ export function TransferForm({ walletId, onTransferComplete }: TransferFormProps
         )}
 
         <button type="submit" disabled={loading} style={{ opacity: loading ? 0.6 : 1 }}>
-          {loading ? 'Transferring...' : 'Transfer Tokens'}
+          {loading ? (estimate ? 'Transferring...' : 'Estimating fees...') : estimate ? 'Transfer Tokens' : 'Review Cost'}
         </button>
       </form>
     </div>
@@ -1,23 +1,12 @@
 import { useState, useEffect } from 'react';
-import { walletApi } from '../services/api';
-
-interface TokenBalance {
-  token: {
-    id: string;
-    symbol: string;
-    name: string;
-    blockchain: string;
-    decimals: number;
-  };
-  amount: string;
-}
+import { Balance, walletApi } from '../services/api';
 
 interface WalletBalanceProps {
   walletId: string;
 }
 
 export function WalletBalance({ walletId }: WalletBalanceProps) {
-  const [balances, setBalances] = useState<TokenBalance[]>([]);
+  const [balances, setBalances] = useState<Balance[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
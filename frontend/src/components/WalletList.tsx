@@ -1,14 +1,6 @@
 import { useState, useEffect } from 'react';
-import { walletApi } from '../services/api';
-
-interface Wallet {
-  id: string;
-  address: string;
-  blockchain: string;
-  accountType: string;
-  state: string;
-  walletSetId: string;
-}
+import { Wallet, walletApi } from '../services/api';
+import { NewWalletForm } from './NewWalletForm';
 
 // Wallet name mapping by address
 const WALLET_NAMES: Record<string, string> = {
@@ -17,8 +9,8 @@ const WALLET_NAMES: Record<string, string> = {
 };
 
 // Helper function to get wallet name
-const getWalletName = (address: string): string => {
-  return WALLET_NAMES[address.toLowerCase()] || 'Wallet';
+const getWalletName = (wallet: Wallet): string => {
+  return wallet.name || WALLET_NAMES[wallet.address.toLowerCase()] || 'Wallet';
 };
 
 interface WalletListProps {
@@ -30,6 +22,7 @@ export function WalletList({ onSelectWallet, selectedWalletId }: WalletListProps
   const [wallets, setWallets] = useState<Wallet[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [creating, setCreating] = useState(false);
 
   useEffect(() => {
     loadWallets();
@@ -48,6 +41,18 @@ export function WalletList({ onSelectWallet, selectedWalletId }: WalletListProps
     }
   };
 
+  const handleCreated = async (created: Wallet[]) => {
+    setCreating(false);
+    await loadWallets();
+    if (created?.length) {
+      onSelectWallet?.(created[0].id);
+    }
+  };
+
+  const newWalletForm = creating && <NewWalletForm onCreated={handleCreated} onCancel={() => setCreating(false)} />;
+
+  const headerButtonStyle = { width: 'auto', padding: '0.5rem 1rem', fontSize: '0.875rem' };
+
   if (loading) {
     return <div className="card">Loading wallets...</div>;
   }
@@ -65,8 +70,12 @@ export function WalletList({ onSelectWallet, selectedWalletId }: WalletListProps
     return (
       <div className="card">
         <h2>Wallets</h2>
-        <p>No wallets found. Create wallets using the CLI scripts.</p>
-        <button onClick={loadWallets}>Refresh</button>
+        {newWalletForm || (
+          <>
+            <p>No wallets found.</p>
+            <button onClick={() => setCreating(true)}>New wallet</button>
+          </>
+        )}
       </div>
     );
   }
@@ -75,10 +84,16 @@ export function WalletList({ onSelectWallet, selectedWalletId }: WalletListProps
     <div className="card">
       <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1rem' }}>
         <h2>Wallets ({wallets.length})</h2>
-        <button onClick={loadWallets} style={{ width: 'auto', padding: '0.5rem 1rem', fontSize: '0.875rem' }}>
-          Refresh
-        </button>
+        <div style={{ display: 'flex', gap: '0.5rem' }}>
+          <button onClick={() => setCreating(true)} disabled={creating} style={headerButtonStyle}>
+            New wallet
+          </button>
+          <button onClick={loadWallets} style={headerButtonStyle}>
+            Refresh
+          </button>
+        </div>
       </div>
+      {newWalletForm}
       <div style={{ display: 'grid', gap: '1rem' }}>
         {wallets.map((wallet) => (
           <div
@@ -108,7 +123,7 @@ export function WalletList({ onSelectWallet, selectedWalletId }: WalletListProps
             <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', marginBottom: '0.75rem' }}>
               <div>
                 <div style={{ fontSize: '1.125rem', fontWeight: 600, color: 'var(--secondary)', marginBottom: '0.25rem' }}>
-                  {getWalletName(wallet.address)}
+                  {getWalletName(wallet)}
                 </div>
                 <div style={{ fontSize: '0.875rem', color: 'var(--secondary)', opacity: 0.7 }}>
                   {wallet.blockchain}
@@ -129,6 +144,7 @@ export function WalletList({ onSelectWallet, selectedWalletId }: WalletListProps
             </div>
             <div style={{ fontSize: '0.875rem', color: 'var(--secondary)', marginBottom: '0.5rem', opacity: 0.8 }}>
               <div>Type: {wallet.accountType}</div>
+              {wallet.refId && <div>Reference: {wallet.refId}</div>}
               <div style={{ wordBreak: 'break-all', marginTop: '0.25rem' }}>
                 Address: {wallet.address}
               </div>
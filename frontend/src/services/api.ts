@@ -1,20 +1,113 @@
 /**
  * API Service
  * 
- * Handles all API calls to the backend with API key authentication
+ * Handles all API calls to the backend with API key authentication.
+ * Paths, parameters, bodies and response types come from api.schema.ts, generated from the
+ * backend's OpenAPI document (npm run generate:api-client in backend), so a route change the
+ * client doesn't follow is a compile error.
  */
 
+import type { components, paths } from './api.schema';
+
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '/api';
 const API_KEY = import.meta.env.VITE_API_KEY || '';
 
+type Schemas = components['schemas'];
+
+// Error codes of failed requests (see backend/src/middleware/errors.ts)
+export type ApiErrorCode = Schemas['ErrorCode'];
+
+export type User = Schemas['User'];
+export type Wallet = Schemas['Wallet'];
+export type WalletSet = Schemas['WalletSet'];
+export type Balance = Schemas['Balance'];
+export type Transaction = Schemas['Transaction'];
+export type EBook = Schemas['EBook'];
+export type PendingAction = Schemas['PendingAction'];
+export type AgentToolCall = Schemas['AgentToolCall'];
+export type AgentAction = Schemas['AgentAction'];
+export type ChatTurn = Schemas['ChatTurn'];
+// Network fee of a transfer per fee level; totalCost is set when the fee is paid in the transferred token
+export type TransferFeeEstimate = Schemas['TransferFeeEstimate'];
+// Wallets to provision in a wallet set; name and refId are given to every created wallet
+export type CreateWalletsInput = Schemas['CreateWalletsRequest'];
+
 interface ApiResponse<T> {
   success: boolean;
   data?: T;
   error?: string;
+  code?: ApiErrorCode;
+  details?: unknown;
+}
+
+/**
+ * Error thrown for failed requests, with the backend's error code and details
+ * (e.g. details.reasons for a POLICY_VIOLATION, details.issues for a VALIDATION_ERROR)
+ */
+export class ApiError extends Error {
+  code: ApiErrorCode;
+  status?: number;
+  details?: unknown;
+
+  constructor(message: string, code: ApiErrorCode = 'INTERNAL_ERROR', status?: number, details?: unknown) {
+    super(message);
+    this.name = 'ApiError';
+    this.code = code;
+    this.status = status;
+    this.details = details;
+  }
+}
+
+// Login session token, kept across page reloads
+const AUTH_TOKEN_KEY = 'authToken';
+
+// Dispatched on window when the backend rejects the session (expired or logged out elsewhere)
+export const AUTH_EXPIRED_EVENT = 'auth-expired';
+
+export const getAuthToken = () => localStorage.getItem(AUTH_TOKEN_KEY);
+
+const setAuthToken = (token: string | null) => {
+  if (token) localStorage.setItem(AUTH_TOKEN_KEY, token);
+  else localStorage.removeItem(AUTH_TOKEN_KEY);
+};
+
+/**
+ * API key and session headers sent with every request
+ */
+function authHeaders(): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (API_KEY) headers['X-API-Key'] = API_KEY;
+  const token = getAuthToken();
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+  return headers;
+}
+
+/**
+ * Forget a session the backend no longer accepts
+ */
+function handleUnauthorized(response: Response) {
+  if (response.status === 401 && getAuthToken()) {
+    setAuthToken(null);
+    window.dispatchEvent(new Event(AUTH_EXPIRED_EVENT));
+  }
+}
+
+/**
+ * Read the error envelope of a failed response
+ */
+async function responseError(response: Response): Promise<ApiError> {
+  const body: ApiResponse<unknown> = await response.json().catch(() => ({ success: false }));
+  return new ApiError(
+    body.error || `HTTP ${response.status}: ${response.statusText}`,
+    body.code,
+    response.status,
+    body.details
+  );
 }
 
 /**
  * Make an API request with authentication
+ * @throws ApiError with the backend's error code when the request fails
  */
 async function apiRequest<T>(
   endpoint: string,
@@ -22,59 +115,147 @@ async function apiRequest<T>(
 ): Promise<T> {
   const headers: HeadersInit = {
     'Content-Type': 'application/json',
+    ...authHeaders(),
     ...options.headers,
   };
 
-  // Add API key if available
-  if (API_KEY) {
-    headers['X-API-Key'] = API_KEY;
-  }
-
   const response = await fetch(`${API_BASE_URL}${endpoint}`, {
     ...options,
     headers,
   });
 
   if (!response.ok) {
-    const error = await response.json().catch(() => ({ error: 'Request failed' }));
-    throw new Error(error.error || `HTTP ${response.status}: ${response.statusText}`);
+    handleUnauthorized(response);
+    throw await responseError(response);
   }
 
   const data: ApiResponse<T> = await response.json();
   
   if (!data.success) {
-    throw new Error(data.error || 'Request failed');
+    throw new ApiError(data.error || 'Request failed', data.code, response.status, data.details);
   }
 
   return data.data as T;
 }
 
+type Method = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+// Methods a path supports
+type MethodOf<P extends keyof paths> = {
+  [M in Method]-?: [NonNullable<paths[P][M]>] extends [never] ? never : M;
+}[Method];
+
+type Operation<P extends keyof paths, M extends Method> = NonNullable<paths[P][M]>;
+
+// Path and query parameters, and the JSON body when the operation takes one
+type RequestOptions<Op> = Omit<Op extends { parameters: infer Params } ? Params : {}, 'header' | 'cookie'> &
+  (Op extends { requestBody: { content: { 'application/json': infer Body } } } ? { body: Body } : {});
+
+// Type of the data field of a successful response
+type ResponseData<Op> = Op extends { responses: { 200: { content: { 'application/json': { data: infer Data } } } } }
+  ? Data
+  : Op extends { responses: { 201: { content: { 'application/json': { data: infer Data } } } } }
+    ? Data
+    : never;
+
+/**
+ * Call an operation of the API document
+ * e.g. request('get', '/wallets/{walletId}/balance', { path: { walletId }, query: { tokenAddress } })
+ */
+function request<P extends keyof paths, M extends MethodOf<P>>(
+  method: M,
+  path: P,
+  ...[options]: {} extends RequestOptions<Operation<P, M>>
+    ? [RequestOptions<Operation<P, M>>?]
+    : [RequestOptions<Operation<P, M>>]
+): Promise<ResponseData<Operation<P, M>>> {
+  const { path: pathParams = {}, query = {}, body } = (options || {}) as {
+    path?: Record<string, string>;
+    query?: Record<string, string | number | undefined>;
+    body?: unknown;
+  };
+
+  const endpoint = (path as string).replace(/\{(\w+)\}/g, (_, name: string) => encodeURIComponent(pathParams[name]));
+  const params = new URLSearchParams();
+  for (const [name, value] of Object.entries(query)) {
+    if (value !== undefined && value !== '') params.append(name, String(value));
+  }
+  const search = params.toString() ? `?${params.toString()}` : '';
+
+  return apiRequest(`${endpoint}${search}`, {
+    method: method.toUpperCase(),
+    ...(body !== undefined && { body: JSON.stringify(body) }),
+  });
+}
+
+// Transaction list filters; results are newest first, pass the last transaction ID as pageAfter for older ones
+export type TransactionFilters = NonNullable<paths['/wallets/{walletId}/transactions']['get']['parameters']['query']>;
+
+// Auth API
+export const authApi = {
+  // Create an account and start a session
+  register: async (email: string, password: string) => {
+    const result = await request('post', '/auth/register', { body: { email, password } });
+    setAuthToken(result.token);
+    return result.user;
+  },
+
+  // Start a session
+  login: async (email: string, password: string) => {
+    const result = await request('post', '/auth/login', { body: { email, password } });
+    setAuthToken(result.token);
+    return result.user;
+  },
+
+  // End the current session
+  logout: async () => {
+    await request('post', '/auth/logout').catch(() => undefined);
+    setAuthToken(null);
+  },
+
+  // The logged in user and the IDs of their wallets
+  me: () => request('get', '/auth/me'),
+};
+
 // Wallet API
 export const walletApi = {
-  // List all wallets
-  listWallets: () => apiRequest<any[]>('/wallets'),
+  // List all wallets, or the wallets of one wallet set
+  listWallets: (walletSetId?: string) => request('get', '/wallets', { query: { walletSetId } }),
+
+  // List wallet sets
+  listWalletSets: () => request('get', '/wallets/sets'),
+
+  // Create a wallet set
+  createWalletSet: (name: string) => request('post', '/wallets/sets', { body: { name } }),
+
+  // Create wallets in a wallet set
+  createWallets: (input: CreateWalletsInput) => request('post', '/wallets', { body: input }),
+
+  // Set the name and/or reference ID of a wallet
+  updateWallet: (walletId: string, metadata: { name?: string; refId?: string }) =>
+    request('patch', '/wallets/{walletId}', { path: { walletId }, body: metadata }),
 
   // Get wallet details
-  getWallet: (walletId: string) => apiRequest<any>(`/wallets/${walletId}`),
+  getWallet: (walletId: string) => request('get', '/wallets/{walletId}', { path: { walletId } }),
 
   // Get wallet balance
-  getBalance: (walletId: string, tokenAddress?: string) => {
-    const params = tokenAddress ? `?tokenAddress=${tokenAddress}` : '';
-    return apiRequest<any[]>(`/wallets/${walletId}/balance${params}`);
-  },
+  getBalance: (walletId: string, tokenAddress?: string) =>
+    request('get', '/wallets/{walletId}/balance', { path: { walletId }, query: { tokenAddress } }),
 
   // List transactions
-  listTransactions: (walletId: string, transactionType?: string, state?: string) => {
-    const params = new URLSearchParams();
-    if (transactionType) params.append('transactionType', transactionType);
-    if (state) params.append('state', state);
-    const query = params.toString() ? `?${params.toString()}` : '';
-    return apiRequest<any[]>(`/wallets/${walletId}/transactions${query}`);
-  },
+  listTransactions: (walletId: string, filters: TransactionFilters = {}) =>
+    request('get', '/wallets/{walletId}/transactions', { path: { walletId }, query: filters }),
 
   // Get transaction
   getTransaction: (transactionId: string) =>
-    apiRequest<any>(`/wallets/transactions/${transactionId}`),
+    request('get', '/wallets/transactions/{transactionId}', { path: { transactionId } }),
+
+  // Estimate the network fee of a transfer at each fee level
+  estimateTransferFee: (walletId: string, tokenId: string, destinationAddress: string, amount: string) =>
+    request('post', '/wallets/{walletId}/transfer/estimate', {
+      path: { walletId },
+      body: { tokenId, destinationAddress, amount },
+    }),
 
   // Transfer tokens
   transferTokens: (
@@ -82,92 +263,121 @@ export const walletApi = {
     tokenId: string,
     destinationAddress: string,
     amount: string,
-    feeLevel: string = 'MEDIUM'
+    feeLevel: 'LOW' | 'MEDIUM' | 'HIGH' = 'MEDIUM'
   ) =>
-    apiRequest<any>(`/wallets/${walletId}/transfer`, {
-      method: 'POST',
-      body: JSON.stringify({
-        tokenId,
-        destinationAddress,
-        amount,
-        feeLevel,
-      }),
+    request('post', '/wallets/{walletId}/transfer', {
+      path: { walletId },
+      body: { tokenId, destinationAddress, amount, feeLevel },
     }),
 };
 
 // Chat API
 export const chatApi = {
   // Send a message to the AI agent
-  sendMessage: async (message: string, walletId?: string) => {
-    const response = await fetch(`${API_BASE_URL}/chat`, {
+  sendMessage: (message: string, walletId?: string, sessionId?: string) =>
+    request('post', '/chat', { body: { message, walletId, sessionId } }),
+
+  // Send a message and stream the agent's progress as Server-Sent Events
+  streamMessage: async (
+    message: string,
+    onEvent: (event: ChatStreamEvent) => void,
+    walletId?: string,
+    sessionId?: string
+  ) => {
+    const response = await fetch(`${API_BASE_URL}/chat/stream`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        ...(API_KEY && { 'X-API-Key': API_KEY }),
+        Accept: 'text/event-stream',
+        ...authHeaders(),
       },
       body: JSON.stringify({
         message,
         walletId,
+        sessionId,
       }),
     });
 
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Request failed' }));
-      throw new Error(error.error || `HTTP ${response.status}: ${response.statusText}`);
+    if (!response.ok || !response.body) {
+      handleUnauthorized(response);
+      throw await responseError(response);
     }
 
-    const data = await response.json();
-    
-    // Handle the response format: { success: true, data: { response, timestamp } }
-    if (data.success && data.data) {
-      return { response: data.data.response, timestamp: data.data.timestamp };
-    }
-    
-    // Fallback for old format
-    if (data.response) {
-      return { response: data.response, timestamp: data.timestamp };
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    // SSE frames are separated by a blank line: "event: <type>\ndata: <json>\n\n"
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const frame = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf('\n\n');
+
+        let type = 'message';
+        let data = '';
+        for (const line of frame.split('\n')) {
+          if (line.startsWith('event:')) type = line.slice(6).trim();
+          else if (line.startsWith('data:')) data += line.slice(5).trim();
+        }
+        if (!data) continue;
+
+        onEvent({ type, ...JSON.parse(data) } as ChatStreamEvent);
+      }
     }
-    
-    throw new Error('Unexpected response format');
   },
+
+  // Confirm a pending transfer or purchase proposed by the agent
+  confirmAction: (actionId: string) =>
+    request('post', '/chat/actions/{actionId}/confirm', { path: { actionId } }),
+
+  // Reject a pending transfer or purchase proposed by the agent
+  rejectAction: (actionId: string) =>
+    request('post', '/chat/actions/{actionId}/reject', { path: { actionId } }),
+
+  // List conversation sessions
+  listSessions: (walletId?: string) => request('get', '/chat/sessions', { query: { walletId } }),
+
+  // Get a conversation session with its messages
+  getSession: (sessionId: string) => request('get', '/chat/sessions/{sessionId}', { path: { sessionId } }),
+
+  // Delete a conversation session
+  deleteSession: (sessionId: string) =>
+    request('delete', '/chat/sessions/{sessionId}', { path: { sessionId } }),
 };
 
 // Marketplace API
 export const marketplaceApi = {
   // Get all e-books
-  getAllEbooks: () => apiRequest<EBook[]>('/marketplace/ebooks'),
+  getAllEbooks: () => request('get', '/marketplace/ebooks'),
 
   // Search e-books
-  searchEbooks: (query: string) => {
-    const params = new URLSearchParams({ q: query });
-    return apiRequest<EBook[]>(`/marketplace/ebooks/search?${params.toString()}`);
-  },
+  searchEbooks: (query: string) => request('get', '/marketplace/ebooks/search', { query: { q: query } }),
 
   // Get e-book by ID
-  getEbook: (id: string) => apiRequest<EBook>(`/marketplace/ebooks/${id}`),
+  getEbook: (id: string) => request('get', '/marketplace/ebooks/{id}', { path: { id } }),
 
   // Get marketplace config
-  getConfig: () => apiRequest<any>('/marketplace/config'),
+  getConfig: () => request('get', '/marketplace/config'),
 
   // Get purchased e-books for a wallet
-  getPurchasedEbooks: (walletId: string) => {
-    const params = new URLSearchParams({ walletId });
-    return apiRequest<EBook[]>(`/marketplace/purchased?${params.toString()}`);
-  },
+  getPurchasedEbooks: (walletId: string) => request('get', '/marketplace/purchased', { query: { walletId } }),
 
   // Check if e-book is purchased
-  isEbookPurchased: (ebookId: string, walletId: string) => {
-    const params = new URLSearchParams({ walletId });
-    return apiRequest<{ ebookId: string; purchased: boolean }>(`/marketplace/ebooks/${ebookId}/purchased?${params.toString()}`);
-  },
+  isEbookPurchased: (ebookId: string, walletId: string) =>
+    request('get', '/marketplace/ebooks/{id}/purchased', { path: { id: ebookId }, query: { walletId } }),
 };
 
-interface EBook {
-  id: string;
-  title: string;
-  author: string;
-  price: number;
-  description: string;
-  category?: string;
-}
-
+// Events of POST /chat/stream; final carries the same turn POST /chat answers with
+export type ChatStreamEvent =
+  | { type: 'session'; sessionId: string }
+  | { type: 'token'; content: string }
+  | { type: 'tool_start'; id: string; name: string; args: Record<string, any> }
+  | { type: 'tool_end'; id: string; name: string; result: string; error?: boolean }
+  | ({ type: 'final' } & ChatTurn)
+  | ({ type: 'error' } & Omit<Schemas['ErrorResponse'], 'success'>);